@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { requireAdmin } from '../middleware/admin.middleware';
 import bcrypt from 'bcryptjs';
+import workerCredentialService from '../services/workerCredential.service';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -966,4 +967,148 @@ router.put('/prompts/:id', requireAdmin, async (req, res) => {
   }
 });
 
+// Credentials are listed without their secret; BigInt sequences do not serialize to JSON
+const workerCredentialSelect = {
+  workerId: true,
+  lastSequence: true,
+  lastSeenAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const formatWorkerCredential = <T extends { lastSequence: bigint }>(credential: T) => ({
+  ...credential,
+  lastSequence: credential.lastSequence.toString(),
+});
+
+/**
+ * GET /admin/workers/credentials
+ * Fetch the credentials of all workers, without their secrets
+ * Requires admin privileges
+ */
+router.get('/workers/credentials', requireAdmin, async (req, res) => {
+  try {
+    const credentials = await prisma.workerCredential.findMany({
+      select: workerCredentialSelect,
+      orderBy: { workerId: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: credentials.map(formatWorkerCredential),
+    });
+  } catch (error) {
+    console.error('Error fetching worker credentials:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch worker credentials',
+    });
+  }
+});
+
+/**
+ * POST /admin/workers/:workerId/credentials
+ * Issue a credential for a worker, or rotate its secret and lift a revocation.
+ * The secret is returned only in this response and is set on the worker as WORKER_SECRET
+ * Requires admin privileges
+ */
+router.post('/workers/:workerId/credentials', requireAdmin, async (req, res) => {
+  try {
+    const { workerId } = req.params;
+
+    // Worker ids are the part of the workers:<id> key after the colon
+    if (!/^[\w.-]{1,64}$/.test(workerId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Worker ID may only contain letters, digits, dots, dashes and underscores',
+      });
+    }
+
+    const { credential, secret } = await workerCredentialService.issueCredential(workerId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        workerId: credential.workerId,
+        secret,
+        createdAt: credential.createdAt,
+        updatedAt: credential.updatedAt,
+      },
+      message: 'Credential issued, the secret will not be shown again',
+    });
+  } catch (error) {
+    console.error('Error issuing worker credential:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to issue worker credential',
+    });
+  }
+});
+
+/**
+ * POST /admin/workers/:workerId/revoke
+ * Revoke a worker's credential, its results are rejected from then on
+ * Requires admin privileges
+ */
+router.post('/workers/:workerId/revoke', requireAdmin, async (req, res) => {
+  try {
+    const credential = await workerCredentialService.revokeCredential(req.params.workerId);
+
+    if (!credential) {
+      return res.status(404).json({
+        success: false,
+        error: 'Worker credential not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        workerId: credential.workerId,
+        revokedAt: credential.revokedAt,
+      },
+      message: `Worker "${credential.workerId}" revoked successfully`,
+    });
+  } catch (error) {
+    console.error('Error revoking worker credential:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke worker credential',
+    });
+  }
+});
+
+/**
+ * GET /admin/workers/rejections
+ * Fetch check results rejected as unsigned, replayed or from unknown or revoked workers, newest first
+ * Requires admin privileges
+ */
+router.get('/workers/rejections', requireAdmin, async (req, res) => {
+  try {
+    const workerId = typeof req.query.workerId === 'string' ? req.query.workerId : undefined;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100')) || 100, 1), 1000);
+
+    const rejections = await prisma.workerResultRejection.findMany({
+      where: workerId ? { workerId } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    res.json({
+      success: true,
+      data: rejections.map(rejection => ({
+        ...rejection,
+        sequence: rejection.sequence?.toString() ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching worker result rejections:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch worker result rejections',
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
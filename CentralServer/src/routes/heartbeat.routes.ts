@@ -0,0 +1,50 @@
+import express, { Request, Response, Router } from 'express';
+import { HeartbeatPingType } from '@prisma/client';
+import heartbeatService from '../services/heartbeat.service';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const PING_EVENTS: Record<string, HeartbeatPingType> = {
+  start: 'START',
+  success: 'SUCCESS',
+  fail: 'FAIL',
+};
+
+// Jobs may send their output as plain text; JSON bodies are already parsed by the app
+router.use(express.text({ type: () => true, limit: '64kb' }));
+
+// Ping a heartbeat monitor (no authentication, the token is the secret).
+// GET or POST /api/heartbeat/:token, optionally followed by /start, /success or /fail
+const recordPing = async (req: Request, res: Response) => {
+  const { token, event } = req.params;
+  const type = event ? PING_EVENTS[event] : 'SUCCESS';
+
+  if (!type) {
+    res.status(404).json({ error: 'Unknown heartbeat event, use start, success or fail' });
+    return;
+  }
+
+  const payload = typeof req.body === 'string'
+    ? req.body
+    : req.body && Object.keys(req.body).length ? JSON.stringify(req.body) : null;
+
+  try {
+    const found = await heartbeatService.recordPing(token, type, payload || null, req.ip || null);
+
+    if (!found) {
+      res.status(404).json({ error: 'Heartbeat monitor not found' });
+      return;
+    }
+
+    res.json({ ok: true });
+  } catch (error) {
+    logger.error('Failed to record heartbeat ping:', error);
+    res.status(500).json({ error: 'Failed to record heartbeat ping' });
+  }
+};
+
+router.get('/:token/:event?', recordPing);
+router.post('/:token/:event?', recordPing);
+
+export default router;
@@ -9,6 +9,7 @@ import reportsRoutes from './reports.routes';
 import settingsRoutes from './settings.route';
 import workersRoutes from './workers.routes';
 import publicRoutes from './public.routes';
+import heartbeatRoutes from './heartbeat.routes';
 import adminRoutes from './admin.routes';
 import { authenticate } from '../middleware/auth.middleware';
 
@@ -17,6 +18,9 @@ const router = Router();
 // Public routes (no authentication required)
 router.use('/', publicRoutes);
 
+// Heartbeat pings from monitored jobs (authenticated by the secret token in the URL)
+router.use('/heartbeat', heartbeatRoutes);
+
 // Public auth routes (no authentication required)
 router.use('/auth', authRoutes);
 
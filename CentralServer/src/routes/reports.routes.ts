@@ -683,7 +683,7 @@ router.get('/pdf', (async (req: AuthenticatedRequest, res: Response) => {
             </div>
             <div class="info-item">
               <div class="label">Check Interval</div>
-              <div class="value">${site.checkInterval} minutes</div>
+              <div class="value">${site.checkInterval < 1 ? `${Math.round(site.checkInterval * 60)} seconds` : `${site.checkInterval} minutes`}</div>
             </div>
             <div class="info-item">
               <div class="label">Status</div>
@@ -1081,7 +1081,13 @@ router.get('/pdf', (async (req: AuthenticatedRequest, res: Response) => {
                     8443: { name: 'HTTPS-ALT', desc: 'Alternative HTTPS Port', security: '🔒 Encrypted' }
                   };
 
-                  const service = serviceInfo[port] || {
+                  const knownService = serviceInfo[port];
+                  // Services named on the site take precedence over the well-known port names
+                  const service = tcp.label ? {
+                    name: tcp.label,
+                    desc: knownService ? `${knownService.name} port` : 'Custom Application Port',
+                    security: knownService?.security || '❓ Unknown'
+                  } : knownService || {
                     name: 'Custom',
                     desc: 'Custom Application Port',
                     security: '❓ Unknown'
@@ -1091,7 +1097,7 @@ router.get('/pdf', (async (req: AuthenticatedRequest, res: Response) => {
                   <tr>
                     <td><strong>${port}</strong></td>
                     <td><span class="${tcp.isUp ? 'status-up' : 'status-down'}">
-                      ${tcp.isUp ? '✅ Open' : '❌ Closed'}
+                      ${tcp.isUp ? '✅ Open' : tcp.isConnected ? '⚠️ Unexpected Response' : '❌ Closed'}
                     </span></td>
                     <td><strong>${service.name}</strong></td>
                     <td>${service.desc}</td>
@@ -1190,7 +1196,7 @@ router.get('/pdf', (async (req: AuthenticatedRequest, res: Response) => {
                     3306: 'MySQL', 5432: 'PostgreSQL', 27017: 'MongoDB', 6379: 'Redis',
                     8080: 'HTTP-ALT', 8443: 'HTTPS-ALT'
                   };
-                  const service = serviceInfo[tcp.port] || 'Custom';
+                  const service = tcp.label || serviceInfo[tcp.port] || 'Custom';
                   return `
                 <div class="metric-row" style="margin-left: 15px; font-size: 0.9em;">
                   <span class="metric-label">Port ${tcp.port} (${service}):</span>
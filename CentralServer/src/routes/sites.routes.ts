@@ -1,12 +1,16 @@
-import { Router, Response } from 'express';
+import net from 'net';
+import { Router, Response, NextFunction } from 'express';
 import { validateRequest } from '../middleware/validateRequest';
 import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
-import { BadRequestError, NotFoundError } from '../utils/errors';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError, BadRequestError, NotFoundError } from '../utils/errors';
 import type { AuthenticatedRequest } from '../types/express';
 import redisService from '../services/redis.service';
 import logger from '../utils/logger';
 import monitorService from '../services/monitor.service';
+import dnsMonitorService from '../services/dnsMonitor.service';
+import contentMonitorService from '../services/contentMonitor.service';
+import heartbeatService from '../services/heartbeat.service';
 import pdfService from '../services/pdf.service';
 import telegramService from '../services/telegram.service';
 import slackService from '../services/slack.service';
@@ -19,13 +23,213 @@ import mailgunService from '../services/mailgun.service';
 const prisma = new PrismaClient();
 const router = Router();
 
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// URL schemes each protocol monitor accepts, the secure variants connect with TLS right away
+const protocolSchemes: Record<string, string[]> = {
+  SMTP: ['smtp', 'smtps'],
+  IMAP: ['imap', 'imaps'],
+  POP3: ['pop3', 'pop3s'],
+  POSTGRES: ['postgres', 'postgresql'],
+  MYSQL: ['mysql'],
+  REDIS: ['redis', 'rediss'],
+  WEBSOCKET: ['ws', 'wss'],
+  GRPC: ['grpc', 'grpcs'],
+};
+
+const getProtocolUrlError = (monitorType: string, url: string): string | null => {
+  const schemes = protocolSchemes[monitorType];
+  if (!schemes || (URL.canParse(url) && schemes.includes(new URL(url).protocol.replace(/:$/, '')))) return null;
+  return `${monitorType} monitors need a ${schemes.map((scheme) => `${scheme}://`).join(' or ')} URL`;
+};
+
+// HTTP request fields shared by the create and update schemas
+const httpRequestFields = {
+  httpMethod: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']).optional(),
+  httpHeaders: z.record(z.string()).nullable().optional(),
+  httpBody: z.string().max(64 * 1024).nullable().optional(),
+  acceptedStatusCodes: z.array(
+    z.string().regex(/^[1-5]\d{2}(-[1-5]\d{2})?$/, 'Must be a status code (200) or range (200-299)')
+  ).min(1).optional(),
+  followRedirects: z.boolean().optional(),
+  maxRedirects: z.number().int().min(0).max(20).optional(),
+};
+
+// HTTP content assertion fields shared by the create and update schemas
+const contentRuleFields = {
+  contentMustContain: z.array(z.string().min(1)).max(20).optional(),
+  contentMustNotContain: z.array(z.string().min(1)).max(20).optional(),
+  contentRegex: z.string().refine(isValidRegex, 'Must be a valid regular expression').nullable().optional(),
+  contentMaxBytes: z.number().int().min(1).max(10 * 1024 * 1024).nullable().optional(),
+};
+
+const jsonAssertionFields = {
+  jsonAssertions: z.array(z.object({
+    path: z.string().min(1, 'JSON path is required').max(500),
+    operator: z.enum([
+      'equals',
+      'notEquals',
+      'exists',
+      'notExists',
+      'greaterThan',
+      'greaterThanOrEqual',
+      'lessThan',
+      'lessThanOrEqual',
+      'lengthEquals',
+      'lengthGreaterThan',
+      'lengthLessThan',
+    ]),
+    value: z.union([z.string(), z.number(), z.boolean()]).nullable().optional(),
+  })).max(20).optional(),
+};
+
+const dnsRecordFields = {
+  dnsRecordTypes: z.array(z.enum(['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SOA', 'CAA'])).optional(),
+};
+
+const tcpPortFields = {
+  tcpPorts: z.array(z.object({
+    port: z.number().int().min(1).max(65535),
+    label: z.string().trim().max(50).nullable().optional(),
+    send: z.string().max(1024).nullable().optional(),
+    expect: z.string().max(1024).nullable().optional(),
+  })).max(20).refine(
+    (ports) => new Set(ports.map(({ port }) => port)).size === ports.length,
+    'Each port can only be listed once'
+  ).optional(),
+};
+
+// Worker regions that check the site; an empty list leaves it to every shared region
+const regionFields = {
+  regions: z.array(
+    z.string().trim().regex(/^[\w.-]{1,64}$/, 'Region names may only contain letters, digits, _, . and -')
+  ).max(20).refine(
+    (regions) => new Set(regions).size === regions.length,
+    'Each region can only be listed once'
+  ).optional(),
+};
+
+// A nameserver IP, optionally with a port: 1.1.1.1, 1.1.1.1:53, 2606:4700::1111 or [2606:4700::1111]:53
+const isValidResolver = (resolver: string): boolean => {
+  const match = /^\[([^\]]+)\](?::(\d{1,5}))?$/.exec(resolver) || /^([\d.]+)(?::(\d{1,5}))?$/.exec(resolver);
+  const [address, port] = match ? [match[1], match[2]] : [resolver, undefined];
+  return net.isIP(address) !== 0 && (!port || (Number(port) >= 1 && Number(port) <= 65535));
+};
+
+// Proxy for the HTTP and TLS checks, and nameservers whose answers are compared with the worker's own resolver
+const networkFields = {
+  proxyUrl: z.string().trim().url('Must be a valid URL').max(2048).refine(
+    (proxyUrl) => ['http:', 'https:', 'socks5:', 'socks5h:'].includes(new URL(proxyUrl).protocol),
+    'Proxy URLs must start with http://, https://, socks5:// or socks5h://'
+  ).nullable().optional(),
+  dnsResolvers: z.array(
+    z.string().trim().refine(isValidResolver, 'Nameservers must be IP addresses, optionally with a port')
+  ).max(5).refine(
+    (resolvers) => new Set(resolvers).size === resolvers.length,
+    'Each nameserver can only be listed once'
+  ).optional(),
+};
+
+// Opt-in content change detection; selectors and patterns leave dynamic regions of the page out of the comparison
+const contentChangeFields = {
+  contentChangeEnabled: z.boolean().optional(),
+  contentIgnoreSelectors: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+  contentIgnorePatterns: z.array(
+    z.string().min(1).max(500).refine(isValidRegex, 'Must be a valid regular expression')
+  ).max(20).optional(),
+  contentSimilarityThreshold: z.number().int().min(50).max(100).optional(),
+};
+
+// Steps of a transaction monitor, each one a request with its own assertions and variable extractions
+const transactionStepFields = {
+  transactionSteps: z.array(z.object({
+    name: z.string().trim().min(1, 'Step name is required').max(100),
+    url: z.string().trim().min(1, 'Step URL is required').max(2048), // Absolute, or relative to the site URL
+    method: httpRequestFields.httpMethod.unwrap().default('GET'),
+    headers: httpRequestFields.httpHeaders,
+    body: httpRequestFields.httpBody,
+    acceptedStatusCodes: httpRequestFields.acceptedStatusCodes,
+    followRedirects: httpRequestFields.followRedirects,
+    contentRules: z.object({
+      mustContain: contentRuleFields.contentMustContain,
+      mustNotContain: contentRuleFields.contentMustNotContain,
+      regex: contentRuleFields.contentRegex,
+      maxBytes: contentRuleFields.contentMaxBytes,
+    }).optional(),
+    jsonAssertions: jsonAssertionFields.jsonAssertions,
+    extract: z.array(z.object({
+      name: z.string().regex(/^[\w.-]{1,50}$/, 'Variable names may only contain letters, digits, _, . and -'),
+      source: z.enum(['header', 'body', 'json']),
+      header: z.string().trim().max(200).nullable().optional(),
+      expression: z.string().max(500).nullable().optional(),
+    }).refine(
+      (extraction) => extraction.source !== 'header' || !!extraction.header,
+      'Header extractions need the header name'
+    ).refine(
+      (extraction) => extraction.source === 'json' || !extraction.expression || isValidRegex(extraction.expression),
+      'Must be a valid regular expression'
+    )).max(10).optional(),
+  })).max(20).optional(),
+};
+
+// WebSocket and gRPC monitor fields shared by the create and update schemas
+const protocolRequestFields = {
+  websocketSend: z.string().max(10000).nullable().optional(),
+  websocketExpect: z.string().max(1000).nullable().optional(),
+  websocketTimeout: z.number().int().min(100).max(60000).nullable().optional(),
+  grpcService: z.string().trim().max(200).nullable().optional(),
+};
+
+// Monitor type and heartbeat monitor fields shared by the create and update schemas
+const heartbeatFields = {
+  monitorType: z.enum(['HTTP', 'HEARTBEAT', 'TRANSACTION', 'SMTP', 'IMAP', 'POP3', 'POSTGRES', 'MYSQL', 'REDIS', 'WEBSOCKET', 'GRPC']).optional(),
+  heartbeatPeriod: z.number().int().min(60).max(31 * 24 * 60 * 60).nullable().optional(),
+  heartbeatGrace: z.number().int().min(0).max(7 * 24 * 60 * 60).optional(),
+};
+
 const createSiteSchema = z.object({
   body: z.object({
     name: z.string().min(1, 'Site name is required'),
-    url: z.string().url('Must be a valid URL'),
-    checkInterval: z.number().min(1).max(60).default(5),
+    url: z.string().url('Must be a valid URL').optional(), // Not used by heartbeat monitors
+    checkInterval: z.number().min(0.5, 'Checks run at most every 30 seconds').max(60).default(5), // Minutes
+    confirmationRetries: z.number().int().min(0).max(5).optional(),
     monthlyReport: z.boolean().optional(),
     monthlyReportSendAt: z.string().datetime().optional(),
+    ...httpRequestFields,
+    ...contentRuleFields,
+    ...jsonAssertionFields,
+    ...dnsRecordFields,
+    ...tcpPortFields,
+    ...transactionStepFields,
+    ...regionFields,
+    ...networkFields,
+    ...contentChangeFields,
+    ...protocolRequestFields,
+    ...heartbeatFields,
+  }).superRefine((body, ctx) => {
+    const isHeartbeat = body.monitorType === 'HEARTBEAT';
+
+    if (isHeartbeat && !body.heartbeatPeriod) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['heartbeatPeriod'], message: 'Heartbeat monitors need the expected period between pings' });
+    }
+    if (!isHeartbeat && !body.url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: 'URL is required' });
+    }
+    if (body.monitorType === 'TRANSACTION' && !body.transactionSteps?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['transactionSteps'], message: 'Transaction monitors need at least one step' });
+    }
+
+    const protocolUrlError = body.monitorType && body.url ? getProtocolUrlError(body.monitorType, body.url) : null;
+    if (protocolUrlError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: protocolUrlError });
+    }
   }),
 });
 
@@ -33,10 +237,22 @@ const updateSiteSchema = z.object({
   body: z.object({
     name: z.string().min(1, 'Site name is required').optional(),
     url: z.string().url('Must be a valid URL').optional(),
-    checkInterval: z.number().min(1).max(60).optional(),
+    checkInterval: z.number().min(0.5, 'Checks run at most every 30 seconds').max(60).optional(), // Minutes
+    confirmationRetries: z.number().int().min(0).max(5).optional(),
     isActive: z.boolean().optional(),
     monthlyReport: z.boolean().optional(),
     monthlyReportSendAt: z.string().datetime().optional(),
+    ...httpRequestFields,
+    ...contentRuleFields,
+    ...jsonAssertionFields,
+    ...dnsRecordFields,
+    ...tcpPortFields,
+    ...transactionStepFields,
+    ...regionFields,
+    ...networkFields,
+    ...contentChangeFields,
+    ...protocolRequestFields,
+    ...heartbeatFields,
   }),
 });
 
@@ -70,69 +286,252 @@ const getSites = async (req: AuthenticatedRequest, res: Response) => {
   res.json(sites);
 };
 
-// Create a new site
-const createSite = async (req: AuthenticatedRequest, res: Response) => {
+// Create a new site, the monitor type rules are checked by createSiteSchema
+const createSite = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const isHeartbeat = req.body.monitorType === 'HEARTBEAT';
+
   try {
-    const { monthlyReportSendAt, ...rest } = req.body as any;
+    const { monthlyReportSendAt, httpHeaders, ...rest } = req.body as any;
     const parsedSendAt = typeof monthlyReportSendAt === 'string' && monthlyReportSendAt ? new Date(monthlyReportSendAt) : undefined;
+    // Json columns need Prisma.DbNull to be cleared
+    const parsedHeaders = httpHeaders === null ? Prisma.DbNull : httpHeaders;
 
     const site = await prisma.site.create({
       data: ({
         ...rest,
         ...(parsedSendAt ? { monthlyReportSendAt: parsedSendAt } : {}),
+        ...(parsedHeaders !== undefined ? { httpHeaders: parsedHeaders } : {}),
+        ...(isHeartbeat ? heartbeatService.createMonitorFields() : {}),
         userId: req.user.id,
       } as any),
     });
 
     // Sync the new site to Redis
     await redisService.syncSite(site);
-    await monitorService.addSiteSchedule(site);
     logger.info(`Site ${site.id} created and synced to Redis`);
 
     res.status(201).json(site);
   } catch (error) {
     logger.error('Failed to create and sync site:', error);
-    throw error;
+    next(error);
   }
 };
 
 // Update a site
-const updateSite = async (req: AuthenticatedRequest, res: Response) => {
+const updateSite = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const { id } = req.params;
 
-  const existingSite = await prisma.site.findUnique({
-    where: { id },
-  });
+  try {
+    const existingSite = await prisma.site.findUnique({
+      where: { id },
+    });
 
-  if (!existingSite) {
-    throw new NotFoundError('Site not found');
-  }
+    if (!existingSite) {
+      throw new NotFoundError('Site not found');
+    }
 
-  if (existingSite.userId !== req.user.id) {
-    throw new BadRequestError('You do not have permission to update this site');
-  }
+    if (existingSite.userId !== req.user.id) {
+      throw new BadRequestError('You do not have permission to update this site');
+    }
 
-  try {
-    const { monthlyReportSendAt, ...rest } = req.body as any;
+    const isHeartbeat = (req.body.monitorType ?? existingSite.monitorType) === 'HEARTBEAT';
+
+    if (isHeartbeat && !(req.body.heartbeatPeriod ?? existingSite.heartbeatPeriod)) {
+      throw new BadRequestError('Heartbeat monitors need the expected period between pings');
+    }
+
+    // A heartbeat monitor's URL only identifies it, so switching to HTTP needs a real one
+    if (!isHeartbeat && existingSite.monitorType === 'HEARTBEAT' && !req.body.url) {
+      throw new BadRequestError('URL is required');
+    }
+
+    const transactionSteps = req.body.transactionSteps ?? existingSite.transactionSteps;
+    if ((req.body.monitorType ?? existingSite.monitorType) === 'TRANSACTION' && !(Array.isArray(transactionSteps) && transactionSteps.length)) {
+      throw new BadRequestError('Transaction monitors need at least one step');
+    }
+
+    if (!isHeartbeat) {
+      const protocolUrlError = getProtocolUrlError(req.body.monitorType ?? existingSite.monitorType, req.body.url ?? existingSite.url);
+      if (protocolUrlError) {
+        throw new BadRequestError(protocolUrlError);
+      }
+    }
+
+    if (isHeartbeat) {
+      delete req.body.url;
+    }
+
+    const { monthlyReportSendAt, httpHeaders, ...rest } = req.body as any;
     const parsedSendAt = typeof monthlyReportSendAt === 'string' && monthlyReportSendAt ? new Date(monthlyReportSendAt) : undefined;
+    // Json columns need Prisma.DbNull to be cleared
+    const parsedHeaders = httpHeaders === null ? Prisma.DbNull : httpHeaders;
+
+    // A different host has different DNS records, so start a new baseline
+    const resetDnsBaseline = rest.url !== undefined && new URL(rest.url).hostname !== new URL(existingSite.url).hostname;
+    // The stored page is stale after detection was off, or was normalized for another URL or other ignored regions
+    const isSameList = (value: string[] | undefined, current: string[]) => value === undefined || value.join('\n') === current.join('\n');
+    const resetContentBaseline = (rest.contentChangeEnabled === true && !existingSite.contentChangeEnabled) ||
+      (rest.url !== undefined && rest.url !== existingSite.url) ||
+      !isSameList(rest.contentIgnoreSelectors, existingSite.contentIgnoreSelectors) ||
+      !isSameList(rest.contentIgnorePatterns, existingSite.contentIgnorePatterns);
 
     const site = await prisma.site.update({
       where: { id },
       data: ({
         ...rest,
         ...(parsedSendAt !== undefined ? { monthlyReportSendAt: parsedSendAt } : {}),
+        ...(parsedHeaders !== undefined ? { httpHeaders: parsedHeaders } : {}),
+        ...(resetDnsBaseline ? { dnsBaseline: Prisma.DbNull, dnsBaselineUpdatedAt: null } : {}),
+        ...(resetContentBaseline ? { contentBaseline: null, contentBaselineHash: null, contentBaselineUpdatedAt: null } : {}),
+        ...(isHeartbeat && existingSite.monitorType !== 'HEARTBEAT' ? {
+          url: `heartbeat://${id}`,
+          heartbeatToken: existingSite.heartbeatToken || heartbeatService.generateToken(),
+        } : {}),
       } as any),
     });
 
     // Sync the updated site to Redis
     await redisService.syncSite(site);
-    await monitorService.updateSiteSchedule(site);
+    monitorService.discardRound(site.id);
     logger.info(`Site ${site.id} updated and synced to Redis`);
 
     res.json(site);
   } catch (error) {
+    // Express 4 does not catch rejected handlers, so validation errors are answered here
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
     logger.error('Failed to update and sync site:', error);
-    throw error;
+    next(error);
+  }
+};
+
+// Accept the current DNS records as the new known-good baseline
+const acceptDnsBaseline = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const existingSite = await prisma.site.findUnique({
+      where: { id },
+    });
+
+    if (!existingSite) {
+      throw new NotFoundError('Site not found');
+    }
+
+    if (existingSite.userId !== req.user.id) {
+      throw new BadRequestError('You do not have permission to update this site');
+    }
+
+    const site = await dnsMonitorService.acceptSnapshot(existingSite);
+    logger.info(`DNS baseline of site ${site.id} accepted by user ${req.user.id}`);
+
+    res.json(site);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
+    logger.error('Failed to accept DNS baseline:', error);
+    res.status(500).json({ error: 'Failed to accept DNS baseline' });
+  }
+};
+
+// Accept the page of the latest check as the new content baseline, e.g. after an intended redesign
+const acceptContentBaseline = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const existingSite = await prisma.site.findUnique({
+      where: { id },
+    });
+
+    if (!existingSite) {
+      throw new NotFoundError('Site not found');
+    }
+
+    if (existingSite.userId !== req.user.id) {
+      throw new BadRequestError('You do not have permission to update this site');
+    }
+
+    const site = await contentMonitorService.acceptContent(existingSite);
+    logger.info(`Content baseline of site ${site.id} accepted by user ${req.user.id}`);
+
+    res.json(site);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
+    logger.error('Failed to accept content baseline:', error);
+    res.status(500).json({ error: 'Failed to accept content baseline' });
+  }
+};
+
+// Replace the secret of a heartbeat monitor's ping URL, e.g. after it leaked
+const regenerateHeartbeatToken = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const existingSite = await prisma.site.findUnique({
+      where: { id },
+    });
+
+    if (!existingSite) {
+      throw new NotFoundError('Site not found');
+    }
+
+    if (existingSite.userId !== req.user.id) {
+      throw new BadRequestError('You do not have permission to update this site');
+    }
+
+    if (existingSite.monitorType !== 'HEARTBEAT') {
+      throw new BadRequestError('Only heartbeat monitors have a ping URL');
+    }
+
+    const site = await prisma.site.update({
+      where: { id },
+      data: { heartbeatToken: heartbeatService.generateToken() },
+    });
+    logger.info(`Heartbeat ping URL of site ${site.id} regenerated by user ${req.user.id}`);
+
+    res.json(site);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
+    logger.error('Failed to regenerate heartbeat ping URL:', error);
+    res.status(500).json({ error: 'Failed to regenerate heartbeat ping URL' });
+  }
+};
+
+// Get the most recent pings of a heartbeat monitor
+const getHeartbeatPings = async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const site = await prisma.site.findUnique({
+      where: { id },
+    });
+
+    if (!site) {
+      throw new NotFoundError('Site not found');
+    }
+
+    if (site.userId !== req.user.id) {
+      throw new BadRequestError('You do not have permission to view this site');
+    }
+
+    res.json(await heartbeatService.getRecentPings(id));
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ message: error.message });
+      return;
+    }
+    logger.error('Failed to get heartbeat pings:', error);
+    res.status(500).json({ error: 'Failed to get heartbeat pings' });
   }
 };
 
@@ -164,6 +563,10 @@ const deleteSite = async (req: AuthenticatedRequest, res: Response) => {
       where: { siteId: id }
     });
 
+    await prisma.heartbeatPing.deleteMany({
+      where: { siteId: id }
+    });
+
     // Finally delete the site
     await prisma.site.delete({
       where: { id },
@@ -171,7 +574,7 @@ const deleteSite = async (req: AuthenticatedRequest, res: Response) => {
 
     // Remove the site from Redis
     await redisService.removeSite(id);
-    await monitorService.removeSiteSchedule(id);
+    monitorService.discardRound(id);
     logger.info(`Site ${id} deleted and removed from Redis`);
 
     res.status(204).send();
@@ -731,6 +1134,10 @@ router.get('/notification-channels', getNotificationChannels as any);
 router.post('/', validateRequest(createSiteSchema), createSite as any);
 router.patch('/:id', validateRequest(updateSiteSchema), updateSite as any);
 router.delete('/:id', deleteSite as any);
+router.post('/:id/dns-baseline', acceptDnsBaseline as any);
+router.post('/:id/content-baseline', acceptContentBaseline as any);
+router.post('/:id/heartbeat-token', regenerateHeartbeatToken as any);
+router.get('/:id/heartbeat-pings', getHeartbeatPings as any);
 
 // Add notification routes
 router.get('/:id/notifications', getSiteNotifications as any);
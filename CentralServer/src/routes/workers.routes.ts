@@ -1,9 +1,11 @@
 import { Router, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
 import redisService from '../services/redis.service';
 import logger from '../utils/logger';
 import { AuthenticatedRequest } from '../types/express';
 
 const router = Router();
+const prisma = new PrismaClient();
 
 // GET /api/workers - Get all active worker information
 const getWorkers = async (req: AuthenticatedRequest, res: Response) => {
@@ -53,7 +55,34 @@ const getWorkerIds = async (req: AuthenticatedRequest, res: Response) => {
   }
 };
 
+// GET /api/workers/sync - Compare the site configs in Redis with the database and report each worker's config lag
+const getSyncStatus = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Same sites the server syncs to Redis on startup
+    const sites = await prisma.site.findMany({
+      where: {
+        isActive: true,
+        monitorType: { not: 'HEARTBEAT' }
+      }
+    });
+    const syncStatus = await redisService.verifySyncStatus(sites);
+
+    res.json({
+      success: true,
+      data: syncStatus
+    });
+  } catch (error) {
+    logger.error('Failed to verify config sync status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify config sync status',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
 router.get('/', getWorkers as any);
+router.get('/sync', getSyncStatus as any);
 router.get('/ids', getWorkerIds as any);
 
 export default router; 
\ No newline at end of file
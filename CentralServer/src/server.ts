@@ -8,6 +8,7 @@ import { PrismaClient } from '@prisma/client';
 import redisService from './services/redis.service';
 import logger from './utils/logger';
 import monitorService from './services/monitor.service';
+import heartbeatService from './services/heartbeat.service';
 import telegramService from './services/telegram.service';
 import discordService from './services/discord.service';
 import socketService from './services/socket.service';
@@ -48,9 +49,11 @@ app.use(errorHandler);
 // Function to sync all sites to Redis
 async function syncSitesToRedis() {
   try {
+    // Heartbeat monitors are pinged by the monitored job, so workers have nothing to check
     const sites = await prisma.site.findMany({
       where: {
-        isActive: true
+        isActive: true,
+        monitorType: { not: 'HEARTBEAT' }
       }
     });
     logger.info(`Found ${sites.length} active sites to sync with Redis`);
@@ -59,8 +62,8 @@ async function syncSitesToRedis() {
     await redisService.bulkSyncSites(sites);
 
     // Verify synchronization
-    const isVerified = await redisService.verifySyncStatus(sites);
-    if (!isVerified) {
+    const { isSynced } = await redisService.verifySyncStatus(sites);
+    if (!isSynced) {
       throw new Error('Redis synchronization verification failed');
     }
 
@@ -98,6 +101,7 @@ async function startServer() {
     }
 
     monitorService.start();
+    heartbeatService.start();
     telegramService.start();
     discordService.start();
 
@@ -0,0 +1,275 @@
+import { Site, SiteStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import notificationService from './notification.service';
+
+export interface ContentDiffLine {
+  type: 'added' | 'removed' | 'context' | 'skipped';
+  text: string;
+}
+
+export interface ContentComparison {
+  contentHash: string | null;
+  contentText: string | null;
+  contentSimilarity: number | null;
+  contentChanged: boolean | null;
+  contentDiff: ContentDiffLine[] | null;
+}
+
+const CONTEXT_LINES = 2;
+const MAX_DIFF_LINES = 300;
+// Cells of the LCS table; larger differences fall back to comparing which lines occur at all
+const MAX_LCS_CELLS = 4_000_000;
+
+const NOT_COMPARED: ContentComparison = {
+  contentHash: null,
+  contentText: null,
+  contentSimilarity: null,
+  contentChanged: null,
+  contentDiff: null,
+};
+
+class ContentMonitorService {
+  /**
+   * Pick the page reported by most workers, so one region served a stale cache or an A/B variant
+   * does not look like a change
+   */
+  getConsensusContent(statuses: SiteStatus[]): SiteStatus | null {
+    const votes = new Map<string, { status: SiteStatus; count: number }>();
+
+    statuses.forEach(status => {
+      if (!status.contentHash) return;
+
+      const existing = votes.get(status.contentHash) || { status, count: 0 };
+      existing.count++;
+      // Keep a result that carries the text, it is needed for the diff
+      if (!existing.status.contentText && status.contentText) existing.status = status;
+      votes.set(status.contentHash, existing);
+    });
+
+    return Array.from(votes.values()).sort((a, b) => b.count - a.count)[0]?.status || null;
+  }
+
+  /**
+   * Line diff of two normalized pages, with unchanged lines away from the changes collapsed.
+   * Similarity is the share of lines both pages have, in %.
+   */
+  diffContent(beforeText: string, afterText: string): { similarity: number; diff: ContentDiffLine[] } {
+    const before = beforeText ? beforeText.split('\n') : [];
+    const after = afterText ? afterText.split('\n') : [];
+
+    // Changes are usually local, so only the part between the common start and end needs a real diff
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < before.length - prefix && suffix < after.length - prefix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) suffix++;
+
+    const middle = this.diffMiddle(before.slice(prefix, before.length - suffix), after.slice(prefix, after.length - suffix));
+    const lines: ContentDiffLine[] = [
+      ...before.slice(0, prefix).map((text): ContentDiffLine => ({ type: 'context', text })),
+      ...middle,
+      ...before.slice(before.length - suffix).map((text): ContentDiffLine => ({ type: 'context', text })),
+    ];
+
+    const common = lines.filter(line => line.type === 'context').length;
+    const total = before.length + after.length;
+
+    return {
+      similarity: total ? Math.round((2 * common / total) * 1000) / 10 : 100,
+      diff: this.collapseContext(lines),
+    };
+  }
+
+  /**
+   * Compare the consensus page of a check to the site's baseline. The first page seen becomes the
+   * baseline, and an alert is sent when the page starts or stops differing beyond the threshold.
+   */
+  async processContent(site: Site, consensus: SiteStatus | null): Promise<ContentComparison> {
+    if (!site.contentChangeEnabled || !consensus?.contentHash) return NOT_COMPARED;
+
+    // The site passed in by the scheduler may predate the last baseline update
+    const current = await prisma.site.findUnique({
+      where: { id: site.id },
+      select: { contentBaseline: true, contentBaselineHash: true, contentSimilarityThreshold: true },
+    });
+    if (!current) return NOT_COMPARED;
+
+    // The previous consensus may not have compared the page, e.g. while the site was down
+    const previous = await prisma.siteStatus.findFirst({
+      where: { siteId: site.id, workerId: 'consensus_worker', contentChanged: { not: null } },
+      orderBy: { checkedAt: 'desc' },
+      select: { contentChanged: true },
+    });
+    const previousChanged = !!previous?.contentChanged;
+
+    if (!current.contentBaselineHash) {
+      if (consensus.contentText === null) return NOT_COMPARED;
+
+      await prisma.site.update({
+        where: { id: site.id },
+        data: { contentBaseline: consensus.contentText, contentBaselineHash: consensus.contentHash, contentBaselineUpdatedAt: new Date() },
+      });
+      logger.info(`Recorded content baseline of site ${site.url}`);
+      return { ...NOT_COMPARED, contentHash: consensus.contentHash, contentSimilarity: 100, contentChanged: false };
+    }
+
+    if (consensus.contentHash === current.contentBaselineHash) {
+      await this.notifyChange(site, false, previousChanged, null);
+      return { ...NOT_COMPARED, contentHash: consensus.contentHash, contentSimilarity: 100, contentChanged: false };
+    }
+
+    // Workers leave the text out when the page matched the baseline they knew, which may have changed since
+    if (consensus.contentText === null) {
+      return { ...NOT_COMPARED, contentHash: consensus.contentHash };
+    }
+
+    const { similarity, diff } = this.diffContent(current.contentBaseline || '', consensus.contentText);
+    const changed = similarity < current.contentSimilarityThreshold;
+    await this.notifyChange(site, changed, previousChanged, { similarity, diff });
+
+    return {
+      contentHash: consensus.contentHash,
+      contentText: consensus.contentText,
+      contentSimilarity: similarity,
+      contentChanged: changed,
+      contentDiff: diff,
+    };
+  }
+
+  /**
+   * Accept the page of the latest consensus check as the new baseline
+   */
+  async acceptContent(site: Site): Promise<Site> {
+    const latestStatus = await prisma.siteStatus.findFirst({
+      where: { siteId: site.id, workerId: 'consensus_worker', contentHash: { not: null } },
+      orderBy: { checkedAt: 'desc' },
+    });
+
+    // Without text the latest page already matched the baseline
+    if (!latestStatus?.contentText) return site;
+
+    // The accepted page is no longer a change, so the next check should not alert that it matches again
+    await prisma.siteStatus.update({
+      where: { id: latestStatus.id },
+      data: { contentChanged: false },
+    });
+
+    return prisma.site.update({
+      where: { id: site.id },
+      data: {
+        contentBaseline: latestStatus.contentText,
+        contentBaselineHash: latestStatus.contentHash,
+        contentBaselineUpdatedAt: new Date(),
+      },
+    });
+  }
+
+  private async notifyChange(
+    site: Site,
+    changed: boolean,
+    previousChanged: boolean,
+    comparison: { similarity: number; diff: ContentDiffLine[] } | null
+  ): Promise<void> {
+    // Alert once when the page starts differing, and once when it is back, rather than on every check
+    if (changed === previousChanged) return;
+
+    let message = `Content of your site ${site.name} (${site.url}) matches its baseline again`;
+    if (changed && comparison) {
+      const changes = comparison.diff.filter(line => line.type === 'added' || line.type === 'removed');
+      const sample = changes.slice(0, 10).map(line => `  ${line.type === 'added' ? '+' : '-'} ${line.text.slice(0, 200)}`);
+      message = [
+        `Content of your site ${site.name} (${site.url}) changed: ${comparison.similarity}% similar to its baseline.`,
+        'Check the site for defacement, or accept the change as the new baseline.',
+        ...sample,
+        ...(changes.length > sample.length ? [`  … ${changes.length - sample.length} more changed lines`] : []),
+      ].join('\n');
+    }
+
+    await notificationService.sendNotification(site.id, message, 'CONTENT_CHANGE');
+    logger.info(`Sent content change notification for site ${site.url}`);
+  }
+
+  private diffMiddle(before: string[], after: string[]): ContentDiffLine[] {
+    if (before.length * after.length > MAX_LCS_CELLS) {
+      // Too large to align line by line; lines that only one side has are the changes
+      const afterCounts = this.countLines(after);
+      const beforeCounts = this.countLines(before);
+      return [
+        ...before.map((text): ContentDiffLine => {
+          const count = afterCounts.get(text) || 0;
+          if (!count) return { type: 'removed', text };
+          afterCounts.set(text, count - 1);
+          return { type: 'context', text };
+        }),
+        ...after.filter(text => {
+          const count = beforeCounts.get(text) || 0;
+          beforeCounts.set(text, count - 1);
+          return count <= 0;
+        }).map((text): ContentDiffLine => ({ type: 'added', text })),
+      ];
+    }
+
+    // Longest common subsequence of the lines, table filled from the end so the walk below goes forward
+    const width = after.length + 1;
+    const table = new Uint32Array((before.length + 1) * width);
+    for (let i = before.length - 1; i >= 0; i--) {
+      for (let j = after.length - 1; j >= 0; j--) {
+        table[i * width + j] = before[i] === after[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    const lines: ContentDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+      if (i < before.length && j < after.length && before[i] === after[j]) {
+        lines.push({ type: 'context', text: before[i] });
+        i++;
+        j++;
+      } else if (j < after.length && (i === before.length || table[i * width + j + 1] >= table[(i + 1) * width + j])) {
+        lines.push({ type: 'added', text: after[j++] });
+      } else {
+        lines.push({ type: 'removed', text: before[i++] });
+      }
+    }
+    return lines;
+  }
+
+  private countLines(lines: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    lines.forEach(line => counts.set(line, (counts.get(line) || 0) + 1));
+    return counts;
+  }
+
+  // Keep a few unchanged lines around each change and replace longer unchanged runs with a count
+  private collapseContext(lines: ContentDiffLine[]): ContentDiffLine[] {
+    const isChange = lines.map(line => line.type !== 'context');
+    const keep = lines.map((_line, index) =>
+      isChange.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(Boolean)
+    );
+
+    const collapsed: ContentDiffLine[] = [];
+    let skipped = 0;
+    lines.forEach((line, index) => {
+      if (!keep[index]) {
+        skipped++;
+        return;
+      }
+      if (skipped) collapsed.push({ type: 'skipped', text: `${skipped} unchanged lines` });
+      skipped = 0;
+      collapsed.push(line);
+    });
+    if (skipped) collapsed.push({ type: 'skipped', text: `${skipped} unchanged lines` });
+
+    return collapsed.length > MAX_DIFF_LINES
+      ? [...collapsed.slice(0, MAX_DIFF_LINES), { type: 'skipped', text: `${collapsed.length - MAX_DIFF_LINES} more lines not shown` }]
+      : collapsed;
+  }
+}
+
+export default new ContentMonitorService();
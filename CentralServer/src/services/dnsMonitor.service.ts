@@ -0,0 +1,151 @@
+import { DnsRecordType, Prisma, Site, SiteStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import notificationService from './notification.service';
+
+export type DnsSnapshot = Partial<Record<DnsRecordType, string[]>>;
+
+export interface DnsRecordChange {
+  type: DnsRecordType;
+  added: string[];
+  removed: string[];
+}
+
+class DnsMonitorService {
+  /**
+   * Pick, per record type, the record set reported by most workers so that a single
+   * worker behind a misbehaving resolver does not look like a zone change
+   */
+  getConsensusSnapshot(statuses: SiteStatus[], recordTypes: DnsRecordType[]): DnsSnapshot | null {
+    if (!recordTypes.length) return null;
+
+    const snapshot: DnsSnapshot = {};
+
+    recordTypes.forEach(type => {
+      const votes = new Map<string, { values: string[]; count: number }>();
+
+      statuses.forEach(status => {
+        const values = (status.dnsSnapshot as DnsSnapshot | null)?.[type];
+        if (!Array.isArray(values)) return;
+
+        const key = JSON.stringify(values);
+        const existing = votes.get(key) || { values, count: 0 };
+        existing.count++;
+        votes.set(key, existing);
+      });
+
+      const winner = Array.from(votes.values()).sort((a, b) => b.count - a.count)[0];
+      if (winner) {
+        snapshot[type] = winner.values;
+      }
+    });
+
+    return Object.keys(snapshot).length ? snapshot : null;
+  }
+
+  /**
+   * Compare a snapshot to the baseline, only for record types present in both
+   */
+  diffSnapshots(baseline: DnsSnapshot, snapshot: DnsSnapshot): DnsRecordChange[] {
+    return (Object.keys(snapshot) as DnsRecordType[])
+      .filter(type => Array.isArray(baseline[type]))
+      .map(type => {
+        const before = baseline[type] || [];
+        const after = snapshot[type] || [];
+
+        return {
+          type,
+          added: after.filter(value => !before.includes(value)),
+          removed: before.filter(value => !after.includes(value)),
+        };
+      })
+      .filter(change => change.added.length || change.removed.length);
+  }
+
+  formatChanges(changes: DnsRecordChange[]): string {
+    return changes
+      .map(change => [
+        `${change.type}:`,
+        ...change.removed.map(value => `  - ${value}`),
+        ...change.added.map(value => `  + ${value}`),
+      ].join('\n'))
+      .join('\n');
+  }
+
+  /**
+   * Compare the consensus snapshot of a check to the site's known-good baseline. Record types
+   * that are not in the baseline yet are added to it, and an alert is sent whenever the
+   * difference to the baseline changes. Returns the changes to store on the consensus status.
+   */
+  async processSnapshot(
+    site: Site,
+    snapshot: DnsSnapshot | null,
+    previousChanges: Prisma.JsonValue | null | undefined
+  ): Promise<DnsRecordChange[]> {
+    if (!snapshot) return [];
+
+    // The site passed in by the scheduler may predate the last baseline update
+    const current = await prisma.site.findUnique({ where: { id: site.id }, select: { dnsBaseline: true } });
+    const baseline = (current?.dnsBaseline as DnsSnapshot | null) || {};
+    const newTypes = (Object.keys(snapshot) as DnsRecordType[]).filter(type => !Array.isArray(baseline[type]));
+
+    if (newTypes.length) {
+      const updatedBaseline = { ...baseline };
+      newTypes.forEach(type => {
+        updatedBaseline[type] = snapshot[type];
+      });
+
+      await prisma.site.update({
+        where: { id: site.id },
+        data: { dnsBaseline: updatedBaseline, dnsBaselineUpdatedAt: new Date() },
+      });
+      logger.info(`Recorded DNS baseline for ${newTypes.join(', ')} records of site ${site.url}`);
+    }
+
+    const changes = this.diffSnapshots(baseline, snapshot);
+
+    // Alert once per distinct drift rather than on every check
+    if (JSON.stringify(changes) !== JSON.stringify(Array.isArray(previousChanges) ? previousChanges : [])) {
+      const message = changes.length
+        ? `DNS records of your site ${site.name} (${site.url}) changed from the last known-good snapshot:\n${this.formatChanges(changes)}`
+        : `DNS records of your site ${site.name} (${site.url}) match the last known-good snapshot again`;
+
+      await notificationService.sendNotification(site.id, message, 'DNS_CHANGE');
+      logger.info(`Sent DNS change notification for site ${site.url}`);
+    }
+
+    return changes;
+  }
+
+  /**
+   * Accept the latest consensus snapshot as the new known-good baseline
+   */
+  async acceptSnapshot(site: Site): Promise<Site> {
+    const latestStatus = await prisma.siteStatus.findFirst({
+      where: {
+        siteId: site.id,
+        workerId: 'consensus_worker',
+        dnsSnapshot: { not: Prisma.DbNull },
+      },
+      orderBy: { checkedAt: 'desc' },
+    });
+
+    if (latestStatus) {
+      // The accepted records are no longer a change, so the next check should not alert that they match again
+      await prisma.siteStatus.update({
+        where: { id: latestStatus.id },
+        data: { dnsChanges: Prisma.DbNull },
+      });
+    }
+
+    return prisma.site.update({
+      where: { id: site.id },
+      data: {
+        dnsBaseline: latestStatus?.dnsSnapshot ?? Prisma.DbNull,
+        dnsBaselineUpdatedAt: new Date(),
+      },
+    });
+  }
+}
+
+export default new DnsMonitorService();
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import cron, { ScheduledTask } from 'node-cron';
+import { HeartbeatPingType, Site } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import notificationService from './notification.service';
+import socketService from './socket.service';
+
+const MAX_PAYLOAD_LENGTH = 10 * 1024;
+const PING_RETENTION_DAYS = 30;
+
+class HeartbeatService {
+  private task: ScheduledTask | null = null;
+
+  start(): void {
+    if (this.task) return;
+
+    // Heartbeat monitors are not checked by the workers, so late pings are detected here
+    this.task = cron.schedule('* * * * *', async () => {
+      try {
+        await this.checkHeartbeats();
+      } catch (error) {
+        logger.error('Heartbeat check tick failed:', error);
+      }
+    });
+
+    logger.info('Heartbeat service started');
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  generateToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+  }
+
+  /**
+   * Fields for a new heartbeat monitor. The ping URL holds the secret, so the site URL only identifies the monitor
+   */
+  createMonitorFields(): { id: string; url: string; heartbeatToken: string } {
+    const id = crypto.randomUUID();
+    return { id, url: `heartbeat://${id}`, heartbeatToken: this.generateToken() };
+  }
+
+  /**
+   * Record a ping from a job. Returns false when the token does not belong to a heartbeat monitor.
+   */
+  async recordPing(token: string, type: HeartbeatPingType, payload: string | null, sourceIp: string | null): Promise<boolean> {
+    const site = await prisma.site.findUnique({ where: { heartbeatToken: token } });
+    if (!site || site.monitorType !== 'HEARTBEAT') return false;
+
+    const receivedAt = new Date();
+    let runtime: number | null = null;
+
+    if (type !== 'START') {
+      // The run started with the last START ping, if it came after the previous run finished
+      const lastPing = await prisma.heartbeatPing.findFirst({
+        where: { siteId: site.id },
+        orderBy: { receivedAt: 'desc' },
+      });
+      if (lastPing?.type === 'START') {
+        runtime = receivedAt.getTime() - lastPing.receivedAt.getTime();
+      }
+    }
+
+    await prisma.heartbeatPing.create({
+      data: {
+        siteId: site.id,
+        type,
+        receivedAt,
+        runtime,
+        payload: payload ? payload.slice(0, MAX_PAYLOAD_LENGTH) : null,
+        sourceIp,
+      },
+    });
+
+    if (type === 'START') {
+      logger.info(`Heartbeat monitor ${site.id} run started`);
+      return true;
+    }
+
+    const updatedSite = await prisma.site.update({
+      where: { id: site.id },
+      data: { heartbeatLastPingAt: receivedAt },
+    });
+
+    if (updatedSite.isActive) {
+      await this.evaluateSite(updatedSite, receivedAt);
+    }
+
+    return true;
+  }
+
+  async getRecentPings(siteId: string, limit = 50) {
+    return prisma.heartbeatPing.findMany({
+      where: { siteId },
+      orderBy: { receivedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  async checkHeartbeats(): Promise<void> {
+    const sites = await prisma.site.findMany({
+      where: { isActive: true, monitorType: 'HEARTBEAT' },
+    });
+
+    const checkedAt = new Date();
+    for (const site of sites) {
+      try {
+        await this.evaluateSite(site, checkedAt);
+      } catch (error) {
+        logger.error(`Error checking heartbeat monitor ${site.id}:`, error);
+      }
+    }
+
+    const cutoff = new Date(checkedAt.getTime() - PING_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await prisma.heartbeatPing.deleteMany({ where: { receivedAt: { lt: cutoff } } });
+  }
+
+  /**
+   * Work out whether a heartbeat monitor is up and store it as the consensus status, so it shows and
+   * alerts like any other monitor
+   */
+  private async evaluateSite(site: Site, checkedAt: Date): Promise<void> {
+    const [previousConsensusStatus, lastCompletedPing] = await Promise.all([
+      prisma.siteStatus.findFirst({
+        where: { siteId: site.id, workerId: 'consensus_worker' },
+        orderBy: { checkedAt: 'desc' },
+      }),
+      prisma.heartbeatPing.findFirst({
+        where: { siteId: site.id, type: { not: 'START' } },
+        orderBy: { receivedAt: 'desc' },
+      }),
+    ]);
+
+    const heartbeatError = this.getHeartbeatError(site, lastCompletedPing?.type ?? null, checkedAt);
+    const isUp = !heartbeatError;
+
+    const consensusSiteStatus = await prisma.siteStatus.create({
+      data: {
+        siteId: site.id,
+        workerId: 'consensus_worker',
+        isUp,
+        checkedAt,
+        heartbeatError,
+      },
+    });
+
+    if (previousConsensusStatus && previousConsensusStatus.isUp !== isUp) {
+      socketService.sendToUser(site.userId, 'site_status_update', { siteId: site.id, status: consensusSiteStatus });
+      await notificationService.sendNotification(
+        site.id,
+        isUp
+          ? `Your heartbeat monitor ${site.name} is up again at ${checkedAt.toISOString()}`
+          : `Your heartbeat monitor ${site.name} is down at ${checkedAt.toISOString()}: ${heartbeatError}`,
+        'SITE_STATUS_UPDATE'
+      );
+      logger.info(`Sent heartbeat status update for monitor ${site.id} to user ${site.userId}`);
+    } else if (!previousConsensusStatus) {
+      socketService.sendToUser(site.userId, 'site_status_update', { siteId: site.id, status: consensusSiteStatus });
+    }
+  }
+
+  /**
+   * Returns why the monitor is down, or null when the last ping is recent enough and was not a failure
+   */
+  private getHeartbeatError(site: Site, lastCompletedType: HeartbeatPingType | null, now: Date): string | null {
+    if (lastCompletedType === 'FAIL') {
+      return `The job reported a failure at ${site.heartbeatLastPingAt?.toISOString()}`;
+    }
+
+    const period = site.heartbeatPeriod ?? 0;
+    // A new monitor gets one period plus grace time to receive its first ping
+    const since = site.heartbeatLastPingAt ?? site.createdAt;
+    const deadline = since.getTime() + (period + site.heartbeatGrace) * 1000;
+
+    if (now.getTime() <= deadline) return null;
+
+    return site.heartbeatLastPingAt
+      ? `No ping received since ${site.heartbeatLastPingAt.toISOString()}, expected every ${period} seconds`
+      : 'No ping received yet';
+  }
+}
+
+export default new HeartbeatService();
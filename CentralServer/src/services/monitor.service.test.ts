@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+
+const mockCredential = {
+  workerId: 'us-east-1',
+  secret: 'worker-secret',
+  revokedAt: null as Date | null,
+  lastSequence: BigInt(0),
+  lastResultId: null as string | null,
+  lastSeenAt: null as Date | null,
+};
+
+const mockPrisma = {
+  site: { findUnique: jest.fn() },
+  siteStatus: { findUnique: jest.fn() },
+  workerCredential: {
+    findUnique: jest.fn(async () => ({ ...mockCredential })),
+    updateMany: jest.fn(async ({ where, data }: { where: { lastSequence: { lt: bigint } }; data: typeof mockCredential }) => {
+      if (mockCredential.lastSequence >= where.lastSequence.lt) return { count: 0 };
+      Object.assign(mockCredential, data);
+      return { count: 1 };
+    }),
+  },
+  workerResultRejection: { create: jest.fn() },
+};
+
+const mockRedis = {
+  on: jest.fn(),
+  duplicate: jest.fn((): unknown => mockRedis),
+  xack: jest.fn(),
+  xpending: jest.fn(),
+  xclaim: jest.fn(),
+};
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => mockPrisma),
+}));
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: mockPrisma }));
+jest.mock('ioredis', () => ({ Redis: jest.fn(() => mockRedis) }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('./notification.service', () => ({ __esModule: true, default: {} }));
+jest.mock('./dnsMonitor.service', () => ({ __esModule: true, default: {} }));
+jest.mock('./securityAudit.service', () => ({ __esModule: true, default: {} }));
+jest.mock('./contentMonitor.service', () => ({ __esModule: true, default: {} }));
+jest.mock('./socket.service', () => ({ __esModule: true, default: {} }));
+
+import { MonitorService } from './monitor.service';
+import workerCredentialService from './workerCredential.service';
+
+// A stream entry as a worker writes it
+const signedEntry = (sequence: number): string[] => {
+  const payload = JSON.stringify({ checkedAt: new Date().toISOString() });
+  const signature = crypto
+    .createHmac('sha256', mockCredential.secret)
+    .update(`${mockCredential.workerId}\nsite-1\n${sequence}\n${payload}`)
+    .digest('hex');
+  return ['workerId', mockCredential.workerId, 'siteId', 'site-1', 'sequence', String(sequence), 'signature', signature, 'result', payload];
+};
+
+describe('MonitorService pending results', () => {
+  let service: MonitorService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(mockCredential, { lastSequence: BigInt(0), lastResultId: null });
+    workerCredentialService['cache'].clear();
+    // Inactive sites are processed without a round, which is enough to see whether a result gets through
+    mockPrisma.site.findUnique.mockResolvedValue({ id: 'site-1', isActive: false });
+    mockPrisma.siteStatus.findUnique.mockResolvedValue(null);
+    service = new MonitorService();
+  });
+
+  it('retries a failed result after later results moved the sequence on', async () => {
+    const failed = signedEntry(1);
+    mockPrisma.site.findUnique.mockRejectedValueOnce(new Error('Connection lost'));
+    await service['handleResult']('1000-0', failed);
+    expect(mockRedis.xack).not.toHaveBeenCalled();
+
+    await service['handleResult']('2000-0', signedEntry(2));
+    expect(mockRedis.xack).toHaveBeenCalledWith('check-results', 'central-server', '2000-0');
+    expect(mockCredential.lastSequence).toBe(BigInt(2));
+
+    mockRedis.xpending.mockResolvedValue([['1000-0', 'central-old-host', 90000, 1]]);
+    mockRedis.xclaim.mockResolvedValue([['1000-0', failed]]);
+    await service['retryPendingResults']();
+
+    expect(mockRedis.xack).toHaveBeenCalledWith('check-results', 'central-server', '1000-0');
+    expect(mockPrisma.workerResultRejection.create).not.toHaveBeenCalled();
+    expect(mockCredential.lastSequence).toBe(BigInt(2));
+    expect(mockCredential.lastResultId).toBe('2000-0');
+  });
+
+  it('skips a retried result that was stored in the meantime', async () => {
+    await service['handleResult']('2000-0', signedEntry(2));
+    mockPrisma.siteStatus.findUnique.mockResolvedValue({ id: 'status-1' });
+
+    mockRedis.xpending.mockResolvedValue([['1000-0', 'central-old-host', 90000, 1]]);
+    mockRedis.xclaim.mockResolvedValue([['1000-0', signedEntry(1)]]);
+    await service['retryPendingResults']();
+
+    expect(mockRedis.xack).toHaveBeenCalledWith('check-results', 'central-server', '1000-0');
+    expect(mockPrisma.site.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a result as unprocessable once it failed on every delivery', async () => {
+    mockRedis.xpending.mockResolvedValue([['1000-0', 'central-old-host', 90000, 5]]);
+    mockRedis.xclaim.mockResolvedValue([['1000-0', signedEntry(1)]]);
+    await service['retryPendingResults']();
+
+    expect(mockPrisma.workerResultRejection.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ resultId: '1000-0', reason: 'UNPROCESSABLE' }),
+    });
+    expect(mockRedis.xack).toHaveBeenCalledWith('check-results', 'central-server', '1000-0');
+    expect(mockPrisma.site.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('skips an entry another server claimed first', async () => {
+    mockRedis.xpending.mockResolvedValue([['1000-0', 'central-old-host', 90000, 1]]);
+    mockRedis.xclaim.mockResolvedValue([]);
+    await service['retryPendingResults']();
+
+    expect(mockRedis.xack).not.toHaveBeenCalled();
+  });
+});
@@ -1,16 +1,53 @@
 import { Redis } from 'ioredis';
-import { PrismaClient, Site } from '@prisma/client';
-import cron, { ScheduledTask } from 'node-cron';
+import { Prisma, PrismaClient, Site, SiteStatus } from '@prisma/client';
+import os from 'os';
 import logger from '../utils/logger';
 import { config } from '../config';
 import notificationService from './notification.service';
+import dnsMonitorService from './dnsMonitor.service';
+import securityAuditService from './securityAudit.service';
+import contentMonitorService from './contentMonitor.service';
 import socketService from './socket.service';
+import workerCredentialService, { SignedResult } from './workerCredential.service';
+import { isSiteAssignedToWorker, WorkerRegion } from '../utils/regionUtils';
+
+// Workers append every check result to this stream; each entry is delivered to one consumer of the group
+const RESULTS_STREAM = 'check-results';
+const CONSUMER_GROUP = 'central-server';
+// Results left pending by a failure, here or on a consumer that is gone, are claimed again once idle this long
+const PENDING_RETRY_INTERVAL_MS = 30 * 1000;
+const PENDING_MIN_IDLE_MS = 60 * 1000;
+const MAX_RESULT_DELIVERIES = 5;
+const MIN_ROUND_DEADLINE_MS = 5000;
+const MAX_ROUND_DEADLINE_MS = 45000;
+const MIN_STALE_RESULT_AGE_MS = 2 * 60 * 1000;
+// Workers listen here for checks requested outside their schedule
+const CONFIRMATION_CHANNEL = 'check-confirmations';
+const CONFIRMATION_DEADLINE_MS = 30000;
+
+type ActiveWorker = WorkerRegion & { workerId: string };
+
+// Results of one check of a site by the regions, waiting for the rest before consensus is computed. The sites of a
+// region are sharded across its instances, so one result per region is expected, from whichever instance owns the site
+interface CheckRound {
+  siteId: string;
+  assignedRegions: string[]; // Regions assigned to the site when the round opened, empty for every shared region
+  checkedAt: Date;
+  statuses: SiteStatus[];
+  regions: Set<string>; // Regions that reported
+  confirmationRequested: boolean; // Missing workers were asked to confirm a failure, so the deadline is extended once
+  timer: NodeJS.Timeout;
+}
 
 export class MonitorService {
   private readonly redis: Redis;
+  // Blocking stream reads hold their connection, so they get one of their own
+  private readonly consumer: Redis;
   private readonly prisma: PrismaClient;
+  private readonly consumerName = `central-${os.hostname()}`;
   private isRunning = false;
-  private scheduledTasks: Map<string, ScheduledTask> = new Map();
+  private rounds: Map<string, CheckRound> = new Map();
+  private lastRounds: Map<string, { checkedAt: Date; regions: Set<string> }> = new Map();
 
   constructor() {
     this.redis = new Redis({
@@ -18,218 +55,557 @@ export class MonitorService {
       port: config.redis.port,
       password: config.redis.password,
     });
+    this.consumer = this.redis.duplicate();
     this.prisma = new PrismaClient();
 
     this.redis.on('error', (error: Error) => {
       logger.error('Redis connection error:', error);
     });
+    this.consumer.on('error', (error: Error) => {
+      logger.error('Redis consumer connection error:', error);
+    });
   }
 
   async start(): Promise<void> {
     if (this.isRunning) return;
     this.isRunning = true;
 
-    // Initial schedule setup for all active sites
-    const sites = await this.prisma.site.findMany({
-      where: { isActive: true }
+    await this.createConsumerGroup();
+    this.consumeResults().catch(error => {
+      logger.error('Check result consumer stopped:', error);
     });
 
-    for (const site of sites) {
-      await this.addSiteSchedule(site);
-    }
-
     logger.info('Monitor service started');
   }
 
   async stop(): Promise<void> {
     this.isRunning = false;
 
-    // Stop all scheduled tasks
-    for (const task of this.scheduledTasks.values()) {
-      task.stop();
+    // Open rounds are dropped; their worker results are already stored
+    for (const round of this.rounds.values()) {
+      clearTimeout(round.timer);
     }
-    this.scheduledTasks.clear();
+    this.rounds.clear();
+    this.lastRounds.clear();
 
+    this.consumer.disconnect();
     await this.redis.quit();
     await this.prisma.$disconnect();
     logger.info('Monitor service stopped');
   }
 
-  // Call this when a new site is added
-  async addSiteSchedule(site: Site): Promise<void> {
-    if (!site.isActive) return;
+  // Call this when a site is updated, deactivated or deleted, so results checked with the old settings are not mixed into a new round
+  discardRound(siteId: string): void {
+    const round = this.rounds.get(siteId);
+    if (round) {
+      clearTimeout(round.timer);
+      this.rounds.delete(siteId);
+      logger.info(`Discarded open check round for site ${siteId}`);
+    }
+    this.lastRounds.delete(siteId);
+  }
+
+  private async createConsumerGroup(): Promise<void> {
+    try {
+      await this.redis.xgroup('CREATE', RESULTS_STREAM, CONSUMER_GROUP, '$', 'MKSTREAM');
+      logger.info(`Created consumer group ${CONSUMER_GROUP} on ${RESULTS_STREAM}`);
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.startsWith('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
 
-    const cronExpression = site.checkInterval === 0.5 ? `*/30 * * * * *` : `*/${site.checkInterval} * * * *`;
+  private async consumeResults(): Promise<void> {
+    // Results delivered to this consumer before a restart but never acknowledged are read again first
+    let lastId = '0';
+    let lastPendingRetry = Date.now();
+
+    while (this.isRunning) {
+      try {
+        const response = await this.consumer.xreadgroup(
+          'GROUP', CONSUMER_GROUP, this.consumerName,
+          'COUNT', 100,
+          'BLOCK', 5000,
+          'STREAMS', RESULTS_STREAM, lastId
+        ) as [string, [string, string[]][]][] | null;
+        const messages = response?.[0]?.[1] || [];
+
+        if (lastId !== '>' && !messages.length) {
+          lastId = '>';
+          continue;
+        }
 
-    const task = cron.schedule(cronExpression, () => this.checkSite(site));
+        for (const [id, fields] of messages) {
+          await this.handleResult(id, fields);
+          if (lastId !== '>') lastId = id;
+        }
 
-    this.scheduledTasks.set(site.id, task);
-    logger.info(`Added schedule for site ${site.url} every minute`);
+        if (Date.now() - lastPendingRetry >= PENDING_RETRY_INTERVAL_MS) {
+          lastPendingRetry = Date.now();
+          await this.retryPendingResults();
+        }
+      } catch (error) {
+        if (!this.isRunning) break;
+        logger.error('Error reading check results:', error);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
   }
 
-  // Call this when a site is updated
-  async updateSiteSchedule(site: Site): Promise<void> {
-    // Remove existing schedule if any
-    await this.removeSiteSchedule(site.id);
+  /**
+   * Claim the results that stayed pending and process them again. After MAX_RESULT_DELIVERIES attempts a result is
+   * recorded as unprocessable and acknowledged, so it is not retried for good.
+   */
+  private async retryPendingResults(): Promise<void> {
+    const pending = await this.redis.xpending(
+      RESULTS_STREAM, CONSUMER_GROUP, 'IDLE', PENDING_MIN_IDLE_MS, '-', '+', 100
+    ) as [string, string, number, number][];
+
+    for (const [id, , , deliveries] of pending) {
+      // Claiming checks the idle time again, so an entry another server claimed in the meantime is skipped
+      const claimed = await this.redis.xclaim(
+        RESULTS_STREAM, CONSUMER_GROUP, this.consumerName, PENDING_MIN_IDLE_MS, id
+      ) as [string, string[]][];
+      const fields = claimed[0]?.[1];
+      if (!fields) continue;
+
+      if (deliveries >= MAX_RESULT_DELIVERIES) {
+        const signedResult = this.toSignedResult(id, fields);
+        logger.error(`Giving up on check result ${id} for site ${signedResult.siteId} after ${deliveries} attempts`);
+        await workerCredentialService.recordRejection(signedResult, 'UNPROCESSABLE');
+        await this.redis.xack(RESULTS_STREAM, CONSUMER_GROUP, id);
+        continue;
+      }
 
-    // Add new schedule if site is active
-    if (site.isActive) {
-      await this.addSiteSchedule(site);
+      logger.info(`Retrying check result ${id}, attempt ${deliveries + 1}`);
+      await this.handleResult(id, fields);
     }
   }
 
-  // Call this when a site is deleted or deactivated
-  async removeSiteSchedule(siteId: string): Promise<void> {
-    const task = this.scheduledTasks.get(siteId);
-    if (task) {
-      task.stop();
-      this.scheduledTasks.delete(siteId);
-      logger.info(`Removed schedule for site ${siteId}`);
+  private toSignedResult(id: string, fields: string[]): SignedResult {
+    const message: Record<string, string> = {};
+    for (let i = 0; i < fields.length; i += 2) {
+      message[fields[i]] = fields[i + 1];
     }
+
+    return {
+      resultId: id,
+      workerId: message.workerId,
+      siteId: message.siteId,
+      sequence: message.sequence,
+      signature: message.signature,
+      payload: message.result || '',
+    };
   }
 
-  private async checkSite(site: Site): Promise<void> {
+  private async handleResult(id: string, fields: string[]): Promise<void> {
+    const signedResult = this.toSignedResult(id, fields);
+    const { workerId, siteId } = signedResult;
+
     try {
-      const previousConsensusStatus = await this.prisma.siteStatus.findFirst({
-        where: {
-          siteId: site.id,
-          workerId: "consensus_worker"
-        },
-        orderBy: {
-          checkedAt: 'desc'
-        },
-        take: 1
-      });
+      // Only results signed by a worker with a valid credential are trusted, anything else with Redis access
+      // could have written them
+      const verification = await workerCredentialService.verifyResult(signedResult);
+      if (verification.status === 'rejected') {
+        await workerCredentialService.recordRejection(signedResult, verification.reason);
+        await this.redis.xack(RESULTS_STREAM, CONSUMER_GROUP, id);
+        return;
+      }
+      if (verification.status === 'duplicate') {
+        await this.redis.xack(RESULTS_STREAM, CONSUMER_GROUP, id);
+        return;
+      }
+
+      let siteMonitorResult: any;
+      try {
+        siteMonitorResult = JSON.parse(signedResult.payload);
+      } catch (parseError) {
+        logger.error(`Discarding unreadable check result ${id} from worker ${workerId}:`, parseError);
+        siteMonitorResult = null;
+      }
+
+      if (siteMonitorResult) {
+        await this.processResult(id, siteId, workerId, siteMonitorResult);
+      }
+      // The sequence moves on only once the result is stored, so a crash in between redelivers it instead of
+      // rejecting it as a replay
+      await workerCredentialService.acceptResult(signedResult, verification.sequence);
+      await this.redis.xack(RESULTS_STREAM, CONSUMER_GROUP, id);
+    } catch (error) {
+      // Left pending, so retryPendingResults claims it again
+      logger.error(`Error processing check result ${id} for site ${siteId}:`, error);
+    }
+  }
+
+  private async processResult(resultId: string, siteId: string, workerId: string, siteMonitorResult: any): Promise<void> {
+    const site = await this.prisma.site.findUnique({ where: { id: siteId } });
+
+    // Heartbeat monitors are evaluated by the heartbeat service when pings arrive
+    if (!site || !site.isActive || site.monitorType === 'HEARTBEAT') return;
+
+    // A worker that has not applied a region change yet may still check a site it is no longer assigned to
+    const worker = (await this.getActiveWorkers()).find(activeWorker => activeWorker.workerId === workerId);
+    if (worker && !isSiteAssignedToWorker(site.regions, worker)) {
+      logger.debug(`Ignoring result for site ${site.url} from worker ${workerId} outside the site's regions`);
+      return;
+    }
+    // Without a heartbeat the region is unknown; such a worker is not waited for, but its result still counts
+    const region = worker?.region ?? workerId;
+
+    // Results a worker buffered while Redis was down, or that waited while this server was down, are stored as they
+    // were checked but are too old to take part in a round
+    const workerCheckedAt = siteMonitorResult.checkedAt ? new Date(siteMonitorResult.checkedAt) : null;
+    if (workerCheckedAt && Date.now() - workerCheckedAt.getTime() > Math.max(2 * site.checkInterval * 60 * 1000, MIN_STALE_RESULT_AGE_MS)) {
+      await this.saveWorkerStatus(site, workerId, siteMonitorResult, workerCheckedAt, resultId);
+      return;
+    }
 
-      const checkedAt = new Date();
-      // Get all active workers
-      const workerPattern = 'workers:*';
-      const workerKeys = await this.redis.keys(workerPattern);
+    let round = this.rounds.get(site.id);
 
-      if (!workerKeys.length) {
-        logger.error('No active workers found');
+    // The region already started its next check, so the open round will not get any more results. While sites move
+    // between the instances of a region, the old and the new owner may both report once
+    if (round && round.regions.has(region)) {
+      await this.finalizeRound(round);
+      round = undefined;
+    }
+
+    if (!round) {
+      // A region that missed the deadline of the last round is stored with it instead of starting a round of its own
+      const lastRound = this.lastRounds.get(site.id);
+      if (lastRound && !lastRound.regions.has(region) && Date.now() - lastRound.checkedAt.getTime() < site.checkInterval * 60 * 1000) {
+        lastRound.regions.add(region);
+        await this.saveWorkerStatus(site, workerId, siteMonitorResult, lastRound.checkedAt, resultId);
+        logger.warn(`Result for site ${site.url} from worker ${workerId} arrived after its round was complete`);
         return;
       }
 
-      // Get status from each worker
-      const checkPromises = workerKeys.map(async workerKey => {
-        const workerId = workerKey.split(':')[1];
-        const checksKey = `checks:${site.id}:${workerId}`;
-        const checkData = await this.redis.get(checksKey);
+      round = this.openRound(site);
+    }
 
-        if (!checkData) {
-          return null;
-        }
+    const siteStatus = await this.saveWorkerStatus(site, workerId, siteMonitorResult, round.checkedAt, resultId);
+    round.statuses.push(siteStatus);
+    round.regions.add(region);
 
-        try {
-          const siteMonitorResult = JSON.parse(checkData);
-
-          // Save individual worker status to database
-          const siteStatus = await this.prisma.siteStatus.create({
-            data: {
-              siteId: site.id,
-              workerId: workerId,
-              isUp: siteMonitorResult.isUp,
-              pingIsUp: siteMonitorResult.pingCheck.isUp,
-              httpIsUp: siteMonitorResult.httpCheck.isUp,
-              dnsIsUp: siteMonitorResult.dnsCheck.isResolved,
-              checkedAt: checkedAt,
-
-              // Response Times - handle both number and null values
-              pingResponseTime: typeof siteMonitorResult.pingCheck.responseTime === 'number'
-                ? siteMonitorResult.pingCheck.responseTime
-                : null,
-              httpResponseTime: typeof siteMonitorResult.httpCheck.responseTime === 'number'
-                ? siteMonitorResult.httpCheck.responseTime
-                : null,
-              dnsResponseTime: typeof siteMonitorResult.dnsCheck.responseTime === 'number'
-                ? siteMonitorResult.dnsCheck.responseTime
-                : null,
-
-              // SSL Information - complete mapping
-              hasSsl: !!siteMonitorResult.httpCheck.ssl,
-              sslValidFrom: siteMonitorResult.httpCheck.ssl?.validFrom
-                ? new Date(siteMonitorResult.httpCheck.ssl.validFrom)
-                : null,
-              sslValidTo: siteMonitorResult.httpCheck.ssl?.validTo
-                ? new Date(siteMonitorResult.httpCheck.ssl.validTo)
-                : null,
-              sslIssuer: siteMonitorResult.httpCheck.ssl?.issuer || null,
-              sslDaysUntilExpiry: siteMonitorResult.httpCheck.ssl?.daysUntilExpiry || null,
-
-              // DNS Information - complete mapping
-              dnsNameservers: Array.isArray(siteMonitorResult.dnsCheck.nameservers)
-                ? siteMonitorResult.dnsCheck.nameservers
-                : [],
-              dnsRecords: {
-                addresses: Array.isArray(siteMonitorResult.dnsCheck.addresses)
-                  ? siteMonitorResult.dnsCheck.addresses
-                  : [],
-                error: siteMonitorResult.dnsCheck.error || null,
-                responseTime: siteMonitorResult.dnsCheck.responseTime
-              },
-
-              // TCP Check Information - complete mapping
-              tcpChecks: Array.isArray(siteMonitorResult.tcpChecks)
-                ? siteMonitorResult.tcpChecks.map((tcpCheck: any) => ({
-                  port: tcpCheck.port,
-                  isConnected: tcpCheck.isConnected,
-                  isUp: tcpCheck.isConnected, // Map isConnected to isUp for consistency
-                  responseTime: typeof tcpCheck.responseTime === 'number'
-                    ? tcpCheck.responseTime
-                    : null,
-                  error: tcpCheck.error || null
-                }))
-                : []
-            }
+    const assignedWorkers = await this.getAssignedWorkers(round.assignedRegions);
+    if (assignedWorkers.every(assignedWorker => round.regions.has(assignedWorker.region))) {
+      await this.finalizeRound(round);
+    }
+  }
+
+  private openRound(site: Site): CheckRound {
+    // Wait for the other workers for most of the interval, but not so long that the status lags behind
+    const deadline = Math.max(MIN_ROUND_DEADLINE_MS, Math.min(MAX_ROUND_DEADLINE_MS, site.checkInterval * 60 * 1000 - MIN_ROUND_DEADLINE_MS));
+
+    const round: CheckRound = {
+      siteId: site.id,
+      assignedRegions: site.regions,
+      checkedAt: new Date(),
+      statuses: [],
+      regions: new Set(),
+      confirmationRequested: false,
+      timer: setTimeout(() => {
+        this.handleRoundDeadline(round).catch(error => {
+          logger.error(`Error finalizing check round for site ${site.url}:`, error);
+        });
+      }, deadline),
+    };
+
+    this.rounds.set(site.id, round);
+    return round;
+  }
+
+  private async handleRoundDeadline(round: CheckRound): Promise<void> {
+    if (this.rounds.get(round.siteId) !== round) return;
+
+    // A failure that the missing regions have not seen yet is confirmed by them before consensus is computed
+    if (!round.confirmationRequested && round.statuses.some(status => !status.isUp)) {
+      // Every instance of a missing region is asked, only the one that owns the site runs the check
+      const assignedWorkers = await this.getAssignedWorkers(round.assignedRegions);
+      const missingWorkerIds = assignedWorkers
+        .filter(assignedWorker => !round.regions.has(assignedWorker.region))
+        .map(assignedWorker => assignedWorker.workerId);
+
+      if (missingWorkerIds.length) {
+        round.confirmationRequested = true;
+        await this.requestConfirmation(round.siteId, missingWorkerIds);
+        round.timer = setTimeout(() => {
+          this.finalizeRound(round).catch(error => {
+            logger.error(`Error finalizing check round for site ${round.siteId}:`, error);
           });
+        }, CONFIRMATION_DEADLINE_MS);
+        return;
+      }
+    }
+
+    await this.finalizeRound(round);
+  }
 
-          logger.info(`Saved status for site ${site.url} from worker ${workerId}: ${siteMonitorResult.isUp ? 'UP' : 'DOWN'}`);
+  /**
+   * Ask workers to check a site right away, outside their schedule. Their results arrive through the stream like
+   * any other check; an empty list asks every worker.
+   */
+  async requestConfirmation(siteId: string, workerIds: string[] = []): Promise<void> {
+    await this.redis.publish(CONFIRMATION_CHANNEL, JSON.stringify({ siteId, workerIds }));
+    logger.info(`Requested confirmation check for site ${siteId} from ${workerIds.length ? workerIds.join(', ') : 'all workers'}`);
+  }
+
+  private async finalizeRound(round: CheckRound): Promise<void> {
+    // Rounds are finalized once, whether by the last result or by the deadline
+    if (this.rounds.get(round.siteId) !== round) return;
+    clearTimeout(round.timer);
+    this.rounds.delete(round.siteId);
+    this.lastRounds.set(round.siteId, { checkedAt: round.checkedAt, regions: round.regions });
+
+    const site = await this.prisma.site.findUnique({ where: { id: round.siteId } });
+    if (!site || !site.isActive) return;
+
+    await this.computeConsensus(site, round.statuses, round.checkedAt);
+  }
+
+  private async getActiveWorkers(): Promise<ActiveWorker[]> {
+    const workerKeys = await this.redis.keys('workers:*');
+    const workers = await Promise.all(workerKeys.map(async (workerKey) => {
+      const workerId = workerKey.split(':')[1];
+      // A heartbeat from a worker without a credential must not hold rounds open, its results are rejected anyway
+      if (!(await workerCredentialService.isTrusted(workerId))) return null;
+
+      const [region, dedicated] = await this.redis.hmget(workerKey, 'region', 'dedicated');
+      return { workerId, region: region || workerId, dedicated: dedicated === 'true' };
+    }));
+    return workers.filter((worker): worker is ActiveWorker => worker !== null);
+  }
+
+  // Consensus waits for the workers of the site's regions only
+  private async getAssignedWorkers(regions: string[]): Promise<ActiveWorker[]> {
+    const workers = await this.getActiveWorkers();
+    return workers.filter(worker => isSiteAssignedToWorker(regions, worker));
+  }
 
-          return siteStatus;
+  private async saveWorkerStatus(site: Site, workerId: string, siteMonitorResult: any, checkedAt: Date, resultId: string): Promise<SiteStatus> {
+    const workerDegradedReason = this.getDegradedReason(
+      siteMonitorResult.isUp,
+      siteMonitorResult.ipv4Check?.httpCheck ? !!siteMonitorResult.ipv4Check.httpCheck.isUp : null,
+      siteMonitorResult.ipv6Check?.httpCheck ? !!siteMonitorResult.ipv6Check.httpCheck.isUp : null
+    );
 
-        } catch (parseError) {
-          logger.error(`Error parsing check data for site ${site.url} from worker ${workerId}:`, parseError);
-          return null;
+    try {
+      // Save individual worker status to database
+      const siteStatus = await this.prisma.siteStatus.create({
+        data: {
+          siteId: site.id,
+          resultId,
+          workerId: workerId,
+          isUp: siteMonitorResult.isUp,
+          pingIsUp: siteMonitorResult.pingCheck.isUp,
+          httpIsUp: siteMonitorResult.httpCheck.isUp,
+          dnsIsUp: siteMonitorResult.dnsCheck.isResolved,
+          isDegraded: !!workerDegradedReason,
+          degradedReason: workerDegradedReason,
+          checkedAt: checkedAt,
+
+          // Response Times - handle both number and null values
+          pingResponseTime: typeof siteMonitorResult.pingCheck.responseTime === 'number'
+            ? siteMonitorResult.pingCheck.responseTime
+            : null,
+          httpResponseTime: typeof siteMonitorResult.httpCheck.responseTime === 'number'
+            ? siteMonitorResult.httpCheck.responseTime
+            : null,
+          dnsResponseTime: typeof siteMonitorResult.dnsCheck.responseTime === 'number'
+            ? siteMonitorResult.dnsCheck.responseTime
+            : null,
+          ...this.mapHttpTimings(siteMonitorResult.httpCheck.timings),
+
+          // HTTP failure reason (connection error or failed content rule)
+          httpError: siteMonitorResult.httpCheck.error || null,
+          jsonAssertionResults: Array.isArray(siteMonitorResult.httpCheck.jsonAssertions)
+            ? siteMonitorResult.httpCheck.jsonAssertions
+            : Prisma.DbNull,
+
+          // Redirect Information
+          redirectChain: Array.isArray(siteMonitorResult.httpCheck.redirectChain)
+            ? siteMonitorResult.httpCheck.redirectChain
+            : [],
+          redirectCount: siteMonitorResult.redirectCheck?.redirectCount ?? null,
+          finalUrl: siteMonitorResult.redirectCheck?.finalUrl || null,
+          redirectLoop: !!siteMonitorResult.redirectCheck?.isLoop,
+          httpsDowngrade: !!siteMonitorResult.redirectCheck?.hasHttpsDowngrade,
+          httpsEnforced: siteMonitorResult.redirectCheck?.httpsEnforced ?? null,
+
+          // SSL Information - complete mapping
+          hasSsl: !!siteMonitorResult.httpCheck.ssl || !!siteMonitorResult.tlsCheck?.chain?.length,
+          sslValidFrom: siteMonitorResult.httpCheck.ssl?.validFrom
+            ? new Date(siteMonitorResult.httpCheck.ssl.validFrom)
+            : null,
+          sslValidTo: siteMonitorResult.httpCheck.ssl?.validTo
+            ? new Date(siteMonitorResult.httpCheck.ssl.validTo)
+            : null,
+          sslIssuer: siteMonitorResult.httpCheck.ssl?.issuer || null,
+          sslDaysUntilExpiry: siteMonitorResult.httpCheck.ssl?.daysUntilExpiry || null,
+          sslTrusted: siteMonitorResult.tlsCheck ? !!siteMonitorResult.tlsCheck.isTrusted : null,
+          sslTrustError: siteMonitorResult.tlsCheck?.trustError || siteMonitorResult.tlsCheck?.error || null,
+          sslHostnameMatch: siteMonitorResult.tlsCheck ? !!siteMonitorResult.tlsCheck.hostnameMatches : null,
+          sslHostnameError: siteMonitorResult.tlsCheck?.hostnameError || null,
+          sslSubjectAltNames: Array.isArray(siteMonitorResult.tlsCheck?.subjectAltNames)
+            ? siteMonitorResult.tlsCheck.subjectAltNames
+            : [],
+          sslChain: Array.isArray(siteMonitorResult.tlsCheck?.chain)
+            ? siteMonitorResult.tlsCheck.chain
+            : Prisma.DbNull,
+          sslProtocol: siteMonitorResult.tlsCheck?.protocol || null,
+          sslCipher: siteMonitorResult.tlsCheck?.cipher || null,
+          sslOcspStapled: siteMonitorResult.tlsCheck ? !!siteMonitorResult.tlsCheck.ocspStapled : null,
+
+          // DNS Information - complete mapping
+          dnsNameservers: Array.isArray(siteMonitorResult.dnsCheck.nameservers)
+            ? siteMonitorResult.dnsCheck.nameservers
+            : [],
+          dnsRecords: {
+            addresses: Array.isArray(siteMonitorResult.dnsCheck.addresses)
+              ? siteMonitorResult.dnsCheck.addresses
+              : [],
+            ipv6Addresses: Array.isArray(siteMonitorResult.dnsCheck.ipv6Addresses)
+              ? siteMonitorResult.dnsCheck.ipv6Addresses
+              : [],
+            error: siteMonitorResult.dnsCheck.error || null,
+            recordErrors: siteMonitorResult.dnsCheck.recordErrors || null,
+            // Answers of the site's own nameservers, compared with the worker's resolver
+            resolvers: Array.isArray(siteMonitorResult.dnsCheck.resolvers) ? siteMonitorResult.dnsCheck.resolvers : null,
+            responseTime: siteMonitorResult.dnsCheck.responseTime
+          },
+          dnsSnapshot: siteMonitorResult.dnsCheck.records ?? Prisma.DbNull,
+
+          // TCP Check Information - complete mapping
+          tcpChecks: this.mapTcpChecks(siteMonitorResult.tcpChecks),
+
+          // Address Family Information - HTTP and TCP over IPv4 and IPv6 separately
+          ...this.mapAddressFamilyCheck('ipv4', siteMonitorResult.ipv4Check),
+          ...this.mapAddressFamilyCheck('ipv6', siteMonitorResult.ipv6Check),
+
+          // Transaction Information - which step failed and how long each step took
+          ...this.mapTransactionCheck(siteMonitorResult.transactionCheck),
+
+          // Protocol Information - the mail, database or cache handshake of protocol monitors
+          ...this.mapProtocolCheck(siteMonitorResult.protocolCheck),
+
+          // Security Headers Audit - grade of the final response's headers and HTTPS hygiene
+          ...this.mapSecurityAudit(siteMonitorResult.securityAudit),
+
+          // Content Change - hash of the normalized page, the text is only needed when it differs from the baseline
+          ...this.mapContentCheck(site, siteMonitorResult.httpCheck?.content),
+
+          // Confirmation Information - failures the worker re-checked before reporting
+          attempts: typeof siteMonitorResult.attempts === 'number' ? siteMonitorResult.attempts : null,
+          attemptErrors: Array.isArray(siteMonitorResult.attemptErrors) ? siteMonitorResult.attemptErrors : []
         }
       });
 
-      const workerResults = await Promise.all(checkPromises);
-      const validResults = workerResults.filter(result => result !== null);
+      logger.info(`Saved status for site ${site.url} from worker ${workerId}: ${siteMonitorResult.isUp ? 'UP' : 'DOWN'}`);
 
+      return siteStatus;
+    } catch (error) {
+      // A redelivered result was already stored before it was acknowledged
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.prisma.siteStatus.findUniqueOrThrow({ where: { resultId } });
+      }
+      throw error;
+    }
+  }
+
+  private async computeConsensus(site: Site, validResults: SiteStatus[], checkedAt: Date): Promise<void> {
+    try {
       if (validResults.length === 0) {
         logger.error(`No valid check results found for site ${site.url}`);
         return;
       }
 
+      const previousConsensusStatus = await this.prisma.siteStatus.findFirst({
+        where: {
+          siteId: site.id,
+          workerId: "consensus_worker"
+        },
+        orderBy: {
+          checkedAt: 'desc'
+        },
+        take: 1
+      });
+
+      // A JSON assertion that fails by consensus marks the site down even if workers disagree on the overall result
+      const consensusJsonAssertions = this.getConsensusJsonAssertions(validResults);
+      const jsonAssertionsPassed = consensusJsonAssertions.every(assertion => assertion.passed);
+
       const isDownCount = validResults.filter(result => !result.isUp).length;
-      const isUp = !(validResults.length >= 2 ? (isDownCount >= 2) : !validResults[0].isUp);
+      const isUp = jsonAssertionsPassed && !(validResults.length >= 2 ? (isDownCount >= 2) : !validResults[0].isUp);
       const pingIsDownCount = validResults.filter(result => !result.pingIsUp).length;
       const pingIsUp = !(validResults.length >= 2 ? (pingIsDownCount >= 2) : !validResults[0].pingIsUp);
       const httpIsDownCount = validResults.filter(result => !result.httpIsUp).length;
-      const httpIsUp = !(validResults.length >= 2 ? (httpIsDownCount >= 2) : !validResults[0].httpIsUp);
+      const httpIsUp = jsonAssertionsPassed && !(validResults.length >= 2 ? (httpIsDownCount >= 2) : !validResults[0].httpIsUp);
       const dnsIsDownCount = validResults.filter(result => !result.dnsIsUp).length;
       const dnsIsUp = !(validResults.length >= 2 ? (dnsIsDownCount >= 2) : !validResults[0].dnsIsUp);
 
+      // Address families are only compared across workers that could resolve them
+      const ipv4HttpIsUp = this.getReportedConsensus(validResults.map(status => status.ipv4HttpIsUp));
+      const ipv6HttpIsUp = this.getReportedConsensus(validResults.map(status => status.ipv6HttpIsUp));
+      const degradedReason = this.getDegradedReason(isUp, ipv4HttpIsUp, ipv6HttpIsUp);
+      const ipv4Worker = validResults.find(status => status.ipv4HttpIsUp === ipv4HttpIsUp);
+      const ipv6Worker = validResults.find(status => status.ipv6HttpIsUp === ipv6HttpIsUp);
+
+      // Transaction steps from a worker that agrees with the consensus, so a failure shows the step that failed
+      const transactionIsUp = this.getReportedConsensus(validResults.map(status => status.transactionIsUp));
+      const transactionWorker = validResults.find(status => status.transactionIsUp === transactionIsUp);
+      const protocolIsUp = this.getReportedConsensus(validResults.map(status => status.protocolIsUp));
+      const protocolWorker = validResults.find(status => status.protocolIsUp === protocolIsUp);
+
+      // Re-checks from the worker that needed the most attempts, e.g. a flaky site that only passed on its second try
+      const attemptsWorker = validResults.reduce((most, status) => ((status.attempts || 1) > (most.attempts || 1) ? status : most));
+
+      // Report the failure reason from the first worker whose HTTP check failed
+      const httpErrorWorker = httpIsUp ? undefined : validResults.find(status => !status.httpIsUp && status.httpError);
+
+      // Get redirect info from first worker that recorded a redirect chain
+      const redirectWorker = validResults.find(status => status.redirectCount !== null);
+
       // Get SSL info from first worker that has SSL data
       const sslWorker = validResults.find(status => status.hasSsl);
 
+      // Get TLS validation details from first worker that completed a TLS check
+      const tlsWorker = validResults.find(status => status.sslTrusted !== null);
+
       // Get DNS info from first successful DNS resolution
       const dnsWorker = validResults.find(status => status.dnsIsUp);
 
+      // Compare the watched DNS records to the site's known-good snapshot
+      const dnsSnapshot = dnsMonitorService.getConsensusSnapshot(validResults, site.dnsRecordTypes || []);
+      const dnsChanges = await dnsMonitorService.processSnapshot(site, dnsSnapshot, previousConsensusStatus?.dnsChanges);
+
+      // Grade most workers agree on, with an alert when it dropped since the last audit
+      const securityWorker = securityAuditService.getConsensusAudit(validResults);
+      await securityAuditService.processAudit(site, securityWorker);
+
+      // Page most workers saw, diffed against the site's baseline to catch defacement
+      const content = await contentMonitorService.processContent(site, contentMonitorService.getConsensusContent(validResults));
+
       // Aggregate TCP checks from all workers
-      const tcpCheckMap = new Map<number, { connected: number; total: number }>();
+      const tcpCheckMap = new Map<number, { connected: number; up: number; total: number; label: string | null; banner: string | null; error: string | null }>();
 
       validResults.forEach(status => {
         if (status.tcpChecks && Array.isArray(status.tcpChecks)) {
           status.tcpChecks.forEach((tcpCheck: any) => {
             const port = tcpCheck.port;
-            const existing = tcpCheckMap.get(port) || { connected: 0, total: 0 };
+            const existing = tcpCheckMap.get(port) || { connected: 0, up: 0, total: 0, label: null, banner: null, error: null };
 
             existing.total++;
+            existing.label = existing.label || tcpCheck.label || null;
+            existing.banner = existing.banner || tcpCheck.banner || null;
             if (tcpCheck.isConnected) {
               existing.connected++;
             }
+            // A port that accepts connections but answers with the wrong banner is not up
+            if (tcpCheck.isUp ?? tcpCheck.isConnected) {
+              existing.up++;
+            } else {
+              existing.error = existing.error || tcpCheck.error || null;
+            }
 
             tcpCheckMap.set(port, existing);
           });
@@ -237,15 +613,17 @@ export class MonitorService {
       });
 
       const consensusTcpChecks = Array.from(tcpCheckMap.entries()).map(([port, data]) => {
-        const tcpIsDownCount = data.total - data.connected;
-        const tcpIsUp = !(validResults.length >= 2 ? (tcpIsDownCount >= 2) : false);
+        const isConsensusUp = (upCount: number): boolean => !(validResults.length >= 2 ? (data.total - upCount >= 2) : false);
+        const tcpIsUp = isConsensusUp(data.up);
 
         return {
           port,
-          isConnected: tcpIsUp,
+          label: data.label,
+          isConnected: isConsensusUp(data.connected),
           isUp: tcpIsUp,
           responseTime: null,
-          error: null
+          banner: data.banner,
+          error: tcpIsUp ? null : data.error
         };
       });
 
@@ -258,12 +636,26 @@ export class MonitorService {
           pingIsUp: pingIsUp,
           httpIsUp: httpIsUp,
           dnsIsUp: dnsIsUp,
+          isDegraded: !!degradedReason,
+          degradedReason,
           checkedAt,
 
           // Response Times - null for consensus
           pingResponseTime: null,
           httpResponseTime: null,
           dnsResponseTime: null,
+          ...this.mapHttpTimings(null),
+
+          httpError: httpErrorWorker?.httpError || null,
+          jsonAssertionResults: consensusJsonAssertions.length ? consensusJsonAssertions : Prisma.DbNull,
+
+          // Redirect Information - from first worker with a redirect chain
+          redirectChain: redirectWorker?.redirectChain || [],
+          redirectCount: redirectWorker?.redirectCount ?? null,
+          finalUrl: redirectWorker?.finalUrl || null,
+          redirectLoop: !!redirectWorker?.redirectLoop,
+          httpsDowngrade: !!redirectWorker?.httpsDowngrade,
+          httpsEnforced: redirectWorker?.httpsEnforced ?? null,
 
           // SSL Information - from first worker with SSL data
           hasSsl: !!sslWorker?.hasSsl,
@@ -271,13 +663,60 @@ export class MonitorService {
           sslValidTo: sslWorker?.sslValidTo || null,
           sslIssuer: sslWorker?.sslIssuer || null,
           sslDaysUntilExpiry: sslWorker?.sslDaysUntilExpiry || null,
+          sslTrusted: tlsWorker?.sslTrusted ?? null,
+          sslTrustError: tlsWorker?.sslTrustError || null,
+          sslHostnameMatch: tlsWorker?.sslHostnameMatch ?? null,
+          sslHostnameError: tlsWorker?.sslHostnameError || null,
+          sslSubjectAltNames: tlsWorker?.sslSubjectAltNames || [],
+          sslChain: tlsWorker?.sslChain ?? Prisma.DbNull,
+          sslProtocol: tlsWorker?.sslProtocol || null,
+          sslCipher: tlsWorker?.sslCipher || null,
+          sslOcspStapled: tlsWorker?.sslOcspStapled ?? null,
 
           // DNS Information - from first successful DNS worker
           dnsNameservers: dnsWorker?.dnsNameservers || [],
           dnsRecords: dnsWorker?.dnsRecords || { addresses: [], error: null, responseTime: null },
+          dnsSnapshot: dnsSnapshot ?? Prisma.DbNull,
+          dnsChanges: dnsChanges.length ? (dnsChanges as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
 
           // TCP Check Information - consensus from all workers
-          tcpChecks: consensusTcpChecks
+          tcpChecks: consensusTcpChecks,
+
+          // Address Family Information - consensus result, details from a worker that agrees with it
+          ipv4HttpIsUp,
+          ipv4HttpResponseTime: null,
+          ipv4HttpError: ipv4HttpIsUp === false ? ipv4Worker?.ipv4HttpError || null : null,
+          ipv4TcpChecks: ipv4Worker?.ipv4TcpChecks ?? Prisma.DbNull,
+          ipv6HttpIsUp,
+          ipv6HttpResponseTime: null,
+          ipv6HttpError: ipv6HttpIsUp === false ? ipv6Worker?.ipv6HttpError || null : null,
+          ipv6TcpChecks: ipv6Worker?.ipv6TcpChecks ?? Prisma.DbNull,
+
+          // Transaction Information - consensus result, steps from a worker that agrees with it
+          transactionIsUp,
+          transactionFailedStep: transactionIsUp === false ? transactionWorker?.transactionFailedStep ?? null : null,
+          transactionError: transactionIsUp === false ? transactionWorker?.transactionError || null : null,
+          transactionSteps: transactionWorker?.transactionSteps ?? Prisma.DbNull,
+
+          // Protocol Information - consensus result, handshake details from a worker that agrees with it
+          protocolIsUp,
+          protocolError: protocolIsUp === false ? protocolWorker?.protocolError || null : null,
+          protocolCheck: protocolWorker?.protocolCheck ?? Prisma.DbNull,
+
+          // Security Headers Audit - from the audit most workers agree on
+          securityScore: securityWorker?.securityScore ?? null,
+          securityGrade: securityWorker?.securityGrade || null,
+          securityAudit: securityWorker?.securityAudit ?? Prisma.DbNull,
+
+          // Content Change - similarity of the page to its baseline, with the text only while it differs
+          contentHash: content.contentHash,
+          contentText: content.contentText,
+          contentSimilarity: content.contentSimilarity,
+          contentChanged: content.contentChanged,
+          contentDiff: content.contentDiff ? (content.contentDiff as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+
+          attempts: attemptsWorker.attempts,
+          attemptErrors: attemptsWorker.attemptErrors
         }
       });
 
@@ -299,16 +738,179 @@ export class MonitorService {
 
       if (previousConsensusStatus && previousConsensusStatus.isUp !== isUp) {
         socketService.sendToUser(site.userId, 'site_status_update', { siteId: site.id, status: consensusSiteStatus });
-        await notificationService.sendNotification(site.id,  `Your site ${site.name} (${site.url}) is ${isUp ? 'up' : 'down'} at ${checkedAt.toISOString()}`, 'SITE_STATUS_UPDATE');
+        // A failed transaction names the step and a failed handshake the server's reply, which the site URL alone would not tell
+        const failure = consensusSiteStatus.transactionError || consensusSiteStatus.protocolError;
+        const reason = !isUp && failure ? `: ${failure}` : '';
+        await notificationService.sendNotification(site.id,  `Your site ${site.name} (${site.url}) is ${isUp ? 'up' : 'down'} at ${checkedAt.toISOString()}${reason}`, 'SITE_STATUS_UPDATE');
         logger.info(`Sent status update via socket for site ${site.url} to user ${site.userId}`);
+      } else if (previousConsensusStatus && previousConsensusStatus.isDegraded !== !!degradedReason) {
+        socketService.sendToUser(site.userId, 'site_status_update', { siteId: site.id, status: consensusSiteStatus });
+        await notificationService.sendNotification(
+          site.id,
+          degradedReason
+            ? `Your site ${site.name} (${site.url}) is degraded at ${checkedAt.toISOString()}: ${degradedReason}`
+            : `Your site ${site.name} (${site.url}) is no longer degraded at ${checkedAt.toISOString()}`,
+          'SITE_STATUS_UPDATE'
+        );
+        logger.info(`Sent degraded status update for site ${site.url} to user ${site.userId}`);
       } else if (!previousConsensusStatus) {
         socketService.sendToUser(site.userId, 'site_status_update', { siteId: site.id, status: consensusSiteStatus });
       }
 
     } catch (error) {
-      logger.error(`Error checking site ${site.url}:`, error);
+      logger.error(`Error computing consensus for site ${site.url}:`, error);
     }
   }
+
+  private mapHttpTimings(timings: any) {
+    const toNumber = (value: unknown) => (typeof value === 'number' ? value : null);
+
+    return {
+      httpDnsLookupTime: toNumber(timings?.dnsLookup),
+      httpConnectTime: toNumber(timings?.tcpConnect),
+      httpTlsHandshakeTime: toNumber(timings?.tlsHandshake),
+      httpTimeToFirstByte: toNumber(timings?.timeToFirstByte),
+      httpContentTransferTime: toNumber(timings?.contentTransfer),
+    };
+  }
+
+  private mapTcpChecks(tcpChecks: any): any[] {
+    return Array.isArray(tcpChecks)
+      ? tcpChecks.map((tcpCheck: any) => ({
+        port: tcpCheck.port,
+        label: tcpCheck.label || null,
+        isConnected: tcpCheck.isConnected,
+        isUp: tcpCheck.isConnected && tcpCheck.expectMatched !== false, // A wrong banner means the service is not the expected one
+        responseTime: typeof tcpCheck.responseTime === 'number'
+          ? tcpCheck.responseTime
+          : null,
+        banner: typeof tcpCheck.banner === 'string' ? tcpCheck.banner : null,
+        expectMatched: typeof tcpCheck.expectMatched === 'boolean' ? tcpCheck.expectMatched : null,
+        error: tcpCheck.error || null
+      }))
+      : [];
+  }
+
+  /**
+   * Map a worker's per address family result onto the ipv4* / ipv6* SiteStatus columns
+   */
+  private mapAddressFamilyCheck(prefix: 'ipv4' | 'ipv6', familyCheck: any) {
+    const httpCheck = familyCheck?.isAvailable ? familyCheck.httpCheck : null;
+
+    return {
+      [`${prefix}HttpIsUp`]: httpCheck ? !!httpCheck.isUp : null,
+      [`${prefix}HttpResponseTime`]: typeof httpCheck?.responseTime === 'number' ? httpCheck.responseTime : null,
+      [`${prefix}HttpError`]: httpCheck?.error || null,
+      [`${prefix}TcpChecks`]: familyCheck?.isAvailable ? this.mapTcpChecks(familyCheck.tcpChecks) : Prisma.DbNull,
+    };
+  }
+
+  /**
+   * Map a worker's transaction result onto the transaction* SiteStatus columns, all null for other monitors
+   */
+  private mapTransactionCheck(transactionCheck: any) {
+    return {
+      transactionIsUp: transactionCheck ? !!transactionCheck.isUp : null,
+      transactionFailedStep: typeof transactionCheck?.failedStep === 'number' ? transactionCheck.failedStep : null,
+      transactionError: transactionCheck?.error || null,
+      transactionSteps: Array.isArray(transactionCheck?.steps) ? transactionCheck.steps : Prisma.DbNull,
+    };
+  }
+
+  /**
+   * Map a worker's protocol result onto the protocol* SiteStatus columns, all null for other monitors
+   */
+  private mapProtocolCheck(protocolCheck: any) {
+    return {
+      protocolIsUp: protocolCheck ? !!protocolCheck.isUp : null,
+      protocolError: protocolCheck?.error || null,
+      protocolCheck: protocolCheck ?? Prisma.DbNull,
+    };
+  }
+
+  private mapSecurityAudit(securityAudit: any) {
+    const isAudited = typeof securityAudit?.score === 'number';
+
+    return {
+      securityScore: isAudited ? securityAudit.score : null,
+      securityGrade: isAudited ? securityAudit.grade || null : null,
+      securityAudit: isAudited
+        ? { findings: Array.isArray(securityAudit.findings) ? securityAudit.findings : [], headers: securityAudit.headers || {} }
+        : Prisma.DbNull,
+    };
+  }
+
+  private mapContentCheck(site: Site, content: any) {
+    const hash = site.contentChangeEnabled && typeof content?.hash === 'string' ? content.hash : null;
+
+    return {
+      contentHash: hash,
+      contentText: hash && hash !== site.contentBaselineHash && typeof content.text === 'string' ? content.text : null,
+    };
+  }
+
+  /**
+   * Same majority rule as the other checks, over the workers that reported a result at all
+   * (e.g. could resolve the address family)
+   */
+  private getReportedConsensus(values: (boolean | null)[]): boolean | null {
+    const reported = values.filter((value): value is boolean => value !== null);
+    if (!reported.length) return null;
+
+    const downCount = reported.filter(value => !value).length;
+    return !(reported.length >= 2 ? downCount >= 2 : !reported[0]);
+  }
+
+  /**
+   * A site is degraded when it is up but HTTP over one of its address families fails
+   */
+  private getDegradedReason(isUp: boolean, ipv4HttpIsUp: boolean | null, ipv6HttpIsUp: boolean | null): string | null {
+    if (!isUp) return null;
+
+    if (ipv6HttpIsUp === false && ipv4HttpIsUp !== false) {
+      return ipv4HttpIsUp ? 'IPv6 is unreachable while IPv4 works' : 'IPv6 is unreachable';
+    }
+    if (ipv4HttpIsUp === false && ipv6HttpIsUp !== false) {
+      return ipv6HttpIsUp ? 'IPv4 is unreachable while IPv6 works' : 'IPv4 is unreachable';
+    }
+    if (ipv4HttpIsUp === false && ipv6HttpIsUp === false) {
+      return 'HTTP over both IPv4 and IPv6 is failing';
+    }
+
+    return null;
+  }
+
+  /**
+   * Combine the JSON assertion results of all workers rule by rule, using the same
+   * rule as the other checks: a rule fails when at least two workers (or the only worker) report it failing
+   */
+  private getConsensusJsonAssertions(statuses: SiteStatus[]): any[] {
+    const assertionMap = new Map<number, { passedResult?: any; failedResult?: any; failed: number; total: number }>();
+
+    statuses.forEach(status => {
+      if (!Array.isArray(status.jsonAssertionResults)) return;
+
+      status.jsonAssertionResults.forEach((assertion: any, index: number) => {
+        const existing = assertionMap.get(index) || { failed: 0, total: 0 };
+
+        existing.total++;
+        if (assertion.passed) {
+          existing.passedResult = existing.passedResult || assertion;
+        } else {
+          existing.failed++;
+          existing.failedResult = existing.failedResult || assertion;
+        }
+
+        assertionMap.set(index, existing);
+      });
+    });
+
+    return Array.from(assertionMap.values()).map(({ passedResult, failedResult, failed, total }) => {
+      const passed = !(statuses.length >= 2 ? failed >= 2 : failed >= total);
+      // Show a result that agrees with the consensus so the reason for a failure is kept
+      return { ...(passed ? passedResult || failedResult : failedResult), passed };
+    });
+  }
 }
 
 const monitorService = new MonitorService();
@@ -1,11 +1,59 @@
+import crypto from 'crypto';
 import Redis from 'ioredis';
 import { Site } from '@prisma/client';
 import logger from '../utils/logger';
+import { isSiteAssignedToWorker, WorkerRegion } from '../utils/regionUtils';
 import { config } from '../config';
 
+type ConfigChangeAction = 'update' | 'delete' | 'snapshot';
+
+export interface WorkerSyncStatus {
+  workerId: string;
+  configVersion: number | null; // null until the worker acknowledges a version
+  lag: number | null; // Config versions the worker is behind
+  checksumMatches: boolean | null; // Only compared once the worker is on the latest version
+  configSyncedAt: string | null;
+}
+
+export interface SyncStatus {
+  isSynced: boolean; // Redis matches the database
+  version: number;
+  workers: WorkerSyncStatus[];
+}
+
+// Applies a config change and appends it to the versioned change log atomically, so workers reading the log never
+// see a version before the change it stands for.
+// KEYS: config hash, version counter, change log. ARGV: action, max log entries, then siteId and config JSON pairs
+// ('' deletes the site)
+const APPLY_CONFIG_CHANGE_SCRIPT = `
+local version = redis.call('INCR', KEYS[2])
+if ARGV[1] == 'snapshot' then
+  redis.call('DEL', KEYS[1])
+end
+local siteIds = {}
+for i = 3, #ARGV, 2 do
+  if ARGV[i + 1] == '' then
+    redis.call('HDEL', KEYS[1], ARGV[i])
+  else
+    redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 1])
+  end
+  table.insert(siteIds, ARGV[i])
+end
+local entry = { version = version, action = ARGV[1] }
+if ARGV[1] ~= 'snapshot' then
+  entry.siteIds = siteIds
+end
+redis.call('ZADD', KEYS[3], version, cjson.encode(entry))
+redis.call('ZREMRANGEBYRANK', KEYS[3], 0, -(tonumber(ARGV[2]) + 1))
+return version
+`;
+
 class RedisService {
   private redis: Redis;
   private readonly SITES_CONFIG_KEY = 'sites:config';
+  private readonly CONFIG_VERSION_KEY = 'sites:config:version';
+  private readonly CONFIG_LOG_KEY = 'sites:config:log';
+  private readonly CONFIG_LOG_MAX_ENTRIES = 1000; // Workers further behind load the whole snapshot
   private readonly SYNC_LOCK_KEY = 'sync:lock';
 
   constructor() {
@@ -21,25 +69,103 @@ class RedisService {
     });
   }
 
-  async syncSite(site: Site): Promise<void> {
-    try {
-      const siteData = {
-        id: site.id,
-        url: site.url,
-        checkInterval: site.checkInterval,
-        isActive: site.isActive,
-        userId: site.userId
-      };
+  /**
+   * Builds the site configuration consumed by the monitoring workers
+   * @param site - The site to convert
+   */
+  private toSiteConfig(site: Site) {
+    return {
+      id: site.id,
+      url: site.url,
+      checkInterval: site.checkInterval,
+      monitorType: site.monitorType,
+      confirmationRetries: site.confirmationRetries,
+      regions: site.regions,
+      isActive: site.isActive,
+      userId: site.userId,
+      httpRequest: {
+        method: site.httpMethod,
+        headers: site.httpHeaders,
+        body: site.httpBody,
+        acceptedStatusCodes: site.acceptedStatusCodes,
+        followRedirects: site.followRedirects,
+        maxRedirects: site.maxRedirects
+      },
+      contentRules: {
+        mustContain: site.contentMustContain,
+        mustNotContain: site.contentMustNotContain,
+        regex: site.contentRegex,
+        maxBytes: site.contentMaxBytes
+      },
+      jsonAssertions: site.jsonAssertions,
+      dnsRecordTypes: site.dnsRecordTypes,
+      tcpPorts: site.tcpPorts,
+      // Workers run the transaction only for transaction monitors, so switching back to HTTP keeps the steps for later
+      transactionSteps: site.monitorType === 'TRANSACTION' ? site.transactionSteps : [],
+      websocket: {
+        send: site.websocketSend,
+        expect: site.websocketExpect,
+        timeout: site.websocketTimeout
+      },
+      grpcService: site.grpcService,
+      proxy: site.proxyUrl,
+      dnsResolvers: site.dnsResolvers,
+      contentChange: site.contentChangeEnabled
+        ? { ignoreSelectors: site.contentIgnoreSelectors, ignorePatterns: site.contentIgnorePatterns }
+        : null
+    };
+  }
 
-      await this.redis.hset(this.SITES_CONFIG_KEY, site.id, JSON.stringify(siteData));
-      
-      // Publish update event for monitoring system
-      await this.redis.publish('site-config-updates', JSON.stringify({
-        action: 'update',
-        site: siteData
-      }));
+  /**
+   * Applies a change to the site configs under a new config version and tells the workers about it
+   * @param action - What the change does
+   * @param changes - Site IDs with their new config, null to delete
+   * @returns The new config version
+   */
+  private async applyConfigChange(action: ConfigChangeAction, changes: [string, object | null][]): Promise<number> {
+    const args = changes.flatMap(([siteId, siteConfig]) => [siteId, siteConfig ? JSON.stringify(siteConfig) : '']);
+    const version = Number(await this.redis.eval(
+      APPLY_CONFIG_CHANGE_SCRIPT,
+      3,
+      this.SITES_CONFIG_KEY,
+      this.CONFIG_VERSION_KEY,
+      this.CONFIG_LOG_KEY,
+      action,
+      this.CONFIG_LOG_MAX_ENTRIES,
+      ...args
+    ));
 
-      logger.info(`Site ${site.id} synchronized to Redis`);
+    // Workers read the changes from the log, the message only tells them to do it now
+    await this.redis.publish('site-config-updates', JSON.stringify({ version }));
+    return version;
+  }
+
+  /**
+   * Checksum of the active site configs assigned to a worker, computed the same way by the workers over the
+   * configs they applied
+   * @param rawConfigs - Site configs by site ID, as stored in Redis
+   * @param worker - Region of the worker
+   */
+  private getConfigChecksum(rawConfigs: Record<string, string>, worker: WorkerRegion): string {
+    const hash = crypto.createHash('sha1');
+    Object.values(rawConfigs)
+      .map(rawConfig => JSON.parse(rawConfig))
+      .filter(siteConfig => siteConfig.isActive && isSiteAssignedToWorker(siteConfig.regions, worker))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .forEach(siteConfig => hash.update(`${siteConfig.id}:${JSON.stringify(siteConfig)}\n`));
+    return hash.digest('hex');
+  }
+
+  async syncSite(site: Site): Promise<void> {
+    // Heartbeat monitors are not checked by workers, so make sure none still has the site
+    if (site.monitorType === 'HEARTBEAT') {
+      await this.removeSite(site.id);
+      return;
+    }
+
+    try {
+      const version = await this.applyConfigChange('update', [[site.id, this.toSiteConfig(site)]]);
+      logger.info(`Site ${site.id} synchronized to Redis at config version ${version}`);
     } catch (error) {
       logger.error('Failed to sync site to Redis:', error);
       throw error;
@@ -48,15 +174,8 @@ class RedisService {
 
   async removeSite(siteId: string): Promise<void> {
     try {
-      await this.redis.hdel(this.SITES_CONFIG_KEY, siteId);
-      
-      // Publish delete event for monitoring system
-      await this.redis.publish('site-config-updates', JSON.stringify({
-        action: 'delete',
-        site: { id: siteId }
-      }));
-
-      logger.info(`Site ${siteId} removed from Redis`);
+      const version = await this.applyConfigChange('delete', [[siteId, null]]);
+      logger.info(`Site ${siteId} removed from Redis at config version ${version}`);
     } catch (error) {
       logger.error('Failed to remove site from Redis:', error);
       throw error;
@@ -69,13 +188,7 @@ class RedisService {
       if (siteData) {
         const site = JSON.parse(siteData);
         site.isActive = isActive;
-        await this.redis.hset(this.SITES_CONFIG_KEY, siteId, JSON.stringify(site));
-        
-        // Publish update event for monitoring system
-        await this.redis.publish('site-config-updates', JSON.stringify({
-          action: 'update',
-          site
-        }));
+        await this.applyConfigChange('update', [[siteId, site]]);
 
         logger.info(`Site ${siteId} status updated in Redis`);
       }
@@ -110,38 +223,10 @@ class RedisService {
 
       logger.info(`Starting bulk sync of ${sites.length} sites`);
 
-      // Clear existing sites
-      await this.redis.del(this.SITES_CONFIG_KEY);
-
-      // Prepare bulk operation
-      const pipeline = this.redis.pipeline();
-      
-      for (const site of sites) {
-        const siteData = {
-          id: site.id,
-          url: site.url,
-          checkInterval: site.checkInterval,
-          isActive: site.isActive,
-          userId: site.userId
-        };
-        pipeline.hset(this.SITES_CONFIG_KEY, site.id, JSON.stringify(siteData));
-      }
+      // Replace all sites under a single version, workers reload the whole snapshot
+      const version = await this.applyConfigChange('snapshot', sites.map(site => [site.id, this.toSiteConfig(site)]));
+      logger.info(`Site configs replaced at config version ${version}`);
 
-      // Execute bulk operation
-      await pipeline.exec();
-      
-      // Publish bulk update event for monitoring system
-      await this.redis.publish('site-config-updates', JSON.stringify({
-        action: 'bulk',
-        sites: sites.map(site => ({
-          id: site.id,
-          url: site.url,
-          checkInterval: site.checkInterval,
-          isActive: site.isActive,
-          userId: site.userId
-        }))
-      }));
-      
       // Release lock
       await this.redis.del(this.SYNC_LOCK_KEY);
       
@@ -154,43 +239,98 @@ class RedisService {
     }
   }
 
-  async verifySyncStatus(sites: Site[]): Promise<boolean> {
+  /**
+   * Compares the site configs in Redis with the database, and reports how far each worker is behind the latest
+   * config version and whether its applied configs match the latest ones
+   * @param sites - The sites workers should be checking
+   */
+  async verifySyncStatus(sites: Site[]): Promise<SyncStatus> {
     try {
-      const redisSites = await this.getAllSites();
-      const redisCount = Object.keys(redisSites).length;
-
-      if (redisCount !== sites.length) {
-        logger.warn(`Sync verification failed: Redis has ${redisCount} sites, DB has ${sites.length} sites`);
-        return false;
-      }
+      const [redisSites, rawVersion] = await Promise.all([
+        this.getAllSites(),
+        this.redis.get(this.CONFIG_VERSION_KEY)
+      ]);
+      const version = parseInt(rawVersion || '0', 10);
+      const workers = await this.getWorkerSyncStatus(version, redisSites);
 
-      // Verify each site
-      for (const site of sites) {
-        const redisSite = redisSites[site.id];
-        if (!redisSite) {
-          logger.warn(`Sync verification failed: Site ${site.id} missing from Redis`);
-          return false;
-        }
-
-        const parsedRedisSite = JSON.parse(redisSite);
-        if (
-          parsedRedisSite.url !== site.url ||
-          parsedRedisSite.checkInterval !== site.checkInterval ||
-          parsedRedisSite.isActive !== site.isActive
-        ) {
-          logger.warn(`Sync verification failed: Site ${site.id} data mismatch`);
-          return false;
+      for (const worker of workers) {
+        if (worker.lag) {
+          logger.warn(`Worker ${worker.workerId} is ${worker.lag} config versions behind (at ${worker.configVersion}, latest ${version})`);
+        } else if (worker.checksumMatches === false) {
+          logger.warn(`Worker ${worker.workerId} is at config version ${version} but its site configs drifted`);
         }
       }
 
-      logger.info('Sync verification successful: All sites are properly synchronized');
-      return true;
+      const isSynced = this.isRedisSynced(sites, redisSites);
+      if (isSynced) {
+        logger.info('Sync verification successful: All sites are properly synchronized');
+      }
+      return { isSynced, version, workers };
     } catch (error) {
       logger.error('Failed to verify sync status:', error);
       throw error;
     }
   }
 
+  private isRedisSynced(sites: Site[], redisSites: Record<string, string>): boolean {
+    const redisCount = Object.keys(redisSites).length;
+
+    if (redisCount !== sites.length) {
+      logger.warn(`Sync verification failed: Redis has ${redisCount} sites, DB has ${sites.length} sites`);
+      return false;
+    }
+
+    // Verify each site
+    for (const site of sites) {
+      const redisSite = redisSites[site.id];
+      if (!redisSite) {
+        logger.warn(`Sync verification failed: Site ${site.id} missing from Redis`);
+        return false;
+      }
+
+      const parsedRedisSite = JSON.parse(redisSite);
+      if (
+        parsedRedisSite.url !== site.url ||
+        parsedRedisSite.checkInterval !== site.checkInterval ||
+        parsedRedisSite.isActive !== site.isActive
+      ) {
+        logger.warn(`Sync verification failed: Site ${site.id} data mismatch`);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private async getWorkerSyncStatus(version: number, redisSites: Record<string, string>): Promise<WorkerSyncStatus[]> {
+    const workerKeys = await this.redis.keys('workers:*');
+
+    return Promise.all(workerKeys.map(async (workerKey) => {
+      const [rawConfigVersion, configChecksum, configSyncedAt, region, dedicated] = await this.redis.hmget(
+        workerKey,
+        'configVersion',
+        'configChecksum',
+        'configSyncedAt',
+        'region',
+        'dedicated'
+      );
+      const configVersion = rawConfigVersion ? parseInt(rawConfigVersion, 10) : null;
+      // Each worker only holds the sites of its region
+      const checksum = this.getConfigChecksum(redisSites, {
+        region: region || workerKey.split(':')[1],
+        dedicated: dedicated === 'true'
+      });
+
+      return {
+        workerId: workerKey.split(':')[1],
+        configVersion,
+        lag: configVersion === null ? null : Math.max(0, version - configVersion),
+        checksumMatches: configVersion === version && configChecksum ? configChecksum === checksum : null,
+        configSyncedAt: configSyncedAt || null
+      };
+    }));
+  }
+
   /**
    * Sets a key-value pair in Redis with optional expiration
    * @param key - The key to set
@@ -261,6 +401,11 @@ class RedisService {
     startedAt: string;
     lastHeartbeat: string;
     activeSites: number;
+    queueLagMs: number; // How late the worker's checks started in its last heartbeat period
+    queuedChecks: number;
+    runningChecks: number;
+    configVersion: number | null; // Last site config version the worker applied
+    dedicated: boolean; // Only checks sites that list its region
   }>> {
     try {
       const workerKeys = await this.redis.keys('workers:*');
@@ -276,7 +421,12 @@ class RedisService {
           'region',
           'startedAt', 
           'lastHeartbeat',
-          'activeSites'
+          'activeSites',
+          'queueLagMs',
+          'queuedChecks',
+          'runningChecks',
+          'configVersion',
+          'dedicated'
         );
 
         return {
@@ -284,7 +434,12 @@ class RedisService {
           region: workerData[0] || workerId,
           startedAt: workerData[1] || '',
           lastHeartbeat: workerData[2] || '',
-          activeSites: parseInt(workerData[3] || '0', 10)
+          activeSites: parseInt(workerData[3] || '0', 10),
+          queueLagMs: parseInt(workerData[4] || '0', 10),
+          queuedChecks: parseInt(workerData[5] || '0', 10),
+          runningChecks: parseInt(workerData[6] || '0', 10),
+          configVersion: workerData[7] ? parseInt(workerData[7], 10) : null,
+          dedicated: workerData[8] === 'true'
         };
       });
 
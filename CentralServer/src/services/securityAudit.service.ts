@@ -0,0 +1,70 @@
+import { Prisma, Site, SiteStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import notificationService from './notification.service';
+
+export type SecuritySeverity = 'high' | 'medium' | 'low';
+
+export interface SecurityFinding {
+  id: string; // Stable for the same problem across checks
+  category: string;
+  severity: SecuritySeverity;
+  message: string;
+}
+
+class SecurityAuditService {
+  /**
+   * Pick the audit reported by most workers, the lower score on a tie, so that one region
+   * served by a differently configured edge does not flip the grade on every check
+   */
+  getConsensusAudit(statuses: SiteStatus[]): SiteStatus | null {
+    const votes = new Map<number, { status: SiteStatus; count: number }>();
+
+    statuses.forEach(status => {
+      if (status.securityScore === null) return;
+
+      const existing = votes.get(status.securityScore) || { status, count: 0 };
+      existing.count++;
+      votes.set(status.securityScore, existing);
+    });
+
+    const winner = Array.from(votes.values())
+      .sort((a, b) => b.count - a.count || (a.status.securityScore as number) - (b.status.securityScore as number))[0];
+    return winner?.status || null;
+  }
+
+  /**
+   * Alert when the score of a check drops below the last audited one, naming the findings that are new
+   */
+  async processAudit(site: Site, audited: SiteStatus | null): Promise<void> {
+    if (audited?.securityScore == null) return;
+
+    // The previous consensus may have no audit, e.g. while the site was down
+    const previous = await prisma.siteStatus.findFirst({
+      where: { siteId: site.id, workerId: 'consensus_worker', securityScore: { not: null } },
+      orderBy: { checkedAt: 'desc' },
+      select: { securityScore: true, securityAudit: true },
+    });
+    if (previous?.securityScore == null || audited.securityScore >= previous.securityScore) return;
+
+    const previousIds = new Set(this.getFindings(previous.securityAudit).map(finding => finding.id));
+    const newFindings = this.getFindings(audited.securityAudit).filter(finding => !previousIds.has(finding.id));
+    const details = newFindings.length
+      ? `:\n${newFindings.map(finding => `  - [${finding.severity}] ${finding.message}`).join('\n')}`
+      : '';
+
+    await notificationService.sendNotification(
+      site.id,
+      `Security headers score of your site ${site.name} (${site.url}) dropped from ${previous.securityScore} to ${audited.securityScore} (grade ${audited.securityGrade})${details}`,
+      'SECURITY_REGRESSION'
+    );
+    logger.info(`Sent security regression notification for site ${site.url}`);
+  }
+
+  getFindings(securityAudit: Prisma.JsonValue | null | undefined): SecurityFinding[] {
+    const findings = (securityAudit as { findings?: unknown } | null)?.findings;
+    return Array.isArray(findings) ? findings as SecurityFinding[] : [];
+  }
+}
+
+export default new SecurityAuditService();
@@ -1,5 +1,6 @@
 import { PrismaClient, SiteStatus } from '@prisma/client'
 import { kimiPredictiveService } from './kimiPredictive.service'
+import securityAuditService from './securityAudit.service'
 
 const domain = process.env.DOMAIN || 'report.agencyuptime.com'
 const prisma = new PrismaClient()
@@ -138,6 +139,11 @@ function fmtUptime(u: number | null, theme: any) {
 
 function fmtMs(n: number | null) { return n == null ? '—' : `${Math.round(n)}ms` }
 
+// Header values come from the monitored site, so they are escaped before going into the report
+function escapeHtml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
 export async function generateSiteMonthlyReportHTML(siteId: string): Promise<string> {
   // Compute rolling 30-day window in UTC (from one month ago until now)
   const nowUTC = new Date(new Date().toISOString())
@@ -225,6 +231,20 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
   const overallStats = calculateUptimeStats(monthStatuses)
   const consensusStats = consensusData ? calculateUptimeStats(statusByWorker['consensus_worker'] || []) : null
 
+  // TLS validation details from the latest consensus check
+  const sslChain: any[] = Array.isArray(consensusData?.sslChain) ? consensusData.sslChain as any[] : []
+  const sslHasIssues = consensusData?.sslTrusted === false ||
+    consensusData?.sslHostnameMatch === false ||
+    sslChain.some(cert => cert.isExpired)
+
+  // Security headers audit: the latest grade, and how the score moved over the month
+  const auditedConsensus = (statusByWorker['consensus_worker'] || []).filter(s => s.securityScore !== null)
+  const firstAudit = auditedConsensus[0]
+  const latestAudit = auditedConsensus[auditedConsensus.length - 1]
+  const lowestSecurityScore = auditedConsensus.length ? Math.min(...auditedConsensus.map(s => s.securityScore as number)) : null
+  const securityFindings = securityAuditService.getFindings(latestAudit?.securityAudit)
+  const securityColor = (score: number) => score >= 90 ? 'ssl-valid' : score >= 70 ? 'ssl-warning' : 'ssl-invalid'
+
   // Incidents over the month
   const incidents = buildIncidents(base, startDate, endDate)
 
@@ -646,7 +666,7 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
       </div>
       <div class="info-item">
         <div class="label">Check Interval</div>
-        <div class="value">${site.checkInterval} minutes</div>
+        <div class="value">${site.checkInterval < 1 ? `${Math.round(site.checkInterval * 60)} seconds` : `${site.checkInterval} minutes`}</div>
       </div>
       <div class="info-item">
         <div class="label">Status</div>
@@ -920,7 +940,31 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
       <div class="info-grid" style="margin-bottom: 20px;">
         <div class="info-item">
           <div class="label">SSL Status</div>
-          <div class="value ssl-valid">✅ Valid & Active</div>
+          ${consensusData.sslTrusted === false ? `
+          <div class="value ssl-invalid">❌ Not Trusted</div>
+          ` : consensusData.sslTrusted ? `
+          <div class="value ssl-valid">✅ Trusted & Active</div>
+          ` : `
+          <div class="value ssl-valid">✅ Active</div>
+          `}
+        </div>
+        <div class="info-item">
+          <div class="label">Hostname Match</div>
+          <div class="value ${consensusData.sslHostnameMatch === false ? 'ssl-invalid' : 'ssl-valid'}">
+            ${consensusData.sslHostnameMatch === null ? 'Unknown' : consensusData.sslHostnameMatch ? '✅ Matches' : '❌ Mismatch'}
+          </div>
+        </div>
+        <div class="info-item">
+          <div class="label">Protocol & Cipher</div>
+          <div class="value ${consensusData.sslProtocol && ['TLSv1', 'TLSv1.1', 'SSLv3'].includes(consensusData.sslProtocol) ? 'ssl-warning' : ''}">
+            ${consensusData.sslProtocol || 'Unknown'}${consensusData.sslCipher ? `<br><small>${consensusData.sslCipher}</small>` : ''}
+          </div>
+        </div>
+        <div class="info-item">
+          <div class="label">OCSP Stapling</div>
+          <div class="value">
+            ${consensusData.sslOcspStapled === null ? 'Unknown' : consensusData.sslOcspStapled ? '✅ Enabled' : '⚠️ Not stapled'}
+          </div>
         </div>
         <div class="info-item">
           <div class="label">Certificate Issuer</div>
@@ -949,9 +993,37 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
           </div>
         </div>
       </div>
-      
-      <div style="margin-top: 15px; padding: 15px; background: ${consensusData.sslDaysUntilExpiry && consensusData.sslDaysUntilExpiry < 30 ? '#f8d7da' : '#d4edda'}; border-radius: 8px; border-left: 4px solid ${consensusData.sslDaysUntilExpiry && consensusData.sslDaysUntilExpiry < 30 ? theme.errorColor : theme.successColor};">
+
+      ${sslChain.length ? `
+      <table>
+        <thead>
+          <tr>
+            <th>Certificate</th>
+            <th>Issued By</th>
+            <th>Expires</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${sslChain.map((cert: any, index: number) => `
+          <tr>
+            <td><strong>${cert.subject}</strong><br><small>${index === 0 ? 'Site certificate' : index === sslChain.length - 1 && cert.subject === cert.issuer ? 'Root certificate' : 'Intermediate certificate'}</small></td>
+            <td>${cert.issuer}</td>
+            <td>${formatDate(cert.validTo, false)}</td>
+            <td><span class="${cert.isExpired ? 'ssl-invalid' : cert.daysUntilExpiry < 30 ? 'ssl-warning' : 'ssl-valid'}">
+              ${cert.isExpired ? '❌ Expired' : `✅ ${cert.daysUntilExpiry} days left`}
+            </span></td>
+          </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      ` : ''}
+
+      <div style="margin-top: 15px; padding: 15px; background: ${sslHasIssues || (consensusData.sslDaysUntilExpiry && consensusData.sslDaysUntilExpiry < 30) ? '#f8d7da' : '#d4edda'}; border-radius: 8px; border-left: 4px solid ${sslHasIssues || (consensusData.sslDaysUntilExpiry && consensusData.sslDaysUntilExpiry < 30) ? theme.errorColor : theme.successColor};">
         <strong>🔍 Monthly SSL Analysis:</strong><br>
+        ${consensusData.sslTrusted === false ? `❌ <strong>Certificate is not trusted:</strong> ${consensusData.sslTrustError || 'chain could not be verified'}. Visitors will see browser security warnings.<br>` : ''}
+        ${consensusData.sslHostnameMatch === false ? `❌ <strong>Hostname mismatch:</strong> ${consensusData.sslHostnameError || 'the certificate does not cover this domain'}.<br>` : ''}
+        ${sslChain.some((cert: any, index: number) => index > 0 && cert.isExpired) ? `❌ <strong>An intermediate certificate in the chain has expired.</strong> Reinstall the chain provided by your Certificate Authority.<br>` : ''}
         ${consensusData.sslDaysUntilExpiry && consensusData.sslDaysUntilExpiry < 30 ?
           `⚠️ <strong>Certificate expires in ${consensusData.sslDaysUntilExpiry} days!</strong> Immediate renewal required to prevent service interruption.` :
           consensusData.sslDaysUntilExpiry && consensusData.sslDaysUntilExpiry < 90 ?
@@ -959,7 +1031,10 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
             `✅ <strong>Certificate remains valid for ${consensusData.sslDaysUntilExpiry} more days.</strong> SSL security maintained throughout the reporting period.`
         }<br>
         • <strong>Certificate Authority:</strong> ${consensusData.sslIssuer || 'Unknown'}<br>
-        • <strong>Monthly Stability:</strong> SSL certificate remained valid and properly configured throughout ${periodStr}
+        ${consensusData.sslSubjectAltNames?.length ? `• <strong>Covered Domains:</strong> ${consensusData.sslSubjectAltNames.join(', ')}<br>` : ''}
+        • <strong>Monthly Stability:</strong> ${sslHasIssues
+          ? `SSL certificate validation issues were detected at the end of ${periodStr}`
+          : `SSL certificate remained valid and properly configured throughout ${periodStr}`}
       </div>
     </div>
     ` : `
@@ -971,6 +1046,62 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
     </div>
     `}
 
+    ${latestAudit ? `
+    <div class="keep-together" style="margin-top: 20px;">
+      <h3 style="color: ${theme.primaryColor}; margin-bottom: 10px;">🛡️ Security Headers Audit</h3>
+      <div class="info-grid">
+        <div class="info-item">
+          <div class="label">Current Grade</div>
+          <div class="value ${securityColor(latestAudit.securityScore as number)}">${latestAudit.securityGrade || '—'} (${latestAudit.securityScore}/100)</div>
+        </div>
+        <div class="info-item">
+          <div class="label">Score at Start of Period</div>
+          <div class="value">${firstAudit.securityScore}/100</div>
+        </div>
+        <div class="info-item">
+          <div class="label">Lowest Score</div>
+          <div class="value ${securityColor(lowestSecurityScore as number)}">${lowestSecurityScore}/100</div>
+        </div>
+        <div class="info-item">
+          <div class="label">Open Findings</div>
+          <div class="value">${securityFindings.length}</div>
+        </div>
+      </div>
+
+      ${securityFindings.length ? `
+      <table style="margin-top: 15px;">
+        <thead>
+          <tr>
+            <th>Severity</th>
+            <th>Finding</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${securityFindings.map(finding => `
+          <tr>
+            <td><span class="${finding.severity === 'high' ? 'ssl-invalid' : finding.severity === 'medium' ? 'ssl-warning' : ''}">${finding.severity.toUpperCase()}</span></td>
+            <td>${escapeHtml(finding.message)}</td>
+          </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      ` : ''}
+
+      <div style="margin-top: 15px; padding: 15px; background: ${securityFindings.some(finding => finding.severity === 'high') ? '#f8d7da' : securityFindings.length ? '#fff3cd' : '#d4edda'}; border-radius: 8px; border-left: 4px solid ${securityFindings.some(finding => finding.severity === 'high') ? theme.errorColor : securityFindings.length ? theme.warningColor : theme.successColor};">
+        <strong>🔍 Monthly Security Headers Analysis:</strong><br>
+        • <strong>Trend:</strong> ${(latestAudit.securityScore as number) > (firstAudit.securityScore as number)
+          ? `Improved from ${firstAudit.securityScore} to ${latestAudit.securityScore} during ${periodStr}`
+          : (latestAudit.securityScore as number) < (firstAudit.securityScore as number)
+            ? `Dropped from ${firstAudit.securityScore} to ${latestAudit.securityScore} during ${periodStr}`
+            : `Unchanged at ${latestAudit.securityScore} during ${periodStr}`}<br>
+        • <strong>Coverage:</strong> HSTS, Content-Security-Policy, framing protection, MIME sniffing, Referrer-Policy, cookie flags and server version disclosure<br>
+        ${securityFindings.length
+          ? `• <strong>Recommendation:</strong> Resolve the ${securityFindings.some(finding => finding.severity === 'high') ? 'high severity findings first' : 'findings above'} in the web server or CDN configuration`
+          : `✅ <strong>All audited security headers are configured as recommended.</strong>`}
+      </div>
+    </div>
+    ` : ''}
+
     ${consensusData.dnsNameservers && consensusData.dnsNameservers.length > 0 ? `
     <div class="keep-together" style="margin-top: 20px;">
       <h3 style="color: ${theme.primaryColor}; margin-bottom: 10px;">🌐 DNS Configuration Analysis</h3>
@@ -1077,7 +1208,13 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
               8443: { name: 'HTTPS-ALT', desc: 'Alternative HTTPS Port', security: '🔒 Encrypted' }
             };
 
-            const service = serviceInfo[port] || {
+            const knownService = serviceInfo[port];
+            // Services named on the site take precedence over the well-known port names
+            const service = tcp.label ? {
+              name: tcp.label,
+              desc: knownService ? `${knownService.name} port` : 'Custom Application Port',
+              security: knownService?.security || '❓ Unknown'
+            } : knownService || {
               name: 'Custom',
               desc: 'Custom Application Port',
               security: '❓ Unknown'
@@ -1087,7 +1224,7 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
             <tr>
               <td><strong>${port}</strong></td>
               <td><span class="${tcp.isUp ? 'status-up' : 'status-down'}">
-                ${tcp.isUp ? '✅ Open' : '❌ Closed'}
+                ${tcp.isUp ? '✅ Open' : tcp.isConnected ? '⚠️ Unexpected Response' : '❌ Closed'}
               </span></td>
               <td><strong>${service.name}</strong><br><small>${service.desc}</small></td>
               <td>✅ Consistent</td>
@@ -1219,8 +1356,8 @@ export async function generateSiteMonthlyReportHTML(siteId: string): Promise<str
           </div>
           <div class="metric-row">
             <span class="metric-label">SSL:</span>
-            <span class="metric-value ${status.hasSsl ? 'ssl-valid' : 'ssl-invalid'}">
-              ${status.hasSsl ? '🔒 Valid' : '🔓 None'}
+            <span class="metric-value ${status.hasSsl && status.sslTrusted !== false ? 'ssl-valid' : 'ssl-invalid'}">
+              ${!status.hasSsl ? '🔓 None' : status.sslTrusted === false ? '⚠️ Untrusted' : '🔒 Valid'}
             </span>
           </div>
           ${status.tcpChecks && Array.isArray(status.tcpChecks) && status.tcpChecks.length > 0 ? `
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { WorkerCredential, WorkerResultRejectionReason } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+
+// Credentials are cached between results, so a revocation made by another server instance takes up to this long
+const CREDENTIAL_CACHE_TTL_MS = 60 * 1000;
+
+// A result as read from the stream, before it is trusted
+export interface SignedResult {
+  resultId: string; // Stream ID
+  workerId: string;
+  siteId: string;
+  sequence?: string;
+  signature?: string;
+  payload: string; // The result JSON exactly as signed
+}
+
+export type ResultVerification =
+  | { status: 'accepted'; sequence: bigint }
+  | { status: 'duplicate' } // Already stored, delivered again after a restart or a retry
+  | { status: 'rejected'; reason: WorkerResultRejectionReason };
+
+// Stream IDs are "<milliseconds>-<counter>"
+const compareStreamIds = (a: string, b: string): number => {
+  const [aTime, aCounter] = a.split('-').map(BigInt);
+  const [bTime, bCounter] = b.split('-').map(BigInt);
+  if (aTime !== bTime) return aTime < bTime ? -1 : 1;
+  if (aCounter !== bCounter) return aCounter < bCounter ? -1 : 1;
+  return 0;
+};
+
+/**
+ * Per-worker secrets for check results. A worker signs each result with HMAC-SHA256 over its id, the site, a
+ * sequence number that only grows and the result itself, so results written to Redis by anything else, or copies of
+ * earlier results, are not counted in consensus.
+ */
+class WorkerCredentialService {
+  private cache: Map<string, { credential: WorkerCredential; loadedAt: number }> = new Map();
+
+  /**
+   * Create the credential of a worker, or rotate its secret and lift a revocation. The secret is only returned here.
+   */
+  async issueCredential(workerId: string): Promise<{ credential: WorkerCredential; secret: string }> {
+    const secret = crypto.randomBytes(32).toString('hex');
+    // The sequence is kept, so results signed before the rotation cannot be replayed
+    const credential = await prisma.workerCredential.upsert({
+      where: { workerId },
+      create: { workerId, secret },
+      update: { secret, revokedAt: null },
+    });
+
+    this.cache.delete(workerId);
+    logger.info(`Issued credential for worker ${workerId}`);
+    return { credential, secret };
+  }
+
+  /**
+   * Stop accepting results from a worker. Returns null when it has no credential.
+   */
+  async revokeCredential(workerId: string): Promise<WorkerCredential | null> {
+    const existing = await prisma.workerCredential.findUnique({ where: { workerId } });
+    if (!existing) return null;
+
+    const credential = existing.revokedAt
+      ? existing
+      : await prisma.workerCredential.update({ where: { workerId }, data: { revokedAt: new Date() } });
+
+    this.cache.delete(workerId);
+    logger.warn(`Revoked credential of worker ${workerId}`);
+    return credential;
+  }
+
+  /**
+   * Whether a worker holds a credential that is not revoked, so it is expected to report in every round
+   */
+  async isTrusted(workerId: string): Promise<boolean> {
+    const credential = await this.getCredential(workerId);
+    return !!credential && !credential.revokedAt;
+  }
+
+  async verifyResult(result: SignedResult): Promise<ResultVerification> {
+    if (!result.signature || !result.sequence || !/^\d+$/.test(result.sequence)) {
+      return { status: 'rejected', reason: 'UNSIGNED' };
+    }
+
+    const credential = await this.getCredential(result.workerId);
+    if (!credential) return { status: 'rejected', reason: 'UNKNOWN_WORKER' };
+    if (credential.revokedAt) return { status: 'rejected', reason: 'REVOKED' };
+
+    const expected = crypto
+      .createHmac('sha256', credential.secret)
+      .update(`${result.workerId}\n${result.siteId}\n${result.sequence}\n${result.payload}`)
+      .digest();
+    const provided = Buffer.from(result.signature, 'hex');
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      return { status: 'rejected', reason: 'INVALID_SIGNATURE' };
+    }
+
+    const sequence = BigInt(result.sequence);
+    if (sequence <= credential.lastSequence) {
+      // Stream IDs only grow, so a copy appended after the last accepted entry with an old sequence is a replay
+      if (!credential.lastResultId || compareStreamIds(result.resultId, credential.lastResultId) > 0) {
+        return { status: 'rejected', reason: 'REPLAYED' };
+      }
+
+      // An entry from before the last accepted one is delivered again, either after it was stored or because it
+      // failed and was left pending while later results moved the sequence on; only the stored ones are skipped
+      const stored = await prisma.siteStatus.findUnique({ where: { resultId: result.resultId }, select: { id: true } });
+      if (stored) return { status: 'duplicate' };
+    }
+
+    return { status: 'accepted', sequence };
+  }
+
+  /**
+   * Move the worker's sequence past a result once it has been processed
+   */
+  async acceptResult(result: SignedResult, sequence: bigint): Promise<void> {
+    // Never backwards: a result retried after later ones were accepted, or finished by another consumer first,
+    // leaves the sequence where it is
+    await prisma.workerCredential.updateMany({
+      where: { workerId: result.workerId, lastSequence: { lt: sequence } },
+      data: { lastSequence: sequence, lastResultId: result.resultId, lastSeenAt: new Date() },
+    });
+
+    const credential = await prisma.workerCredential.findUnique({ where: { workerId: result.workerId } });
+    if (credential) this.cache.set(result.workerId, { credential, loadedAt: Date.now() });
+  }
+
+  async recordRejection(result: SignedResult, reason: WorkerResultRejectionReason): Promise<void> {
+    logger.warn(`Rejected check result ${result.resultId} for site ${result.siteId} from worker ${result.workerId}: ${reason}`);
+    await prisma.workerResultRejection.create({
+      data: {
+        workerId: result.workerId || 'unknown',
+        siteId: result.siteId || null,
+        resultId: result.resultId,
+        sequence: result.sequence && /^\d+$/.test(result.sequence) ? BigInt(result.sequence) : null,
+        reason,
+      },
+    });
+  }
+
+  private async getCredential(workerId: string): Promise<WorkerCredential | null> {
+    const cached = this.cache.get(workerId);
+    if (cached && Date.now() - cached.loadedAt < CREDENTIAL_CACHE_TTL_MS) {
+      return cached.credential;
+    }
+
+    if (!workerId) return null;
+    // Unknown ids are not cached, anything with Redis access could make up as many as it likes
+    const credential = await prisma.workerCredential.findUnique({ where: { workerId } });
+    if (credential) this.cache.set(workerId, { credential, loadedAt: Date.now() });
+    else this.cache.delete(workerId);
+    return credential;
+  }
+}
+
+export default new WorkerCredentialService();
@@ -13,8 +13,11 @@ export interface AuthenticatedRequest extends Request {
 
 interface TcpCheckResult {
   port: number;
+  label?: string;
   isConnected: boolean;
   responseTime?: number;
+  banner?: string;
+  expectMatched?: boolean;
 }
 
 interface DnsCheckResult {
@@ -45,6 +48,15 @@ interface SiteCheckResult {
       daysUntilExpiry: number;
     };
   };
+  transactionCheck?: {
+    isUp: boolean;
+    responseTime: number;
+    failedStep: number | null;
+    error?: string;
+    steps: any[];
+  } | null;
+  attempts?: number;
+  attemptErrors?: string[];
 }
 
 export {
@@ -0,0 +1,12 @@
+export interface WorkerRegion {
+  region: string;
+  dedicated: boolean; // Only checks sites that list its region
+}
+
+/**
+ * Check if a worker is one of the regions checking a site. Sites without regions are checked by every region
+ * except dedicated ones. Workers apply the same rule when they filter their site configs.
+ */
+export const isSiteAssignedToWorker = (regions: string[] | undefined, worker: WorkerRegion): boolean => {
+  return regions?.length ? regions.includes(worker.region) : !worker.dedicated;
+};
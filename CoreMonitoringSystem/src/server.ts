@@ -1,11 +1,27 @@
 import { WorkerService } from './services/worker.service';
+import { HealthServer } from './services/health.service';
+import { config } from './config';
 
 const worker = new WorkerService({
+  workerId: process.env.WORKER_ID,
   region: process.env.WORKER_REGION || 'unknown',
+  dedicated: process.env.WORKER_DEDICATED === 'true',
   checkTimeout: parseInt(process.env.CHECK_TIMEOUT || '30000'),
+  maxConcurrentChecks: parseInt(process.env.MAX_CONCURRENT_CHECKS || '50'),
+  resultBufferPath: process.env.RESULT_BUFFER_PATH,
+  resultBufferMaxEntries: parseInt(process.env.RESULT_BUFFER_MAX_ENTRIES || '10000'),
+  secret: process.env.WORKER_SECRET,
 });
 
-worker.start().catch(error => {
-  console.error('Failed to start worker:', error);
-  process.exit(1);
-});
\ No newline at end of file
+const healthServer = new HealthServer(worker, {
+  port: config.port,
+  adminToken: process.env.WORKER_ADMIN_TOKEN,
+});
+
+// Serve /healthz and /readyz while the worker is still starting
+healthServer.start()
+  .then(() => worker.start())
+  .catch(error => {
+    console.error('Failed to start worker:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import http from 'http';
+import express, { NextFunction, Request, Response } from 'express';
+import morgan from 'morgan';
+import { WorkerService } from './worker.service';
+import { logger } from '../utils/logger';
+import { registry } from '../utils/metrics';
+
+interface HealthServerConfig {
+  port: number;
+  adminToken?: string; // Bearer token for the admin endpoints, which are disabled without one
+}
+
+/**
+ * HTTP endpoint of a worker: liveness and readiness probes, Prometheus metrics and admin actions
+ */
+export class HealthServer {
+  private readonly app = express();
+  private server: http.Server | null = null;
+
+  constructor(private readonly worker: WorkerService, private readonly serverConfig: HealthServerConfig) {
+    // Probes and scrapes run every few seconds, so only the admin requests are worth logging
+    this.app.use(morgan('combined', {
+      skip: (req) => !req.path.startsWith('/admin'),
+      stream: { write: (message: string) => logger.info(message.trim()) },
+    }));
+
+    // The process is up and serving requests
+    this.app.get('/healthz', (_req, res) => {
+      res.json({ status: 'ok' });
+    });
+
+    // Checks are scheduled and results can be published
+    this.app.get('/readyz', (_req, res) => {
+      const status = this.worker.getStatus();
+      res.status(status.ready ? 200 : 503).json(status);
+    });
+
+    this.app.get('/metrics', (_req, res) => {
+      res.type('text/plain; version=0.0.4').send(registry.render());
+    });
+
+    this.app.post('/admin/sites/:siteId/check', this.authenticate.bind(this), (req, res) => {
+      const result = this.worker.triggerCheck(req.params.siteId);
+
+      if (result === 'not_found') {
+        res.status(404).json({ error: 'Site is not monitored by this worker' });
+        return;
+      }
+      if (result === 'busy') {
+        res.status(409).json({ error: 'A check of this site is already queued or running' });
+        return;
+      }
+
+      logger.info(`Triggered check of site ${req.params.siteId} from the admin endpoint`);
+      res.status(202).json({ status: 'queued' });
+    });
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(this.serverConfig.port, () => {
+        logger.info(`Health server listening on port ${this.serverConfig.port}`);
+        resolve();
+      });
+      server.once('error', reject);
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private authenticate(req: Request, res: Response, next: NextFunction): void {
+    const { adminToken } = this.serverConfig;
+    if (!adminToken) {
+      res.status(403).json({ error: 'Admin endpoints are disabled, set WORKER_ADMIN_TOKEN to enable them' });
+      return;
+    }
+
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    const expected = Buffer.from(adminToken);
+    const provided = Buffer.from(token || '');
+
+    // Constant-time comparison so the token cannot be guessed from response times
+    if (scheme !== 'Bearer' || provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      res.status(401).json({ error: 'Invalid admin token' });
+      return;
+    }
+
+    next();
+  }
+}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+
+/**
+ * Append-only queue of results on disk, one JSON entry per line, for results that could not be published while
+ * Redis was unreachable. It survives restarts of the worker and is replayed oldest first. When it grows past
+ * maxEntries the oldest entries are dropped, so a long outage cannot fill the disk.
+ */
+export class ResultBuffer<T> {
+  private count = 0;
+  // File operations run one at a time, in the order they were requested
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly maxEntries: number) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Pick up entries buffered before a restart
+   */
+  async init(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const lines = await this.readLines();
+    // Rewriting ends the file on a full line again if a crash cut the last one short
+    await this.writeLines(lines);
+    if (this.count) {
+      logger.info(`Found ${this.count} buffered results from a previous run`);
+    }
+  }
+
+  push(entry: T): Promise<void> {
+    return this.enqueue(async () => {
+      await fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+      this.count++;
+
+      if (this.count > this.maxEntries) {
+        // Trim below the limit, so the file is not rewritten on every push while the outage lasts
+        const lines = await this.readLines();
+        const kept = lines.slice(lines.length - Math.floor(this.maxEntries * 0.9));
+        await this.writeLines(kept);
+        metrics.bufferedResultsDroppedTotal.inc({}, lines.length - kept.length);
+        logger.warn(`Result buffer is full, dropped the ${lines.length - kept.length} oldest results`);
+      }
+    });
+  }
+
+  /**
+   * Publish buffered entries oldest first. Stops at the first one that fails and keeps it and the rest for the
+   * next replay. Returns how many were published.
+   */
+  replay(publish: (entry: T) => Promise<void>): Promise<number> {
+    return this.enqueue(async () => {
+      const lines = await this.readLines();
+      let published = 0;
+
+      for (const line of lines) {
+        let entry: T;
+        try {
+          entry = JSON.parse(line) as T;
+        } catch {
+          // A line cut short by a crash while it was written
+          logger.warn('Skipping unreadable buffered result');
+          published++;
+          continue;
+        }
+
+        try {
+          await publish(entry);
+          published++;
+        } catch (error) {
+          logger.warn('Replay of buffered results stopped:', error);
+          break;
+        }
+      }
+
+      await this.writeLines(lines.slice(published));
+      return published;
+    });
+  }
+
+  private enqueue<R>(operation: () => Promise<R>): Promise<R> {
+    const result = this.pending.then(operation);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readLines(): Promise<string[]> {
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf8');
+      return content.split('\n').filter(line => line.length > 0);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async writeLines(lines: string[]): Promise<void> {
+    this.count = lines.length;
+    if (!lines.length) {
+      await fs.promises.rm(this.filePath, { force: true });
+      return;
+    }
+
+    // Write a copy and rename it over the original, so a crash never leaves half a file
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, `${lines.join('\n')}\n`);
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+
+export interface CheckSchedulerStats {
+  scheduled: number; // Jobs with an interval
+  running: number;
+  queued: number; // Due, waiting for a free slot in the pool
+  lagMs: number; // Worst delay between a job being due and starting, since the last call
+}
+
+export interface ScheduleOptions {
+  runImmediately?: boolean; // Run once now instead of waiting for the job's first slot
+}
+
+interface ScheduledJob {
+  id: string;
+  intervalMs: number;
+  phaseMs: number;
+  generation: number;
+  run: () => Promise<void>;
+}
+
+// Entry of the priority queue; stale once its job is rescheduled or removed
+interface QueueEntry {
+  runAt: number;
+  job: ScheduledJob;
+  generation: number;
+}
+
+/**
+ * Runs every job on its own interval from a single timer. Jobs are kept in a min-heap ordered by their next run,
+ * and each one runs at a fixed phase within its interval derived from its id, so jobs sharing an interval are
+ * spread out instead of firing together. At most maxConcurrency jobs run at once; the rest wait in a FIFO queue.
+ */
+export class CheckScheduler {
+  private readonly jobs: Map<string, ScheduledJob> = new Map();
+  private readonly heap: QueueEntry[] = [];
+  private readonly dueQueue: { job: ScheduledJob; dueAt: number }[] = [];
+  private readonly queuedIds: Set<string> = new Set();
+  private readonly runningIds: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private timerAt: number | null = null;
+  private nextGeneration = 0;
+  private maxLagMs = 0;
+
+  constructor(private readonly maxConcurrency: number) {}
+
+  get size(): number {
+    return this.jobs.size;
+  }
+
+  get running(): number {
+    return this.runningIds.size;
+  }
+
+  get queued(): number {
+    return this.dueQueue.length;
+  }
+
+  has(id: string): boolean {
+    return this.jobs.has(id);
+  }
+
+  /**
+   * Add a job or replace the one with the same id
+   */
+  schedule(id: string, intervalMs: number, run: () => Promise<void>, options: ScheduleOptions = {}): void {
+    const job: ScheduledJob = {
+      id,
+      intervalMs: Math.max(1000, Math.round(intervalMs)),
+      phaseMs: 0,
+      generation: ++this.nextGeneration,
+      run,
+    };
+    job.phaseMs = this.getPhase(id, job.intervalMs);
+    this.jobs.set(id, job);
+
+    const now = Date.now();
+    this.push({ runAt: options.runImmediately ? now : this.nextSlot(job, now), job, generation: job.generation });
+    this.armTimer();
+  }
+
+  /**
+   * Queue a job to run now without moving its slots. Returns false when it is unknown, already queued or still running
+   */
+  trigger(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || this.queuedIds.has(id) || this.runningIds.has(id)) return false;
+
+    this.queuedIds.add(id);
+    this.dueQueue.push({ job, dueAt: Date.now() });
+    this.drain();
+    return true;
+  }
+
+  unschedule(id: string): void {
+    // Entries already in the heap or the due queue are skipped once their job is gone
+    this.jobs.delete(id);
+  }
+
+  clear(): void {
+    this.jobs.clear();
+    this.heap.length = 0;
+    this.dueQueue.length = 0;
+    this.queuedIds.clear();
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.timerAt = null;
+  }
+
+  getStats(): CheckSchedulerStats {
+    const now = Date.now();
+    const oldestQueued = this.dueQueue[0];
+    const lagMs = Math.max(this.maxLagMs, oldestQueued ? now - oldestQueued.dueAt : 0);
+    this.maxLagMs = 0;
+
+    return {
+      scheduled: this.jobs.size,
+      running: this.runningIds.size,
+      queued: this.dueQueue.length,
+      lagMs,
+    };
+  }
+
+  private isCurrent(job: ScheduledJob, generation = job.generation): boolean {
+    return this.jobs.get(job.id)?.generation === generation;
+  }
+
+  /**
+   * Spread jobs over their interval by a stable hash of the id, so every worker checks a site at the same moment
+   */
+  private getPhase(id: string, intervalMs: number): number {
+    return crypto.createHash('sha1').update(id).digest().readUInt32BE(0) % intervalMs;
+  }
+
+  // The first slot of the job strictly after the given time, skipping any slots that were missed
+  private nextSlot(job: ScheduledJob, after: number): number {
+    return job.phaseMs + (Math.floor((after - job.phaseMs) / job.intervalMs) + 1) * job.intervalMs;
+  }
+
+  private armTimer(): void {
+    const next = this.heap[0];
+    if (!next) return;
+    if (this.timer && this.timerAt !== null && this.timerAt <= next.runAt) return;
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timerAt = next.runAt;
+    // setTimeout overflows above ~24.8 days, re-arming early is harmless
+    this.timer = setTimeout(() => this.tick(), Math.min(Math.max(0, next.runAt - Date.now()), 2 ** 31 - 1));
+  }
+
+  private tick(): void {
+    this.timer = null;
+    this.timerAt = null;
+    const now = Date.now();
+
+    while (this.heap.length && this.heap[0].runAt <= now) {
+      const entry = this.pop();
+      if (!entry || !this.isCurrent(entry.job, entry.generation)) continue;
+
+      const { job } = entry;
+      this.push({ runAt: this.nextSlot(job, now), job, generation: job.generation });
+
+      // A job that is still queued from its last slot is not queued twice
+      if (this.queuedIds.has(job.id)) continue;
+      this.queuedIds.add(job.id);
+      this.dueQueue.push({ job, dueAt: entry.runAt });
+    }
+
+    this.drain();
+    this.armTimer();
+  }
+
+  private drain(): void {
+    while (this.runningIds.size < this.maxConcurrency && this.dueQueue.length) {
+      const { job, dueAt } = this.dueQueue.shift()!;
+      this.queuedIds.delete(job.id);
+      if (!this.isCurrent(job)) continue;
+
+      // Checks of the same site never overlap; a slow check makes it skip a slot instead
+      if (this.runningIds.has(job.id)) {
+        logger.warn(`Skipping check ${job.id}, the previous one is still running`);
+        continue;
+      }
+
+      const lagMs = Date.now() - dueAt;
+      this.maxLagMs = Math.max(this.maxLagMs, lagMs);
+      metrics.schedulerLag.observe(lagMs / 1000);
+      this.runningIds.add(job.id);
+
+      job.run()
+        .catch((error) => {
+          logger.error(`Scheduled check ${job.id} failed:`, error);
+        })
+        .finally(() => {
+          this.runningIds.delete(job.id);
+          this.drain();
+        });
+    }
+  }
+
+  private push(entry: QueueEntry): void {
+    const heap = this.heap;
+    heap.push(entry);
+
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent].runAt <= heap[index].runAt) break;
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+
+  private pop(): QueueEntry | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (!heap.length || !last) return top;
+
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left].runAt < heap[smallest].runAt) smallest = left;
+      if (right < heap.length && heap[right].runAt < heap[smallest].runAt) smallest = right;
+      if (smallest === index) break;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+
+    return top;
+  }
+}
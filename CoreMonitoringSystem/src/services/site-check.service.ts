@@ -1,11 +1,18 @@
 import https from 'https';
 import http from 'http';
-import { TLSSocket } from 'tls';
+import tls, { TLSSocket, DetailedPeerCertificate } from 'tls';
+import crypto, { constants as cryptoConstants } from 'crypto';
 import { URL } from 'url';
 import ping from 'ping';
 import dns from 'dns';
+import http2 from 'http2';
 import { promisify } from 'util';
 import net from 'net';
+import os from 'os';
+import { performance } from 'perf_hooks';
+import { ProtocolSession } from '../utils/protocol-session';
+import { connectToProxy, getProxyAuthorization, isHttpProxy, openProxyTunnel } from '../utils/proxy';
+import { HtmlContent, normalizeHtml } from '../utils/html-content';
 
 export interface SiteCheckPingResult {
   isUp: boolean;
@@ -21,27 +28,310 @@ export interface SiteCheckSslResult {
   daysUntilExpiry: number;
 }
 
+export interface SiteCheckTlsCertificate {
+  subject: string;
+  issuer: string;
+  validFrom: Date;
+  validTo: Date;
+  daysUntilExpiry: number;
+  isExpired: boolean;
+  fingerprint256: string;
+}
+
+export interface SiteCheckTlsResult {
+  isTrusted: boolean;
+  trustError?: string; // e.g. "Self-signed certificate (DEPTH_ZERO_SELF_SIGNED_CERT)"
+  hostnameMatches: boolean;
+  hostnameError?: string;
+  subjectAltNames: string[];
+  chain: SiteCheckTlsCertificate[]; // Leaf certificate first
+  protocol: string | null;
+  cipher: string | null;
+  ocspStapled: boolean;
+  responseTime: number;
+  error?: string;
+}
+
+export type SiteCheckDnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SOA' | 'CAA';
+
 export interface SiteCheckDnsResult {
   isResolved: boolean;
   addresses: string[];
+  ipv6Addresses?: string[];
   error?: string;
   nameservers?: string[];
+  records?: Partial<Record<SiteCheckDnsRecordType, string[]>>; // Normalized and sorted, empty when the type has no records
+  recordErrors?: Partial<Record<SiteCheckDnsRecordType, string>>; // Lookups that failed, e.g. on a timeout
+  resolvers?: SiteCheckDnsResolverResult[]; // Answers of the site's own nameservers, compared with the system resolver
+  responseTime: number;
+}
+
+export interface SiteCheckDnsResolverResult {
+  resolver: string; // IP, optionally with a port
+  records: Partial<Record<SiteCheckDnsRecordType, string[]>>; // A and AAAA plus the watched types, sorted
+  recordErrors: Partial<Record<SiteCheckDnsRecordType, string>>;
+  mismatches: SiteCheckDnsRecordType[]; // Types this nameserver answers differently than the system resolver
   responseTime: number;
 }
 
+export interface SiteCheckTcpPort {
+  port: number;
+  label?: string | null; // e.g. "SSH" or "MySQL"
+  send?: string | null; // Written after connecting, \r \n and \t escapes are unescaped
+  expect?: string | null; // The port is only up when the response contains this
+}
+
 export interface SiteCheckTcpResult {
   isConnected: boolean;
   port: number;
+  label?: string;
   responseTime: number;
+  banner?: string; // What the service sent back, when a send or expect string is configured
+  expectMatched?: boolean;
   error?: string;
 }
 
+export type SiteCheckAddressFamily = 4 | 6;
+
+export interface SiteCheckAddressFamilyResult {
+  family: SiteCheckAddressFamily;
+  isAvailable: boolean; // The host has at least one address of this family
+  httpCheck: SiteCheckHttpResult | null;
+  tcpChecks: SiteCheckTcpResult[];
+}
+
+export interface SiteCheckHttpTimings {
+  dnsLookup: number; // 0 when the host is an IP address
+  tcpConnect: number;
+  tlsHandshake: number | null; // null for plain HTTP
+  timeToFirstByte: number; // From the request being sent to the response headers arriving
+  contentTransfer: number | null; // null when the body was not read to the end
+  total: number;
+}
+
 export interface SiteCheckHttpResult {
   isUp: boolean;
   status: number;
   responseTime: number;
+  timings?: SiteCheckHttpTimings; // Phases of the final request, after any redirects
   headers?: Record<string, string>;
   ssl?: SiteCheckSslResult;
+  error?: string;
+  redirectChain?: SiteCheckRedirectHop[];
+  jsonAssertions?: SiteCheckJsonAssertionResult[];
+  content?: HtmlContent; // Normalized body of an accepted response, when content change detection is on
+  bodyTruncated?: boolean; // Only the first maxResponseBodyBytes were read for content rules, assertions and hashing
+}
+
+export interface SiteCheckRedirectHop {
+  url: string;
+  status: number;
+  location?: string;
+  responseTime: number;
+}
+
+export interface SiteCheckRedirectResult {
+  finalUrl: string;
+  redirectCount: number;
+  isLoop: boolean;
+  hasHttpsDowngrade: boolean;
+  httpsEnforced: boolean | null; // null when plain HTTP could not be reached
+}
+
+export type SiteCheckSecuritySeverity = 'high' | 'medium' | 'low';
+
+export interface SiteCheckSecurityFinding {
+  id: string; // Stable for the same problem across checks, e.g. hsts-missing or cookie-not-secure:session
+  category: 'https' | 'hsts' | 'csp' | 'framing' | 'content-type' | 'referrer' | 'cookies' | 'disclosure';
+  severity: SiteCheckSecuritySeverity;
+  message: string;
+}
+
+export interface SiteCheckSecurityAudit {
+  score: number; // 0-100, points are taken off per finding by severity
+  grade: 'A' | 'B' | 'C' | 'D' | 'F';
+  findings: SiteCheckSecurityFinding[];
+  headers: Record<string, string | null>; // Audited headers of the final response, null when missing
+}
+
+// Opt-in content change detection: parts of the page that change on their own are left out before hashing
+export interface SiteCheckContentChange {
+  ignoreSelectors?: string[];
+  ignorePatterns?: string[];
+}
+
+export interface SiteCheckContentRules {
+  mustContain?: string[];
+  mustNotContain?: string[];
+  regex?: string | null;
+  maxBytes?: number | null;
+}
+
+export type SiteCheckJsonOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'exists'
+  | 'notExists'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'lengthEquals'
+  | 'lengthGreaterThan'
+  | 'lengthLessThan';
+
+export interface SiteCheckJsonAssertion {
+  path: string; // JSONPath-style, e.g. $.checks[0].status
+  operator: SiteCheckJsonOperator;
+  value?: string | number | boolean | null;
+}
+
+export interface SiteCheckJsonAssertionResult extends SiteCheckJsonAssertion {
+  passed: boolean;
+  actual?: unknown;
+  error?: string;
+}
+
+export type SiteCheckHttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+export interface SiteCheckHttpRequest {
+  method: SiteCheckHttpMethod;
+  headers?: Record<string, string> | null;
+  body?: string | null;
+  acceptedStatusCodes?: string[]; // e.g. ["200-299", "301"]
+  followRedirects?: boolean;
+  maxRedirects?: number;
+}
+
+export type SiteCheckTransactionExtractionSource = 'header' | 'body' | 'json';
+
+export interface SiteCheckTransactionExtraction {
+  name: string; // Used as {{name}} in the URL, headers and body of later steps
+  source: SiteCheckTransactionExtractionSource;
+  header?: string | null; // Response header to read when source is header
+  expression?: string | null; // Regex (first capture group wins) for header/body, JSONPath for json
+}
+
+export interface SiteCheckTransactionStep {
+  name: string;
+  url: string; // Absolute, or relative to the site URL
+  method: SiteCheckHttpMethod;
+  headers?: Record<string, string> | null;
+  body?: string | null;
+  acceptedStatusCodes?: string[];
+  followRedirects?: boolean;
+  contentRules?: SiteCheckContentRules;
+  jsonAssertions?: SiteCheckJsonAssertion[];
+  extract?: SiteCheckTransactionExtraction[];
+}
+
+export interface SiteCheckTransactionStepResult {
+  name: string;
+  url: string; // After variables were substituted and redirects followed
+  method: SiteCheckHttpMethod;
+  passed: boolean;
+  status: number;
+  responseTime: number; // Including any redirects
+  timings?: SiteCheckHttpTimings;
+  error?: string;
+  jsonAssertions?: SiteCheckJsonAssertionResult[];
+  extracted?: string[]; // Names of the variables set by this step, values are not reported
+  bodyTruncated?: boolean; // Only the first maxResponseBodyBytes were read
+}
+
+export interface SiteCheckTransactionResult {
+  isUp: boolean;
+  responseTime: number;
+  failedStep: number | null; // Index of the step that failed, later steps are not run
+  error?: string;
+  steps: SiteCheckTransactionStepResult[];
+}
+
+export type SiteCheckProtocol = 'smtp' | 'imap' | 'pop3' | 'postgres' | 'mysql' | 'redis' | 'websocket' | 'grpc';
+
+export interface SiteCheckWebSocketMessage {
+  send?: string | null; // Sent as a text message once the connection is upgraded
+  expect?: string | null; // A reply must contain this; without it, any reply to the sent message will do
+  timeout?: number | null; // ms to wait for the reply, the check timeout when not set
+}
+
+export type SiteCheckGrpcServingStatus = 'UNKNOWN' | 'SERVING' | 'NOT_SERVING' | 'SERVICE_UNKNOWN';
+
+export interface SiteCheckProtocolTimings {
+  connect: number; // TCP connect
+  tlsHandshake: number | null; // Implicit TLS or STARTTLS, null without TLS
+  handshake: number; // The protocol exchange after connecting, excluding the TLS handshake
+}
+
+interface SiteCheckProtocolResultBase {
+  isUp: boolean;
+  host: string;
+  port: number;
+  tls: boolean; // Implicit TLS, or upgraded with STARTTLS
+  responseTime: number; // Whole session
+  timings: SiteCheckProtocolTimings | null; // null when the connection failed
+  error?: string;
+}
+
+export interface SiteCheckSmtpResult extends SiteCheckProtocolResultBase {
+  protocol: 'smtp';
+  greeting?: string;
+  extensions?: string[]; // EHLO keywords, e.g. STARTTLS, SIZE, AUTH
+  startTlsOffered?: boolean;
+}
+
+export interface SiteCheckMailboxResult extends SiteCheckProtocolResultBase {
+  protocol: 'imap' | 'pop3';
+  greeting?: string;
+}
+
+export interface SiteCheckDatabaseResult extends SiteCheckProtocolResultBase {
+  protocol: 'postgres' | 'mysql';
+  serverVersion?: string; // Sent in the MySQL handshake, Postgres only reports it after authentication
+  authMethod?: string; // What the server asked the client to authenticate with
+}
+
+export interface SiteCheckRedisResult extends SiteCheckProtocolResultBase {
+  protocol: 'redis';
+  authenticated: boolean; // AUTH was sent with the credentials from the URL
+}
+
+export interface SiteCheckWebSocketResult extends SiteCheckProtocolResultBase {
+  protocol: 'websocket';
+  status?: number; // HTTP status of the upgrade response, 101 when it was accepted
+  reply?: string; // Messages received after sending, truncated
+  replyTime?: number; // ms from sending (or upgrading) until the expected reply
+  expectMatched?: boolean;
+}
+
+export interface SiteCheckGrpcResult extends SiteCheckProtocolResultBase {
+  protocol: 'grpc';
+  service: string; // Empty for the server as a whole
+  servingStatus?: SiteCheckGrpcServingStatus;
+  grpcStatus?: number; // 0 when the call succeeded
+}
+
+export type SiteCheckProtocolResult =
+  | SiteCheckSmtpResult
+  | SiteCheckMailboxResult
+  | SiteCheckDatabaseResult
+  | SiteCheckRedisResult
+  | SiteCheckWebSocketResult
+  | SiteCheckGrpcResult;
+
+export interface SiteCheckOptions {
+  protocol?: SiteCheckProtocol; // Checks the service behind the URL instead of HTTP
+  websocket?: SiteCheckWebSocketMessage; // Message exchange of WebSocket monitors
+  grpcService?: string | null; // Service name for the gRPC health check, the whole server when empty
+  proxy?: string | null; // http://, https:// or socks5:// URL that HTTP requests and the TLS check go through
+  dnsResolvers?: string[]; // Nameserver IPs whose answers are compared with the system resolver's
+  tcpPorts?: SiteCheckTcpPort[];
+  httpRequest?: SiteCheckHttpRequest;
+  contentRules?: SiteCheckContentRules;
+  jsonAssertions?: SiteCheckJsonAssertion[];
+  contentChange?: SiteCheckContentChange | null; // Off when null
+  dnsRecordTypes?: SiteCheckDnsRecordType[];
+  transactionSteps?: SiteCheckTransactionStep[];
 }
 
 export interface SiteMonitorResult {
@@ -53,59 +343,205 @@ export interface SiteMonitorResult {
   tcpChecks: SiteCheckTcpResult[];
   pingCheck: SiteCheckPingResult;
   httpCheck: SiteCheckHttpResult;
+  redirectCheck: SiteCheckRedirectResult;
+  tlsCheck: SiteCheckTlsResult | null; // null for plain HTTP sites
+  ipv4Check: SiteCheckAddressFamilyResult;
+  ipv6Check: SiteCheckAddressFamilyResult;
+  transactionCheck: SiteCheckTransactionResult | null; // null unless the site is a transaction monitor
+  protocolCheck: SiteCheckProtocolResult | null; // null unless the site is a protocol monitor
+  securityAudit: SiteCheckSecurityAudit | null; // null when no HTTP response was received
+  attempts: number; // Checks run before reporting, more than 1 when a failure was re-checked
+  attemptErrors: string[]; // Why each failed attempt was down, in order
+}
+
+// performance.now() timestamps of a single HTTP request, filled in as its socket progresses
+interface HttpTimingMarks {
+  start: number;
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+  response?: number;
+  end?: number | null;
+}
+
+// Overrides of the request options that send a request through a proxy
+interface ProxyRequestOptions {
+  agent: undefined; // A request only uses createConnection without an agent
+  path: string;
+  headers: Record<string, string>;
+  createConnection: (options: unknown, callback: (error: Error | null, socket?: net.Socket) => void) => undefined;
+}
+
+// What is sent to the next URL of a redirect chain
+interface RedirectRequest<THeaders, TBody> {
+  method: SiteCheckHttpMethod;
+  headers: THeaders;
+  body: TBody;
+}
+
+// The system resolver (dns.promises) or one bound to a site's own nameserver
+type DnsRecordResolver = Pick<
+  dns.promises.Resolver,
+  'resolve4' | 'resolve6' | 'resolveCname' | 'resolveMx' | 'resolveTxt' | 'resolveSoa' | 'resolveCaa'
+>;
+
+// A cookie set during a transaction, sent back on later steps like a browser would
+interface TransactionCookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean; // Set without a Domain attribute, so only sent to the exact host
+  path: string;
+  secure: boolean;
+  expiresAt: number | null;
 }
 
 export class SiteCheckService {
   private readonly timeout: number;
   private readonly workerId: string;
   private readonly dnsResolve4 = promisify(dns.resolve4);
+  private readonly dnsResolve6 = promisify(dns.resolve6);
   private readonly dnsResolveNs = promisify(dns.resolveNs);
-  private readonly defaultPorts = [80, 443]; // Default ports to check
+  private readonly dnsResolverTimeout = 3000; // ms per try against a site's own nameservers
+  private readonly defaultPorts: SiteCheckTcpPort[] = [{ port: 80 }, { port: 443 }]; // Default ports to check
+  private readonly maxTcpBannerBytes = 512;
+  private readonly defaultAcceptedStatusCodes = ['200-399'];
+  private readonly defaultMaxRedirects = 10;
+  private readonly safeHttpMethods: SiteCheckHttpMethod[] = ['GET', 'HEAD', 'OPTIONS'];
+  private readonly credentialHeaders = ['authorization', 'proxy-authorization', 'cookie']; // Not sent to another origin
+  private readonly bodyHeaders = ['content-type', 'content-length', 'content-encoding']; // Dropped with the body
+  private readonly maxContentTextLength = 64 * 1024; // Characters of normalized text sent for content change detection
+  private readonly maxResponseBodyBytes = 5 * 1024 * 1024; // Read limit when the site sets no contentMaxBytes
+  private readonly protocolPorts: Record<string, number> = {
+    smtp: 25,
+    smtps: 465,
+    imap: 143,
+    imaps: 993,
+    pop3: 110,
+    pop3s: 995,
+    postgres: 5432,
+    postgresql: 5432,
+    mysql: 3306,
+    redis: 6379,
+    rediss: 6379,
+    ws: 80,
+    wss: 443,
+    grpc: 80,
+    grpcs: 443,
+  };
+  // Schemes that connect with TLS right away instead of upgrading with STARTTLS
+  private readonly implicitTlsSchemes = ['smtps', 'imaps', 'pop3s', 'rediss', 'wss', 'grpcs'];
+  private readonly maxWebSocketReplyBytes = 64 * 1024;
+  // Values of grpc.health.v1.HealthCheckResponse.ServingStatus
+  private readonly grpcServingStatuses: SiteCheckGrpcServingStatus[] = ['UNKNOWN', 'SERVING', 'NOT_SERVING', 'SERVICE_UNKNOWN'];
+  // Postgres errors that mean the server cannot take connections, as opposed to refusing this client
+  private readonly postgresUnavailableClasses = ['53', '57', '58'];
+  private readonly securityPenalties: Record<SiteCheckSecuritySeverity, number> = { high: 20, medium: 10, low: 5 };
+  private readonly auditedSecurityHeaders = [
+    'strict-transport-security',
+    'content-security-policy',
+    'content-security-policy-report-only',
+    'x-frame-options',
+    'x-content-type-options',
+    'referrer-policy',
+    'server',
+    'x-powered-by',
+  ];
+  private readonly minHstsMaxAge = 180 * 24 * 60 * 60; // s
+  private readonly hstsPreloadMaxAge = 365 * 24 * 60 * 60; // s, required by the preload list
+  private readonly confirmationBackoff = 1000; // ms before the first re-check of a failure, doubled for each next one
+  private readonly maxConfirmationBackoff = 5000;
 
   constructor(workerId: string, timeoutMs = 30000) {
     this.timeout = timeoutMs;
     this.workerId = workerId;
   }
 
-  async performTcpCheck(host: string, port: number): Promise<SiteCheckTcpResult> {
+  async performTcpCheck(
+    host: string,
+    port: number,
+    family?: SiteCheckAddressFamily,
+    probe: Omit<SiteCheckTcpPort, 'port'> = {}
+  ): Promise<SiteCheckTcpResult> {
     return new Promise((resolve) => {
       const startTime = Date.now();
       const socket = new net.Socket();
+      const label = probe.label || undefined;
+      const expect = probe.expect ? this.unescapeTcpProbe(probe.expect) : null;
+      const readsBanner = !!(probe.send || expect);
+      let connectTime: number | null = null;
+      let received = '';
       let isResolved = false;
 
-      // Set timeout
-      socket.setTimeout(this.timeout);
-
-      socket.on('connect', () => {
+      const finish = (result: Omit<SiteCheckTcpResult, 'port' | 'label'>): void => {
         if (isResolved) return;
         isResolved = true;
         socket.destroy();
-        resolve({
+        resolve({ port, ...(label ? { label } : {}), ...result });
+      };
+
+      // Once connected, the outcome depends only on what the service sent back
+      const finishBanner = (): void => {
+        const banner = this.formatTcpBanner(received);
+        const expectMatched = expect === null ? undefined : received.includes(expect);
+
+        finish({
           isConnected: true,
-          port,
-          responseTime: Date.now() - startTime
+          responseTime: connectTime ?? Date.now() - startTime,
+          banner,
+          ...(expectMatched === undefined ? {} : { expectMatched }),
+          ...(expectMatched === false ? {
+            error: banner ? `Expected "${probe.expect}" but received "${banner}"` : `Expected "${probe.expect}" but received nothing`
+          } : {})
         });
+      };
+
+      // Set timeout
+      socket.setTimeout(this.timeout);
+
+      socket.on('connect', () => {
+        if (isResolved) return;
+        connectTime = Date.now() - startTime;
+
+        if (!readsBanner) {
+          finish({ isConnected: true, responseTime: connectTime });
+          return;
+        }
+
+        if (probe.send) {
+          socket.write(this.unescapeTcpProbe(probe.send));
+        }
+      });
+
+      socket.on('data', (chunk: Buffer) => {
+        received += chunk.toString('utf8');
+
+        // Without an expected string the first response is all we need
+        if (expect === null || received.includes(expect) || received.length > this.maxTcpBannerBytes) {
+          finishBanner();
+        }
+      });
+
+      socket.on('end', () => {
+        if (connectTime !== null) finishBanner();
       });
 
       socket.on('timeout', () => {
-        if (isResolved) return;
-        isResolved = true;
-        socket.destroy();
-        resolve({
+        if (connectTime !== null) {
+          finishBanner();
+          return;
+        }
+
+        finish({
           isConnected: false,
-          port,
           responseTime: Date.now() - startTime,
           error: 'Connection timed out'
         });
       });
 
       socket.on('error', (error) => {
-        if (isResolved) return;
-        isResolved = true;
-        socket.destroy();
-        resolve({
+        finish({
           isConnected: false,
-          port,
           responseTime: Date.now() - startTime,
           error: error.message
         });
@@ -114,56 +550,202 @@ export class SiteCheckService {
       // Attempt connection
       socket.connect({
         host,
-        port
+        port,
+        family
       });
     });
   }
 
-  async performTcpChecks(urlString: string, ports?: number[]): Promise<SiteCheckTcpResult[]> {
+  async performTcpChecks(urlString: string, ports?: SiteCheckTcpPort[], family?: SiteCheckAddressFamily): Promise<SiteCheckTcpResult[]> {
     const url = new URL(urlString);
-    const portsToCheck = ports || this.defaultPorts;
+    const portsToCheck = ports?.length ? ports : this.defaultPorts;
     
     try {
       return await Promise.all(
-        portsToCheck.map(port => this.performTcpCheck(url.hostname, port))
+        portsToCheck.map(({ port, ...probe }) => this.performTcpCheck(url.hostname, port, family, probe))
       );
     } catch (error) {
       // This shouldn't happen as performTcpCheck always resolves, but just in case
-      return portsToCheck.map(port => ({
+      return portsToCheck.map(({ port, label }) => ({
         isConnected: false,
         port,
+        ...(label ? { label } : {}),
         responseTime: 0,
         error: error instanceof Error ? error.message : 'TCP check failed'
       }));
     }
   }
 
-  async performDnsCheck(urlString: string): Promise<SiteCheckDnsResult> {
+  /**
+   * Turn the \r, \n and \t escapes users type into a probe string into the real characters
+   */
+  private unescapeTcpProbe(value: string): string {
+    return value.replace(/\\([rnt\\])/g, (_, char: string) => ({ r: '\r', n: '\n', t: '\t' }[char] ?? '\\'));
+  }
+
+  private formatTcpBanner(received: string): string {
+    return received.replace(/[^\x20-\x7e\t\r\n]/g, '').trim().slice(0, this.maxTcpBannerBytes);
+  }
+
+  async performDnsCheck(urlString: string, recordTypes: SiteCheckDnsRecordType[] = [], resolvers: string[] = []): Promise<SiteCheckDnsResult> {
     const url = new URL(urlString);
     const startTime = Date.now();
-    
+    const resolverLookups = Promise.all(resolvers.map(resolver => this.resolveWithNameserver(url.hostname, resolver, recordTypes)));
+
     try {
-      const [addresses, nameservers] = await Promise.all([
-        this.dnsResolve4(url.hostname),
-        this.dnsResolveNs(url.hostname).catch(() => [] as string[])
+      // IPv6-only hosts have no A records, so only fail when neither family resolves
+      const [ipv4Result, ipv6Result, nameservers, recordResults] = await Promise.all([
+        this.dnsResolve4(url.hostname).then(addresses => ({ addresses }), (error: Error) => ({ addresses: [] as string[], error })),
+        this.dnsResolve6(url.hostname).catch(() => [] as string[]),
+        this.dnsResolveNs(url.hostname).catch(() => [] as string[]),
+        Promise.all(recordTypes.map(type => this.resolveDnsRecords(url.hostname, type)))
       ]);
 
-      return {
-        isResolved: addresses.length > 0,
-        addresses,
+      if (!ipv4Result.addresses.length && !ipv6Result.length) {
+        throw 'error' in ipv4Result ? ipv4Result.error : new Error('No A or AAAA records found');
+      }
+
+      const records: SiteCheckDnsResult['records'] = {};
+      const recordErrors: SiteCheckDnsResult['recordErrors'] = {};
+      recordResults.forEach(({ type, values, error }) => {
+        if (error) {
+          recordErrors[type] = error;
+        } else {
+          records[type] = values;
+        }
+      });
+
+      const result: SiteCheckDnsResult = {
+        isResolved: true,
+        addresses: ipv4Result.addresses,
+        ipv6Addresses: ipv6Result,
         nameservers: nameservers,
+        ...(recordTypes.length ? { records, recordErrors } : {}),
         responseTime: Date.now() - startTime
       };
+      return resolvers.length ? { ...result, resolvers: this.compareResolvers(result, await resolverLookups) } : result;
     } catch (error) {
+      const responseTime = Date.now() - startTime;
       return {
         isResolved: false,
         addresses: [],
+        ipv6Addresses: [],
         error: error instanceof Error ? error.message : 'DNS resolution failed',
-        responseTime: Date.now() - startTime
+        // Nothing to compare with, but the nameservers' answers still show whether the name resolves elsewhere
+        ...(resolvers.length ? { resolvers: await resolverLookups } : {}),
+        responseTime
       };
     }
   }
 
+  /**
+   * Resolve A, AAAA and the watched record types against one nameserver, e.g. the authoritative one for the zone
+   */
+  private async resolveWithNameserver(
+    hostname: string,
+    nameserver: string,
+    recordTypes: SiteCheckDnsRecordType[]
+  ): Promise<SiteCheckDnsResolverResult> {
+    const startTime = Date.now();
+    const types = [...new Set<SiteCheckDnsRecordType>(['A', 'AAAA', ...recordTypes])];
+    const records: SiteCheckDnsResolverResult['records'] = {};
+    const recordErrors: SiteCheckDnsResolverResult['recordErrors'] = {};
+
+    try {
+      const resolver = new dns.promises.Resolver({ timeout: this.dnsResolverTimeout, tries: 2 });
+      resolver.setServers([nameserver]);
+
+      const results = await Promise.all(types.map(type => this.resolveDnsRecords(hostname, type, resolver)));
+      results.forEach(({ type, values, error }) => {
+        if (error) {
+          recordErrors[type] = error;
+        } else {
+          records[type] = values;
+        }
+      });
+    } catch (error) {
+      // An invalid address, the lookups themselves never throw
+      types.forEach(type => {
+        recordErrors[type] = error instanceof Error ? error.message : 'DNS lookup failed';
+      });
+    }
+
+    return { resolver: nameserver, records, recordErrors, mismatches: [], responseTime: Date.now() - startTime };
+  }
+
+  /**
+   * Mark the record types each nameserver answers differently than the system resolver. Failed lookups on either
+   * side are not compared, so a timeout is not reported as a disagreement.
+   */
+  private compareResolvers(system: SiteCheckDnsResult, resolvers: SiteCheckDnsResolverResult[]): SiteCheckDnsResolverResult[] {
+    const systemRecords: SiteCheckDnsResolverResult['records'] = {
+      ...system.records,
+      A: [...system.addresses].sort(),
+      AAAA: [...(system.ipv6Addresses || [])].sort(),
+    };
+
+    return resolvers.map(result => ({
+      ...result,
+      mismatches: (Object.keys(result.records) as SiteCheckDnsRecordType[]).filter(type => {
+        const expected = systemRecords[type];
+        return !!expected && !system.recordErrors?.[type] && expected.join('\n') !== result.records[type]?.join('\n');
+      }),
+    }));
+  }
+
+  /**
+   * Resolve one record type into sorted, comparable strings. A missing record set resolves to an empty
+   * list, while other failures are returned as an error so a flaky resolver is not mistaken for a change.
+   */
+  private async resolveDnsRecords(
+    hostname: string,
+    type: SiteCheckDnsRecordType,
+    resolver: DnsRecordResolver = dns.promises
+  ): Promise<{ type: SiteCheckDnsRecordType; values: string[]; error?: string }> {
+    try {
+      let values: string[];
+
+      switch (type) {
+        case 'A':
+          values = await resolver.resolve4(hostname);
+          break;
+        case 'AAAA':
+          values = await resolver.resolve6(hostname);
+          break;
+        case 'CNAME':
+          values = await resolver.resolveCname(hostname);
+          break;
+        case 'MX':
+          values = (await resolver.resolveMx(hostname)).map(record => `${record.priority} ${record.exchange}`);
+          break;
+        case 'TXT':
+          values = (await resolver.resolveTxt(hostname)).map(chunks => chunks.join(''));
+          break;
+        case 'SOA': {
+          const soa = await resolver.resolveSoa(hostname);
+          values = [`${soa.nsname} ${soa.hostmaster} ${soa.serial} ${soa.refresh} ${soa.retry} ${soa.expire} ${soa.minttl}`];
+          break;
+        }
+        case 'CAA':
+          values = (await resolver.resolveCaa(hostname)).map(record => {
+            const [tag, value] = Object.entries(record).find(([key]) => key !== 'critical') || ['', ''];
+            return `${record.critical} ${tag} "${value}"`;
+          });
+          break;
+        default:
+          return { type, values: [], error: `Unsupported record type ${type}` };
+      }
+
+      return { type, values: values.sort() };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === dns.NODATA || code === dns.NOTFOUND) {
+        return { type, values: [] };
+      }
+      return { type, values: [], error: error instanceof Error ? error.message : 'DNS lookup failed' };
+    }
+  }
+
   async performPing(urlString: string): Promise<SiteCheckPingResult> {
     const url = new URL(urlString);
     
@@ -183,47 +765,243 @@ export class SiteCheckService {
     }
   }
 
-  async performHttpCheck(urlString: string, method: 'GET' | 'HEAD'): Promise<SiteCheckHttpResult> {
-    return new Promise((resolve, reject) => {
-      const startTime = Date.now();
+  async performHttpCheck(
+    urlString: string,
+    request: SiteCheckHttpRequest = { method: 'GET' },
+    contentRules?: SiteCheckContentRules,
+    jsonAssertions?: SiteCheckJsonAssertion[],
+    family?: SiteCheckAddressFamily,
+    proxy?: string | null,
+    contentChange?: SiteCheckContentChange | null
+  ): Promise<SiteCheckHttpResult> {
+    const startTime = Date.now();
+    const maxRedirects = request.maxRedirects ?? this.defaultMaxRedirects;
+    const redirectChain: SiteCheckRedirectHop[] = [];
+    const visitedUrls = new Set<string>();
+    let currentUrl = new URL(urlString).toString();
+    let method = request.method;
+    let headers = request.headers;
+    let body = request.body;
+
+    for (;;) {
+      const hopStart = Date.now();
+      const timingMarks: HttpTimingMarks = { start: performance.now() };
+      let res: http.IncomingMessage;
+      try {
+        res = await this.sendHttpRequest(currentUrl, method, headers, body, family, timingMarks, proxy);
+      } catch (error) {
+        if (!redirectChain.length) throw error;
+        // Keep the hops that were followed before the failing redirect target
+        return {
+          isUp: false,
+          status: 0,
+          responseTime: Date.now() - startTime,
+          error: `Redirect to ${currentUrl} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          redirectChain,
+        };
+      }
+      const location = this.isRedirect(res.statusCode) ? res.headers.location : undefined;
+
+      visitedUrls.add(currentUrl);
+      redirectChain.push({
+        url: currentUrl,
+        status: res.statusCode || 0,
+        location,
+        responseTime: Date.now() - hopStart,
+      });
+
+      if (!request.followRedirects || !location) {
+        return this.buildHttpResult(res, method, request, contentRules, jsonAssertions, startTime, redirectChain, timingMarks, contentChange);
+      }
+
+      // Consume the redirect body to free up the socket
+      res.resume();
 
+      const nextUrl = new URL(location, currentUrl).toString();
+      const failure = visitedUrls.has(nextUrl)
+        ? `Redirect loop detected at ${nextUrl}`
+        : redirectChain.length > maxRedirects
+          ? `Too many redirects (more than ${maxRedirects})`
+          : undefined;
+
+      if (failure) {
+        return {
+          isUp: false,
+          status: res.statusCode || 0,
+          responseTime: Date.now() - startTime,
+          headers: res.headers as Record<string, string>,
+          error: failure,
+          redirectChain,
+        };
+      }
+
+      ({ method, headers, body } = this.getRedirectRequest(res.statusCode, currentUrl, nextUrl, { method, headers, body }));
+      currentUrl = nextUrl;
+    }
+  }
+
+  /**
+   * The request sent to a redirect target. Like HTTP clients, a 301, 302 or 303 is followed with a GET without a
+   * body, and credentials set for the site are not sent on to another origin.
+   */
+  private getRedirectRequest<T extends Record<string, string> | null | undefined, B extends string | null | undefined>(
+    statusCode: number | undefined,
+    fromUrl: string,
+    toUrl: string,
+    request: RedirectRequest<T, B>
+  ): RedirectRequest<T, B | undefined> {
+    const switchesToGet = [301, 302, 303].includes(statusCode || 0) && request.method !== 'GET' && request.method !== 'HEAD';
+    const changesOrigin = new URL(fromUrl).origin !== new URL(toUrl).origin;
+    if (!switchesToGet && !changesOrigin) return request;
+
+    const droppedHeaders = [
+      ...(switchesToGet ? this.bodyHeaders : []),
+      ...(changesOrigin ? this.credentialHeaders : []),
+    ];
+    const headers = (request.headers
+      ? Object.fromEntries(Object.entries(request.headers).filter(([name]) => !droppedHeaders.includes(name.toLowerCase())))
+      : request.headers) as T;
+
+    return switchesToGet ? { method: 'GET', headers, body: undefined } : { ...request, headers };
+  }
+
+  /**
+   * Evaluate the final response of an HTTP check against the accepted statuses, content rules and JSON assertions
+   */
+  private async buildHttpResult(
+    res: http.IncomingMessage,
+    method: SiteCheckHttpMethod,
+    request: SiteCheckHttpRequest,
+    contentRules: SiteCheckContentRules | undefined,
+    jsonAssertions: SiteCheckJsonAssertion[] | undefined,
+    startTime: number,
+    redirectChain: SiteCheckRedirectHop[],
+    timingMarks: HttpTimingMarks,
+    contentChange?: SiteCheckContentChange | null
+  ): Promise<SiteCheckHttpResult> {
+    const status = res.statusCode || 0;
+    const isUp = this.isAcceptedStatus(status, request.acceptedStatusCodes);
+
+    // Get SSL certificate info if available
+    const ssl = res.socket instanceof TLSSocket && 'getPeerCertificate' in res.socket
+      ? this.getSSLInfo(res.socket as TLSSocket)
+      : undefined;
+
+    const result: SiteCheckHttpResult = {
+      isUp,
+      status,
+      responseTime: Date.now() - startTime,
+      headers: res.headers as Record<string, string>,
+      ssl,
+      error: isUp ? undefined : `Unexpected HTTP status ${status}`,
+      redirectChain,
+    };
+
+    if (method === 'HEAD' || !isUp || (!this.hasContentRules(contentRules) && !jsonAssertions?.length && !contentChange)) {
+      // Consume response data to free up memory, reading to the end to time the transfer
+      timingMarks.end = await this.drainBody(res);
+      return { ...result, timings: this.getHttpTimings(timingMarks) };
+    }
+
+    const { body: responseBody, exceededMaxBytes, truncated } = await this.readBody(res, contentRules?.maxBytes);
+    if (exceededMaxBytes) {
+      return {
+        ...result,
+        isUp: false,
+        error: `Response body exceeds ${contentRules?.maxBytes} bytes`,
+        timings: this.getHttpTimings(timingMarks),
+      };
+    }
+
+    timingMarks.end = truncated ? null : performance.now();
+    result.timings = this.getHttpTimings(timingMarks);
+    if (truncated) result.bodyTruncated = true;
+
+    if (contentChange) {
+      result.content = normalizeHtml(responseBody, { ...contentChange, maxLength: this.maxContentTextLength });
+    }
+
+    const contentFailure = this.hasContentRules(contentRules)
+      ? this.evaluateContentRules(responseBody, contentRules)
+      : undefined;
+    if (contentFailure) {
+      return { ...result, isUp: false, error: contentFailure };
+    }
+
+    if (!jsonAssertions?.length) {
+      return result;
+    }
+
+    // A cut off JSON document does not parse, so say why instead of reporting a syntax error
+    if (truncated) {
+      return { ...result, isUp: false, error: `Response body exceeds ${this.maxResponseBodyBytes} bytes, too large for JSON assertions` };
+    }
+
+    const assertionResults = this.evaluateJsonAssertions(responseBody, jsonAssertions);
+    const failed = assertionResults.find(assertion => !assertion.passed);
+
+    return {
+      ...result,
+      isUp: !failed,
+      error: failed ? `JSON assertion failed: ${failed.error}` : undefined,
+      jsonAssertions: assertionResults,
+    };
+  }
+
+  /**
+   * Send a single HTTP request and resolve once the response headers arrive
+   */
+  private sendHttpRequest(
+    urlString: string,
+    method: SiteCheckHttpMethod,
+    headers?: Record<string, string> | null,
+    body?: string | null,
+    family?: SiteCheckAddressFamily,
+    timingMarks?: HttpTimingMarks,
+    proxy?: string | null
+  ): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
       try {
         const url = new URL(urlString);
         const protocol = url.protocol === 'https:' ? https : http;
+        const requestHeaders: Record<string, string> = { ...headers };
+
+        if (body && !Object.keys(requestHeaders).some(name => name.toLowerCase() === 'content-length')) {
+          requestHeaders['Content-Length'] = Buffer.byteLength(body).toString();
+        }
 
         const options = {
           method,
           hostname: url.hostname,
           port: url.port || (url.protocol === 'https:' ? 443 : 80),
           path: url.pathname + url.search,
+          headers: requestHeaders,
+          family, // Restricts the lookup to A (4) or AAAA (6) records when set
           timeout: this.timeout,
           rejectUnauthorized: false,
           requestCert: true,
           agent: false,
-          secureOptions: require('constants').SSL_OP_NO_SESSION_RESUMPTION_ON_RENEGOTIATION
+          secureOptions: cryptoConstants.SSL_OP_NO_SESSION_RESUMPTION_ON_RENEGOTIATION
         };
 
-        const req = protocol.request(options, (res) => {
-          const headers = res.headers;
-          const isUp = res.statusCode ? res.statusCode !== 404 : false;
-
-          // Get SSL certificate info if available
-          const ssl = res.socket instanceof TLSSocket && 'getPeerCertificate' in res.socket
-            ? this.getSSLInfo(res.socket as TLSSocket)
-            : undefined;
-
-          resolve({
-            isUp,
-            status: res.statusCode || 0,
-            responseTime: Date.now() - startTime,
-            headers: headers as Record<string, string>,
-            ssl,
-          });
+        if (proxy) {
+          Object.assign(options, this.getProxyRequestOptions(url, new URL(proxy), requestHeaders, timingMarks));
+        }
 
-          // Consume response data to free up memory
-          res.resume();
+        const req = protocol.request(options, (res) => {
+          if (timingMarks) timingMarks.response = performance.now();
+          resolve(res);
         });
 
+        // agent is disabled, so every request opens a fresh socket and each phase is observed
+        if (timingMarks) {
+          req.on('socket', (socket: net.Socket) => {
+            socket.once('lookup', () => { timingMarks.lookup = performance.now(); });
+            socket.once('connect', () => { timingMarks.connect = performance.now(); });
+            socket.once('secureConnect', () => { timingMarks.secureConnect = performance.now(); });
+          });
+        }
+
         req.on('error', (error) => {
           reject(error);
         });
@@ -234,6 +1012,9 @@ export class SiteCheckService {
           reject(new Error('Request timed out'));
         });
 
+        if (body) {
+          req.write(body);
+        }
         req.end();
 
       } catch (error) {
@@ -242,36 +1023,1001 @@ export class SiteCheckService {
     });
   }
 
-  private getSSLInfo(socket: TLSSocket): SiteCheckSslResult | undefined {
-    const cert = socket.getPeerCertificate(true);
-    if (!cert) return undefined;
+  /**
+   * Request options that send a request through a proxy. Plain HTTP goes to an HTTP proxy as an absolute-form
+   * request; HTTPS, and anything through a SOCKS5 proxy, goes through a tunnel to the target.
+   */
+  private getProxyRequestOptions(
+    url: URL,
+    proxyUrl: URL,
+    headers: Record<string, string>,
+    timingMarks?: HttpTimingMarks
+  ): ProxyRequestOptions {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+    const absoluteForm = url.protocol === 'http:' && isHttpProxy(proxyUrl);
 
-    const validFrom = new Date(cert.valid_from);
-    const validTo = new Date(cert.valid_to);
-    const daysUntilExpiry = Math.floor((validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    if (absoluteForm) {
+      const authorization = getProxyAuthorization(proxyUrl);
+      if (authorization) headers['Proxy-Authorization'] = authorization;
+    }
 
     return {
-      validFrom,
-      validTo,
-      issuer: cert.issuer?.CN || cert.issuer?.O || 'Unknown',
-      daysUntilExpiry,
+      agent: undefined,
+      path: absoluteForm ? url.toString() : url.pathname + url.search,
+      headers: { Host: url.host, ...headers },
+      createConnection: (_options, callback): undefined => {
+        const connection = absoluteForm ? connectToProxy(proxyUrl, this.timeout) : openProxyTunnel(proxyUrl, host, port, this.timeout);
+        connection.then((socket): void => {
+          // The proxy handshake counts as connecting, there is no lookup of our own
+          if (timingMarks) timingMarks.connect = performance.now();
+          callback(null, url.protocol === 'https:'
+            ? tls.connect({
+              socket,
+              servername: net.isIP(host) ? undefined : host,
+              rejectUnauthorized: false,
+              secureOptions: cryptoConstants.SSL_OP_NO_SESSION_RESUMPTION_ON_RENEGOTIATION,
+            })
+            : socket);
+        }).catch((error: Error) => callback(error));
+        return undefined;
+      },
     };
   }
 
   /**
-   * Perform all checks (DNS, TCP, PING, GET, HEAD) on a single URL
+   * Open a TLS connection and verify the certificate the way a browser would: chain trust,
+   * hostname match, expiry of every certificate in the chain, negotiated protocol/cipher and OCSP stapling
    */
-  async monitorUrl(url: string, tcpPorts?: number[]): Promise<SiteMonitorResult> {
-    const checkedAt = new Date();
-    
-    const [dnsCheck, tcpChecks, pingCheck, httpCheck] = await Promise.all([
-      this.performDnsCheck(url).catch(error => ({
-        isResolved: false,
-        addresses: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        responseTime: 0
+  async performTlsCheck(urlString: string, proxy?: string | null): Promise<SiteCheckTlsResult> {
+    const url = new URL(urlString);
+    const startTime = Date.now();
+    const port = Number(url.port) || 443;
+    const tunnel = proxy
+      ? await openProxyTunnel(new URL(proxy), url.hostname.replace(/^\[|\]$/g, ''), port, this.timeout).catch((error: Error) => error)
+      : undefined;
+
+    if (tunnel instanceof Error) {
+      return {
+        isTrusted: false,
+        hostnameMatches: false,
+        subjectAltNames: [],
+        chain: [],
+        protocol: null,
+        cipher: null,
+        ocspStapled: false,
+        error: tunnel.message,
+        responseTime: Date.now() - startTime,
+      };
+    }
+
+    return new Promise((resolve) => {
+      let ocspStapled = false;
+      let isResolved = false;
+
+      const finish = (result: Omit<SiteCheckTlsResult, 'responseTime'>): void => {
+        if (isResolved) return;
+        isResolved = true;
+        socket.destroy();
+        resolve({ ...result, responseTime: Date.now() - startTime });
+      };
+
+      const fail = (error: string): void => finish({
+        isTrusted: false,
+        hostnameMatches: false,
+        subjectAltNames: [],
+        chain: [],
+        protocol: null,
+        cipher: null,
+        ocspStapled: false,
+        error,
+      });
+
+      // Verification is done by hand below so that untrusted certificates can still be inspected
+      const options: tls.ConnectionOptions & { requestOCSP: boolean } = {
+        host: url.hostname,
+        port,
+        ...(tunnel ? { socket: tunnel } : {}),
+        servername: net.isIP(url.hostname) ? undefined : url.hostname,
+        rejectUnauthorized: false,
+        requestOCSP: true, // Missing from the ConnectionOptions typings
+        timeout: this.timeout,
+      };
+      const socket = tls.connect(options);
+
+      // Emitted with null when the server does not staple a response
+      socket.on('OCSPResponse', (response: Buffer | null) => {
+        ocspStapled = !!response?.length;
+      });
+
+      socket.on('secureConnect', () => {
+        const cert = socket.getPeerCertificate(true);
+        if (!cert || !Object.keys(cert).length) {
+          fail('Server did not present a certificate');
+          return;
+        }
+
+        const hostnameError = tls.checkServerIdentity(url.hostname, cert);
+
+        finish({
+          isTrusted: socket.authorized,
+          trustError: socket.authorizationError ? this.describeTrustError(String(socket.authorizationError)) : undefined,
+          hostnameMatches: !hostnameError,
+          hostnameError: hostnameError?.message,
+          subjectAltNames: (cert.subjectaltname || '')
+            .split(',')
+            .map(name => name.trim().replace(/^(DNS|IP Address):/, ''))
+            .filter(Boolean),
+          chain: this.getCertificateChain(cert),
+          protocol: socket.getProtocol(),
+          cipher: socket.getCipher()?.name || null,
+          ocspStapled,
+        });
+      });
+
+      socket.on('timeout', () => fail('TLS handshake timed out'));
+      socket.on('error', (error) => fail(error.message));
+    });
+  }
+
+  private describeTrustError(code: string): string {
+    const descriptions: Record<string, string> = {
+      DEPTH_ZERO_SELF_SIGNED_CERT: 'Self-signed certificate',
+      SELF_SIGNED_CERT_IN_CHAIN: 'Self-signed certificate in chain',
+      UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'Incomplete chain, unable to verify the first certificate',
+      UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'Incomplete chain, issuer certificate not found',
+      UNABLE_TO_GET_ISSUER_CERT: 'Incomplete chain, issuer certificate not found',
+      CERT_HAS_EXPIRED: 'A certificate in the chain has expired',
+      CERT_NOT_YET_VALID: 'A certificate in the chain is not yet valid',
+      CERT_REVOKED: 'Certificate has been revoked',
+    };
+
+    return descriptions[code] ? `${descriptions[code]} (${code})` : code;
+  }
+
+  /**
+   * Walk the issuer links of the peer certificate, leaf first, stopping at the self-signed root
+   */
+  private getCertificateChain(cert: DetailedPeerCertificate): SiteCheckTlsCertificate[] {
+    const chain: SiteCheckTlsCertificate[] = [];
+    const seen = new Set<string>();
+    let current: DetailedPeerCertificate | undefined = cert;
+
+    while (current && current.fingerprint256 && !seen.has(current.fingerprint256)) {
+      seen.add(current.fingerprint256);
+
+      const validTo = new Date(current.valid_to);
+      chain.push({
+        subject: current.subject?.CN || current.subject?.O || 'Unknown',
+        issuer: current.issuer?.CN || current.issuer?.O || 'Unknown',
+        validFrom: new Date(current.valid_from),
+        validTo,
+        daysUntilExpiry: Math.floor((validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24)),
+        isExpired: validTo.getTime() < Date.now(),
+        fingerprint256: current.fingerprint256,
+      });
+
+      current = current.issuerCertificate;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Check whether the plain HTTP version of an HTTPS URL redirects to HTTPS
+   */
+  async performHttpsEnforcementCheck(urlString: string, maxRedirects?: number, proxy?: string | null): Promise<boolean | null> {
+    const url = new URL(urlString);
+    url.protocol = 'http:';
+
+    try {
+      const result = await this.performHttpCheck(url.toString(), {
+        method: 'GET',
+        followRedirects: true,
+        maxRedirects,
+      }, undefined, undefined, undefined, proxy);
+      return this.redirectsToHttps(result.redirectChain || []);
+    } catch {
+      // Plain HTTP is not reachable at all, so there is nothing to enforce
+      return null;
+    }
+  }
+
+  /**
+   * Summarize a redirect chain: final URL, loops and HTTPS downgrades
+   */
+  analyzeRedirectChain(
+    urlString: string,
+    redirectChain: SiteCheckRedirectHop[],
+    httpsEnforced: boolean | null
+  ): SiteCheckRedirectResult {
+    const visitedUrls = new Set(redirectChain.map(hop => hop.url));
+    const lastHop = redirectChain[redirectChain.length - 1];
+    const nextUrl = lastHop?.location ? new URL(lastHop.location, lastHop.url).toString() : undefined;
+
+    return {
+      finalUrl: lastHop?.url || urlString,
+      redirectCount: redirectChain.filter(hop => hop.location).length,
+      isLoop: !!nextUrl && visitedUrls.has(nextUrl),
+      hasHttpsDowngrade: redirectChain.some(hop =>
+        hop.location && hop.url.startsWith('https:') && new URL(hop.location, hop.url).protocol === 'http:'
+      ),
+      httpsEnforced: new URL(urlString).protocol === 'http:'
+        ? this.redirectsToHttps(redirectChain)
+        : httpsEnforced,
+    };
+  }
+
+  /**
+   * Grade the final response of the HTTP check on HTTPS hygiene and the security headers browsers act on: HSTS, CSP,
+   * framing protection, MIME sniffing, the referrer policy, cookie flags and server version disclosure
+   */
+  auditSecurityHeaders(
+    headers: Record<string, string | string[] | undefined>,
+    redirectCheck: SiteCheckRedirectResult,
+    tlsCheck: SiteCheckTlsResult | null
+  ): SiteCheckSecurityAudit {
+    const findings: SiteCheckSecurityFinding[] = [];
+    const add = (finding: SiteCheckSecurityFinding): void => {
+      findings.push(finding);
+    };
+    const header = (name: string): string | null => {
+      const value = headers[name];
+      return value === undefined ? null : Array.isArray(value) ? value.join(', ') : value;
+    };
+    const isHttps = new URL(redirectCheck.finalUrl).protocol === 'https:';
+
+    if (!isHttps && !redirectCheck.httpsEnforced) {
+      add({ id: 'https-missing', category: 'https', severity: 'high', message: 'The site is served over plain HTTP without redirecting to HTTPS' });
+    } else if (redirectCheck.httpsEnforced === false) {
+      add({ id: 'https-not-enforced', category: 'https', severity: 'medium', message: 'Plain HTTP requests are not redirected to HTTPS' });
+    }
+    if (redirectCheck.hasHttpsDowngrade) {
+      add({ id: 'https-downgrade', category: 'https', severity: 'high', message: 'A redirect downgrades the connection from HTTPS to HTTP' });
+    }
+    if (tlsCheck?.protocol && ['SSLv3', 'TLSv1', 'TLSv1.1'].includes(tlsCheck.protocol)) {
+      add({ id: 'tls-outdated', category: 'https', severity: 'medium', message: `The server negotiates the deprecated ${tlsCheck.protocol} protocol` });
+    }
+
+    // Browsers ignore HSTS received over plain HTTP
+    if (isHttps) {
+      const hsts = header('strict-transport-security');
+      const directives = (hsts || '').toLowerCase().split(';').map(directive => directive.trim());
+      const maxAge = parseInt(directives.find(directive => directive.startsWith('max-age='))?.slice(8).replace(/"/g, '') || '', 10);
+
+      if (!hsts || !(maxAge > 0)) {
+        add({ id: 'hsts-missing', category: 'hsts', severity: 'high', message: hsts ? 'Strict-Transport-Security has no max-age, or max-age=0 which turns HSTS off' : 'Strict-Transport-Security is not set' });
+      } else {
+        if (maxAge < this.minHstsMaxAge) {
+          add({ id: 'hsts-short-max-age', category: 'hsts', severity: 'medium', message: `HSTS max-age is ${maxAge} seconds, less than the recommended 180 days` });
+        }
+        if (!directives.includes('includesubdomains')) {
+          add({ id: 'hsts-no-subdomains', category: 'hsts', severity: 'low', message: 'HSTS does not include subdomains' });
+        }
+        if (!directives.includes('preload')) {
+          add({ id: 'hsts-no-preload', category: 'hsts', severity: 'low', message: 'HSTS is not marked for preloading' });
+        } else if (maxAge < this.hstsPreloadMaxAge || !directives.includes('includesubdomains')) {
+          add({ id: 'hsts-preload-ineligible', category: 'hsts', severity: 'low', message: 'HSTS asks for preloading but needs includeSubDomains and a max-age of at least one year' });
+        }
+      }
+    }
+
+    const csp = header('content-security-policy');
+    const cspDirectives = new Map((csp || '').split(';').map((directive): [string, string[]] => {
+      const [name = '', ...sources] = directive.trim().toLowerCase().split(/\s+/);
+      return [name, sources];
+    }));
+    if (!csp) {
+      add(header('content-security-policy-report-only')
+        ? { id: 'csp-report-only', category: 'csp', severity: 'medium', message: 'Content-Security-Policy is only set in report-only mode, nothing is blocked' }
+        : { id: 'csp-missing', category: 'csp', severity: 'medium', message: 'Content-Security-Policy is not set' });
+    } else {
+      // Scripts fall back to default-src, and a nonce or hash makes browsers ignore 'unsafe-inline'
+      const scriptSources = cspDirectives.get('script-src') || cspDirectives.get('default-src') || [];
+      const hasNonceOrHash = scriptSources.some(source => /^'(nonce|sha256|sha384|sha512)-/.test(source));
+      if (scriptSources.includes("'unsafe-inline'") && !hasNonceOrHash) {
+        add({ id: 'csp-unsafe-inline', category: 'csp', severity: 'low', message: "The CSP allows inline scripts with 'unsafe-inline'" });
+      }
+      if (scriptSources.includes("'unsafe-eval'")) {
+        add({ id: 'csp-unsafe-eval', category: 'csp', severity: 'low', message: "The CSP allows eval() with 'unsafe-eval'" });
+      }
+    }
+
+    // frame-ancestors supersedes X-Frame-Options
+    const frameOptions = header('x-frame-options')?.trim();
+    if (!cspDirectives.has('frame-ancestors')) {
+      if (!frameOptions) {
+        add({ id: 'framing-unprotected', category: 'framing', severity: 'medium', message: 'Neither X-Frame-Options nor CSP frame-ancestors protects against clickjacking' });
+      } else if (!['DENY', 'SAMEORIGIN'].includes(frameOptions.toUpperCase())) {
+        add({ id: 'framing-invalid', category: 'framing', severity: 'low', message: `X-Frame-Options "${frameOptions}" is not supported by current browsers, use DENY or SAMEORIGIN` });
+      }
+    }
+
+    if (header('x-content-type-options')?.trim().toLowerCase() !== 'nosniff') {
+      add({ id: 'nosniff-missing', category: 'content-type', severity: 'low', message: 'X-Content-Type-Options is not set to nosniff' });
+    }
+
+    // With a list of policies, browsers use the last one they support
+    const referrerPolicy = header('referrer-policy')?.split(',').pop()?.trim().toLowerCase();
+    if (!referrerPolicy) {
+      add({ id: 'referrer-policy-missing', category: 'referrer', severity: 'low', message: 'Referrer-Policy is not set' });
+    } else if (referrerPolicy === 'unsafe-url' || referrerPolicy === 'no-referrer-when-downgrade') {
+      add({ id: 'referrer-policy-unsafe', category: 'referrer', severity: 'low', message: `Referrer-Policy "${referrerPolicy}" sends full URLs to other sites` });
+    }
+
+    const setCookie = headers['set-cookie'];
+    (Array.isArray(setCookie) ? setCookie : setCookie ? [setCookie] : []).forEach(cookie => {
+      const [pair, ...attributes] = cookie.split(';');
+      const name = pair.split('=')[0].trim();
+      const flags = attributes.map(attribute => attribute.trim().toLowerCase());
+      if (isHttps && !flags.includes('secure')) {
+        add({ id: `cookie-not-secure:${name}`, category: 'cookies', severity: 'medium', message: `Cookie ${name} is missing the Secure flag` });
+      }
+      if (!flags.includes('httponly')) {
+        add({ id: `cookie-not-httponly:${name}`, category: 'cookies', severity: 'low', message: `Cookie ${name} is missing the HttpOnly flag` });
+      }
+    });
+
+    const server = header('server');
+    if (server && /\d/.test(server)) {
+      add({ id: 'server-version', category: 'disclosure', severity: 'low', message: `The Server header reveals the software version: ${server}` });
+    }
+    const poweredBy = header('x-powered-by');
+    if (poweredBy) {
+      add({ id: 'powered-by', category: 'disclosure', severity: 'low', message: `The X-Powered-By header reveals the stack: ${poweredBy}` });
+    }
+    if (header('x-aspnet-version') || header('x-aspnetmvc-version')) {
+      add({ id: 'aspnet-version', category: 'disclosure', severity: 'low', message: 'X-AspNet-Version or X-AspNetMvc-Version reveals the framework version' });
+    }
+
+    // A problem shared by several cookies costs points once, e.g. cookie-not-secure:a and cookie-not-secure:b
+    const penalties = new Map(findings.map(finding => [finding.id.split(':')[0], this.securityPenalties[finding.severity]]));
+    const score = Math.max(0, 100 - [...penalties.values()].reduce((total, penalty) => total + penalty, 0));
+
+    return {
+      score,
+      grade: score >= 90 ? 'A' : score >= 80 ? 'B' : score >= 70 ? 'C' : score >= 60 ? 'D' : 'F',
+      findings,
+      headers: Object.fromEntries(this.auditedSecurityHeaders.map(name => [name, header(name)])),
+    };
+  }
+
+  private redirectsToHttps(redirectChain: SiteCheckRedirectHop[]): boolean {
+    return redirectChain.some(hop => !!hop.location && new URL(hop.location, hop.url).protocol === 'https:');
+  }
+
+  private isRedirect(statusCode?: number): boolean {
+    return !!statusCode && [301, 302, 303, 307, 308].includes(statusCode);
+  }
+
+  /**
+   * Match a status code against a list of codes ("204") and ranges ("200-299")
+   */
+  private isAcceptedStatus(status: number, acceptedStatusCodes?: string[]): boolean {
+    const accepted = acceptedStatusCodes?.length ? acceptedStatusCodes : this.defaultAcceptedStatusCodes;
+
+    return accepted.some(entry => {
+      const [min, max = min] = entry.split('-').map(part => parseInt(part.trim(), 10));
+      return status >= min && status <= max;
+    });
+  }
+
+  private hasContentRules(rules?: SiteCheckContentRules): rules is SiteCheckContentRules {
+    return !!rules && (
+      !!rules.mustContain?.length ||
+      !!rules.mustNotContain?.length ||
+      !!rules.regex ||
+      !!rules.maxBytes
+    );
+  }
+
+  /**
+   * Buffer the response body, stopping early once it grows past maxBytes. Without a maxBytes, a body larger than
+   * maxResponseBodyBytes is cut off there and marked truncated, so a huge or endless response cannot exhaust memory.
+   */
+  private readBody(
+    res: http.IncomingMessage,
+    maxBytes?: number | null
+  ): Promise<{ body: string; exceededMaxBytes: boolean; truncated: boolean }> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      res.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (maxBytes && size > maxBytes) {
+          res.destroy();
+          resolve({ body: '', exceededMaxBytes: true, truncated: false });
+          return;
+        }
+        if (!maxBytes && size > this.maxResponseBodyBytes) {
+          chunks.push(chunk.subarray(0, chunk.length - (size - this.maxResponseBodyBytes)));
+          res.destroy();
+          resolve({ body: Buffer.concat(chunks).toString('utf8'), exceededMaxBytes: false, truncated: true });
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      res.on('end', () => {
+        resolve({ body: Buffer.concat(chunks).toString('utf8'), exceededMaxBytes: false, truncated: false });
+      });
+
+      res.on('error', reject);
+    });
+  }
+
+  /**
+   * Discard the response body, resolving with the time it finished or null if the response was cut off. Like readBody,
+   * it stops after maxResponseBodyBytes, and also after the check timeout, so a streaming response cannot hold the check.
+   */
+  private drainBody(res: http.IncomingMessage): Promise<number | null> {
+    return new Promise((resolve) => {
+      let size = 0;
+      const stop = (): void => {
+        clearTimeout(timer);
+        res.destroy();
+        resolve(null);
+      };
+      const timer = setTimeout(stop, this.timeout);
+
+      res.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxResponseBodyBytes) stop();
+      });
+      res.once('end', () => {
+        clearTimeout(timer);
+        resolve(performance.now());
+      });
+      res.once('close', () => {
+        clearTimeout(timer);
+        resolve(res.complete ? performance.now() : null);
+      });
+      res.once('error', () => {
+        clearTimeout(timer);
+        resolve(null);
+      });
+    });
+  }
+
+  /**
+   * Turn the timestamps recorded during a request into the duration of each phase
+   */
+  private getHttpTimings(marks: HttpTimingMarks): SiteCheckHttpTimings {
+    const round = (value: number): number => Math.round(value * 100) / 100;
+    const lookup = marks.lookup ?? marks.start;
+    const connect = marks.connect ?? lookup;
+    const requestSent = marks.secureConnect ?? connect;
+    const response = marks.response ?? requestSent;
+
+    return {
+      dnsLookup: round(lookup - marks.start),
+      tcpConnect: round(connect - lookup),
+      tlsHandshake: marks.secureConnect !== undefined ? round(marks.secureConnect - connect) : null,
+      timeToFirstByte: round(response - requestSent),
+      contentTransfer: typeof marks.end === 'number' ? round(marks.end - response) : null,
+      total: round((marks.end ?? response) - marks.start),
+    };
+  }
+
+  /**
+   * Returns the reason of the first failing content rule, or undefined if all rules pass
+   */
+  private evaluateContentRules(body: string, rules: SiteCheckContentRules): string | undefined {
+    const missing = rules.mustContain?.find(text => !body.includes(text));
+    if (missing !== undefined) {
+      return `Response body does not contain "${missing}"`;
+    }
+
+    const forbidden = rules.mustNotContain?.find(text => body.includes(text));
+    if (forbidden !== undefined) {
+      return `Response body contains "${forbidden}"`;
+    }
+
+    if (rules.regex) {
+      try {
+        if (!new RegExp(rules.regex).test(body)) {
+          return `Response body does not match /${rules.regex}/`;
+        }
+      } catch (error) {
+        return `Invalid content regex: ${error instanceof Error ? error.message : rules.regex}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse the body as JSON and evaluate every assertion against it
+   */
+  private evaluateJsonAssertions(body: string, assertions: SiteCheckJsonAssertion[]): SiteCheckJsonAssertionResult[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      return assertions.map(assertion => ({
+        ...assertion,
+        passed: false,
+        error: 'Response body is not valid JSON',
+      }));
+    }
+
+    return assertions.map(assertion => {
+      const { found, value: actual } = this.resolveJsonPath(data, assertion.path);
+      const expected = assertion.value;
+      const describe = `${assertion.path} ${assertion.operator}${expected !== undefined ? ` ${JSON.stringify(expected)}` : ''}`;
+      let passed: boolean;
+
+      switch (assertion.operator) {
+        case 'exists':
+          passed = found;
+          break;
+        case 'notExists':
+          passed = !found;
+          break;
+        case 'equals':
+          passed = found && this.jsonValuesEqual(actual, expected);
+          break;
+        case 'notEquals':
+          passed = !found || !this.jsonValuesEqual(actual, expected);
+          break;
+        case 'greaterThan':
+        case 'greaterThanOrEqual':
+        case 'lessThan':
+        case 'lessThanOrEqual':
+          passed = found && this.compareNumbers(Number(actual), Number(expected), assertion.operator);
+          break;
+        case 'lengthEquals':
+        case 'lengthGreaterThan':
+        case 'lengthLessThan': {
+          const length = Array.isArray(actual) || typeof actual === 'string' ? actual.length : NaN;
+          const operator = assertion.operator === 'lengthEquals'
+            ? 'equals'
+            : assertion.operator === 'lengthGreaterThan' ? 'greaterThan' : 'lessThan';
+          passed = found && this.compareNumbers(length, Number(expected), operator);
+          break;
+        }
+        default:
+          passed = false;
+      }
+
+      return {
+        ...assertion,
+        passed,
+        actual: found ? actual : undefined,
+        error: passed
+          ? undefined
+          : found ? `${describe} (got ${JSON.stringify(actual)})` : `${describe} (path not found)`,
+      };
+    });
+  }
+
+  /**
+   * Resolve a JSONPath-style expression such as $.data.items[0]['name'] against parsed JSON
+   */
+  private resolveJsonPath(data: unknown, path: string): { found: boolean; value?: unknown } {
+    const tokens = path.trim().replace(/^\$/, '').match(/\[(?:'[^']*'|"[^"]*"|\d+)\]|[^.[\]]+/g) || [];
+    let current = data;
+
+    for (const token of tokens) {
+      const key = token.startsWith('[') ? token.slice(1, -1).replace(/^['"]|['"]$/g, '') : token;
+      if (current === null || typeof current !== 'object' || !(key in current)) {
+        return { found: false };
+      }
+      current = (current as Record<string, unknown>)[key];
+    }
+
+    return { found: true, value: current };
+  }
+
+  /**
+   * Scalars are compared by their string form so that "1" from the site settings matches 1 in the response
+   */
+  private jsonValuesEqual(actual: unknown, expected: unknown): boolean {
+    if (actual !== null && typeof actual === 'object') {
+      return JSON.stringify(actual) === (typeof expected === 'string' ? expected : JSON.stringify(expected));
+    }
+    return String(actual) === String(expected);
+  }
+
+  private compareNumbers(
+    actual: number,
+    expected: number,
+    operator: 'equals' | 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual'
+  ): boolean {
+    if (Number.isNaN(actual) || Number.isNaN(expected)) return false;
+
+    switch (operator) {
+      case 'equals':
+        return actual === expected;
+      case 'greaterThan':
+        return actual > expected;
+      case 'greaterThanOrEqual':
+        return actual >= expected;
+      case 'lessThan':
+        return actual < expected;
+      case 'lessThanOrEqual':
+        return actual <= expected;
+    }
+  }
+
+  private getSSLInfo(socket: TLSSocket): SiteCheckSslResult | undefined {
+    const cert = socket.getPeerCertificate(true);
+    if (!cert) return undefined;
+
+    const validFrom = new Date(cert.valid_from);
+    const validTo = new Date(cert.valid_to);
+    const daysUntilExpiry = Math.floor((validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
+    return {
+      validFrom,
+      validTo,
+      issuer: cert.issuer?.CN || cert.issuer?.O || 'Unknown',
+      daysUntilExpiry,
+    };
+  }
+
+  /**
+   * Run the steps of a transaction in order, carrying cookies and extracted variables from one step to the next.
+   * The transaction stops at the first step that fails.
+   */
+  async performTransactionCheck(baseUrl: string, steps: SiteCheckTransactionStep[], proxy?: string | null): Promise<SiteCheckTransactionResult> {
+    const startTime = Date.now();
+    const cookies: TransactionCookie[] = [];
+    const variables = new Map<string, string>();
+    const results: SiteCheckTransactionStepResult[] = [];
+
+    for (const [index, step] of steps.entries()) {
+      const result = await this.performTransactionStep(baseUrl, step, cookies, variables, proxy);
+      results.push(result);
+
+      if (!result.passed) {
+        return {
+          isUp: false,
+          responseTime: Date.now() - startTime,
+          failedStep: index,
+          error: `Step ${index + 1} (${step.name}) failed: ${result.error}`,
+          steps: results,
+        };
+      }
+    }
+
+    return { isUp: true, responseTime: Date.now() - startTime, failedStep: null, steps: results };
+  }
+
+  /**
+   * Send a single transaction step, following redirects itself so cookies set along the way are kept
+   */
+  private async performTransactionStep(
+    baseUrl: string,
+    step: SiteCheckTransactionStep,
+    cookies: TransactionCookie[],
+    variables: Map<string, string>,
+    proxy?: string | null
+  ): Promise<SiteCheckTransactionStepResult> {
+    const startTime = Date.now();
+    const result: SiteCheckTransactionStepResult = {
+      name: step.name,
+      url: step.url,
+      method: step.method,
+      passed: false,
+      status: 0,
+      responseTime: 0,
+    };
+    const fail = (error: string): SiteCheckTransactionStepResult => ({ ...result, responseTime: Date.now() - startTime, error });
+
+    let currentUrl: string;
+    try {
+      currentUrl = new URL(this.substituteVariables(step.url, variables), baseUrl).toString();
+    } catch {
+      return fail(`Invalid URL ${step.url}`);
+    }
+
+    let headers = Object.fromEntries(
+      Object.entries(step.headers || {}).map(([name, value]) => [name, this.substituteVariables(value, variables)])
+    );
+    const visitedUrls = new Set<string>();
+    let method = step.method;
+    let body = step.body ? this.substituteVariables(step.body, variables) : undefined;
+
+    for (;;) {
+      result.url = currentUrl;
+      const timingMarks: HttpTimingMarks = { start: performance.now() };
+      let res: http.IncomingMessage;
+      try {
+        res = await this.sendHttpRequest(currentUrl, method, this.withCookies(headers, cookies, currentUrl), body, undefined, timingMarks, proxy);
+      } catch (error) {
+        return fail(error instanceof Error ? error.message : 'Unknown error');
+      }
+
+      result.status = res.statusCode || 0;
+      this.storeCookies(cookies, currentUrl, res.headers['set-cookie']);
+
+      const location = this.isRedirect(res.statusCode) ? res.headers.location : undefined;
+      if (!step.followRedirects || !location) {
+        return this.evaluateTransactionResponse(res, step, result, variables, startTime, timingMarks);
+      }
+
+      // Consume the redirect body to free up the socket
+      res.resume();
+      visitedUrls.add(currentUrl);
+
+      const nextUrl = new URL(location, currentUrl).toString();
+      if (visitedUrls.has(nextUrl)) {
+        return fail(`Redirect loop detected at ${nextUrl}`);
+      }
+      if (visitedUrls.size > this.defaultMaxRedirects) {
+        return fail(`Too many redirects (more than ${this.defaultMaxRedirects})`);
+      }
+
+      // Stored cookies are still matched to each URL by withCookies
+      ({ method, headers, body } = this.getRedirectRequest(res.statusCode, currentUrl, nextUrl, { method, headers, body }));
+      currentUrl = nextUrl;
+    }
+  }
+
+  /**
+   * Check the final response of a transaction step and extract its variables for the next steps
+   */
+  private async evaluateTransactionResponse(
+    res: http.IncomingMessage,
+    step: SiteCheckTransactionStep,
+    result: SiteCheckTransactionStepResult,
+    variables: Map<string, string>,
+    startTime: number,
+    timingMarks: HttpTimingMarks
+  ): Promise<SiteCheckTransactionStepResult> {
+    let responseBody: string;
+    let exceededMaxBytes: boolean;
+    let truncated: boolean;
+    try {
+      ({ body: responseBody, exceededMaxBytes, truncated } = await this.readBody(res, step.contentRules?.maxBytes));
+    } catch (error) {
+      return { ...result, responseTime: Date.now() - startTime, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    timingMarks.end = exceededMaxBytes || truncated ? null : performance.now();
+    const measured = { ...result, responseTime: Date.now() - startTime, timings: this.getHttpTimings(timingMarks) };
+    if (truncated) measured.bodyTruncated = true;
+
+    if (!this.isAcceptedStatus(measured.status, step.acceptedStatusCodes)) {
+      return { ...measured, error: `Unexpected HTTP status ${measured.status}` };
+    }
+
+    if (exceededMaxBytes) {
+      return { ...measured, error: `Response body exceeds ${step.contentRules?.maxBytes} bytes` };
+    }
+
+    const contentFailure = this.hasContentRules(step.contentRules)
+      ? this.evaluateContentRules(responseBody, step.contentRules)
+      : undefined;
+    if (contentFailure) {
+      return { ...measured, error: contentFailure };
+    }
+
+    // As in buildHttpResult, a cut off JSON document does not parse, so say why instead of reporting it as invalid
+    if (truncated && (step.jsonAssertions?.length || step.extract?.some(extraction => extraction.source === 'json'))) {
+      return { ...measured, error: `Response body exceeds ${this.maxResponseBodyBytes} bytes, too large for JSON assertions and extraction` };
+    }
+
+    if (step.jsonAssertions?.length) {
+      const assertionResults = this.evaluateJsonAssertions(responseBody, step.jsonAssertions);
+      const failed = assertionResults.find(assertion => !assertion.passed);
+      measured.jsonAssertions = assertionResults;
+      if (failed) {
+        return { ...measured, error: `JSON assertion failed: ${failed.error}` };
+      }
+    }
+
+    const extracted: string[] = [];
+    for (const extraction of step.extract || []) {
+      const value = this.extractTransactionVariable(extraction, res.headers, responseBody);
+      if (value === undefined) {
+        return { ...measured, extracted, error: `Could not extract {{${extraction.name}}} from the response ${extraction.source}` };
+      }
+      variables.set(extraction.name, value);
+      extracted.push(extraction.name);
+    }
+
+    return { ...measured, passed: true, extracted: extracted.length ? extracted : undefined };
+  }
+
+  /**
+   * Read a variable from a response header or body with a regex, or from a JSON body with a JSONPath expression
+   */
+  private extractTransactionVariable(
+    extraction: SiteCheckTransactionExtraction,
+    headers: http.IncomingHttpHeaders,
+    body: string
+  ): string | undefined {
+    if (extraction.source === 'json') {
+      let data: unknown;
+      try {
+        data = JSON.parse(body);
+      } catch {
+        return undefined;
+      }
+      const { found, value } = this.resolveJsonPath(data, extraction.expression || '$');
+      if (!found || value === undefined || value === null) return undefined;
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+
+    const source = extraction.source === 'header' ? headers[(extraction.header || '').toLowerCase()] : body;
+    const text = Array.isArray(source) ? source.join(', ') : source;
+    if (text === undefined) return undefined;
+    if (!extraction.expression) return text;
+
+    try {
+      const match = new RegExp(extraction.expression).exec(text);
+      return match ? match[1] ?? match[0] : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Replace {{name}} placeholders with extracted variables, leaving unknown ones as they are
+   */
+  private substituteVariables(value: string, variables: Map<string, string>): string {
+    return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name: string) => variables.get(name) ?? placeholder);
+  }
+
+  /**
+   * Add the cookies that apply to a URL to the step's own headers, keeping any Cookie header it sets
+   */
+  private withCookies(headers: Record<string, string>, cookies: TransactionCookie[], urlString: string): Record<string, string> {
+    const url = new URL(urlString);
+    const host = url.hostname.toLowerCase();
+    const now = Date.now();
+    const cookieHeader = cookies
+      .filter(cookie =>
+        (cookie.expiresAt === null || cookie.expiresAt > now) &&
+        (cookie.hostOnly ? host === cookie.domain : this.domainMatches(host, cookie.domain)) &&
+        (url.pathname === cookie.path || url.pathname.startsWith(cookie.path.endsWith('/') ? cookie.path : `${cookie.path}/`)) &&
+        (!cookie.secure || url.protocol === 'https:')
+      )
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+
+    if (!cookieHeader) return headers;
+
+    const ownHeader = Object.keys(headers).find(name => name.toLowerCase() === 'cookie');
+    if (!ownHeader) return { ...headers, Cookie: cookieHeader };
+    return { ...headers, [ownHeader]: `${headers[ownHeader]}; ${cookieHeader}` };
+  }
+
+  /**
+   * Update the cookie jar from the Set-Cookie headers of a response
+   */
+  private storeCookies(cookies: TransactionCookie[], urlString: string, setCookieHeaders?: string[]): void {
+    if (!setCookieHeaders?.length) return;
+
+    const url = new URL(urlString);
+    const now = Date.now();
+
+    for (const header of setCookieHeaders) {
+      const [pair, ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+
+      const cookie: TransactionCookie = {
+        name: pair.slice(0, separator).trim(),
+        value: pair.slice(separator + 1).trim(),
+        domain: url.hostname.toLowerCase(),
+        hostOnly: true,
+        path: url.pathname.slice(0, url.pathname.lastIndexOf('/')) || '/',
+        secure: false,
+        expiresAt: null,
+      };
+      let maxAge: number | null = null;
+
+      for (const attribute of attributes) {
+        const [rawName, ...rawValue] = attribute.split('=');
+        const name = rawName.trim().toLowerCase();
+        const value = rawValue.join('=').trim();
+
+        if (name === 'domain' && value) {
+          cookie.domain = value.replace(/^\./, '').toLowerCase();
+          cookie.hostOnly = false;
+        } else if (name === 'path' && value.startsWith('/')) {
+          cookie.path = value;
+        } else if (name === 'secure') {
+          cookie.secure = true;
+        } else if (name === 'max-age' && /^-?\d+$/.test(value)) {
+          maxAge = parseInt(value, 10);
+        } else if (name === 'expires' && !Number.isNaN(Date.parse(value))) {
+          cookie.expiresAt = Date.parse(value);
+        }
+      }
+
+      // Max-Age wins over Expires
+      if (maxAge !== null) cookie.expiresAt = now + maxAge * 1000;
+
+      // Browsers ignore cookies for a domain the response did not come from
+      if (!cookie.hostOnly && !this.domainMatches(url.hostname.toLowerCase(), cookie.domain)) continue;
+
+      const existing = cookies.findIndex(({ name, domain, path }) =>
+        name === cookie.name && domain === cookie.domain && path === cookie.path
+      );
+      if (existing !== -1) cookies.splice(existing, 1);
+
+      // An expiry in the past is how a server deletes a cookie
+      if (cookie.expiresAt === null || cookie.expiresAt > now) {
+        cookies.push(cookie);
+      }
+    }
+  }
+
+  private domainMatches(host: string, domain: string): boolean {
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+
+  /**
+   * Run the HTTP and TCP checks over a single address family, skipping them when the host has no address of that family
+   */
+  async performAddressFamilyCheck(
+    url: string,
+    family: SiteCheckAddressFamily,
+    addresses: string[],
+    options: SiteCheckOptions = {}
+  ): Promise<SiteCheckAddressFamilyResult> {
+    if (!addresses.length) {
+      return { family, isAvailable: false, httpCheck: null, tcpChecks: [] };
+    }
+
+    // Through a proxy, the proxy picks the address family, so only the direct TCP checks are per family
+    const [httpCheck, tcpChecks] = await Promise.all([
+      options.proxy ? null : this.performHttpCheck(url, this.getAddressFamilyRequest(options.httpRequest), undefined, undefined, family).catch((error): SiteCheckHttpResult => ({
+        isUp: false,
+        status: 0,
+        responseTime: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
       })),
-      this.performTcpChecks(url, tcpPorts).catch(error => [{
+      this.performTcpChecks(url, options.tcpPorts, family)
+    ]);
+
+    return { family, isAvailable: true, httpCheck, tcpChecks };
+  }
+
+  /**
+   * The request sent over each address family. Only reachability is compared there, so a request that changes state
+   * (POST, PUT, PATCH, DELETE) is not sent once more per family, and on every confirmation retry; a bodyless HEAD
+   * with the same headers is sent instead, and any answer short of a server error counts.
+   */
+  private getAddressFamilyRequest(request?: SiteCheckHttpRequest): SiteCheckHttpRequest | undefined {
+    if (!request || this.safeHttpMethods.includes(request.method)) return request;
+
+    return {
+      method: 'HEAD',
+      headers: request.headers,
+      acceptedStatusCodes: ['100-499'],
+      followRedirects: request.followRedirects,
+      maxRedirects: request.maxRedirects,
+    };
+  }
+
+  /**
+   * Perform all checks (DNS, TCP, PING, HTTP, TLS) on a single URL, plus HTTP and TCP over IPv4 and IPv6 separately
+   * and the transaction steps when there are any
+   */
+  async monitorUrl(url: string, options: SiteCheckOptions = {}): Promise<SiteMonitorResult> {
+    if (options.protocol) {
+      return this.monitorProtocol(url, options.protocol, options);
+    }
+
+    const checkedAt = new Date();
+    
+    const isHttps = url.startsWith('https:');
+    const dnsCheckPromise = this.performDnsCheck(url, options.dnsRecordTypes, options.dnsResolvers).catch((error): SiteCheckDnsResult => ({
+      isResolved: false,
+      addresses: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+      responseTime: 0
+    }));
+
+    const [dnsCheck, tcpChecks, pingCheck, httpCheck, httpsEnforced, tlsCheck, ipv4Check, ipv6Check, transactionCheck] = await Promise.all([
+      dnsCheckPromise,
+      this.performTcpChecks(url, options.tcpPorts).catch(error => [{
         isConnected: false,
         port: 0,
         responseTime: 0,
@@ -283,36 +2029,618 @@ export class SiteCheckService {
         responseTime: 0,
         error: error instanceof Error ? error.message : 'Unknown error'
       })),
-      this.performHttpCheck(url, 'GET').catch(error => ({
+      this.performHttpCheck(
+        url, options.httpRequest, options.contentRules, options.jsonAssertions, undefined, options.proxy, options.contentChange
+      ).catch((error): SiteCheckHttpResult => ({
         isUp: false,
         status: 0,
         responseTime: 0,
         error: error instanceof Error ? error.message : 'Unknown error'
       })),
-      this.performHttpCheck(url, 'HEAD').catch(error => ({
+      isHttps
+        ? this.performHttpsEnforcementCheck(url, options.httpRequest?.maxRedirects, options.proxy)
+        : Promise.resolve(null),
+      isHttps ? this.performTlsCheck(url, options.proxy) : Promise.resolve(null),
+      dnsCheckPromise.then(dns => this.performAddressFamilyCheck(url, 4, dns.addresses, options)),
+      dnsCheckPromise.then(dns => this.performAddressFamilyCheck(url, 6, dns.ipv6Addresses || [], options)),
+      options.transactionSteps?.length
+        ? this.performTransactionCheck(url, options.transactionSteps, options.proxy).catch((error): SiteCheckTransactionResult => ({
+          isUp: false,
+          responseTime: 0,
+          failedStep: null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          steps: []
+        }))
+        : Promise.resolve(null)
+    ]);
+
+    const redirectCheck = this.analyzeRedirectChain(url, httpCheck.redirectChain || [], httpsEnforced);
+
+    return {
+      url,
+      // A transaction monitor is up when its whole flow passes
+      isUp: transactionCheck ? transactionCheck.isUp : httpCheck.isUp,
+      checkedAt,
+      workerId: this.workerId,
+      dnsCheck,
+      tcpChecks,
+      pingCheck,
+      httpCheck,
+      redirectCheck,
+      tlsCheck,
+      ipv4Check,
+      ipv6Check,
+      transactionCheck,
+      protocolCheck: null,
+      securityAudit: httpCheck.headers ? this.auditSecurityHeaders(httpCheck.headers, redirectCheck, tlsCheck) : null,
+      attempts: 1,
+      attemptErrors: [],
+    };
+  }
+
+  /**
+   * Check the service behind a protocol monitor's URL, e.g. smtp://mail.example.com:587, along with its DNS and ping
+   */
+  private async monitorProtocol(url: string, protocol: SiteCheckProtocol, options: SiteCheckOptions): Promise<SiteMonitorResult> {
+    const checkedAt = new Date();
+
+    const [dnsCheck, pingCheck, protocolCheck] = await Promise.all([
+      this.performDnsCheck(url, options.dnsRecordTypes, options.dnsResolvers).catch((error): SiteCheckDnsResult => ({
+        isResolved: false,
+        addresses: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+        responseTime: 0
+      })),
+      this.performPing(url).catch(error => ({
         isUp: false,
         status: 0,
         responseTime: 0,
         error: error instanceof Error ? error.message : 'Unknown error'
-      }))
+      })),
+      this.performProtocolCheck(url, protocol, options)
     ]);
 
     return {
       url,
-      isUp: httpCheck.isUp,
+      isUp: protocolCheck.isUp,
       checkedAt,
       workerId: this.workerId,
       dnsCheck,
-      tcpChecks,
+      tcpChecks: [],
       pingCheck,
-      httpCheck,
+      // There is no HTTP request; the protocol result stands in for it, so response times and uptime keep working
+      httpCheck: {
+        isUp: protocolCheck.isUp,
+        status: 0,
+        responseTime: protocolCheck.responseTime,
+        ...(protocolCheck.error ? { error: protocolCheck.error } : {})
+      },
+      redirectCheck: this.analyzeRedirectChain(url, [], null),
+      tlsCheck: null,
+      ipv4Check: { family: 4, isAvailable: dnsCheck.addresses.length > 0, httpCheck: null, tcpChecks: [] },
+      ipv6Check: { family: 6, isAvailable: !!dnsCheck.ipv6Addresses?.length, httpCheck: null, tcpChecks: [] },
+      transactionCheck: null,
+      protocolCheck,
+      securityAudit: null,
+      attempts: 1,
+      attemptErrors: [],
+    };
+  }
+
+  /**
+   * Connect to a mail, database, cache or application server and run the start of its protocol: SMTP EHLO and
+   * STARTTLS, the IMAP or POP3 greeting, the Postgres or MySQL startup handshake, Redis PING with AUTH when the URL
+   * has credentials, a WebSocket upgrade and message exchange, or the gRPC health check. The scheme picks the default
+   * port and whether TLS starts right away (smtps, imaps, pop3s, rediss, wss, grpcs).
+   */
+  async performProtocolCheck(urlString: string, protocol: SiteCheckProtocol, options: SiteCheckOptions = {}): Promise<SiteCheckProtocolResult> {
+    const url = new URL(urlString);
+    const scheme = url.protocol.replace(/:$/, '');
+    const host = url.hostname.replace(/^\[|\]$/g, ''); // IPv6 literals come in brackets
+    const port = url.port ? parseInt(url.port, 10) : this.protocolPorts[scheme] ?? this.protocolPorts[protocol];
+
+    if (protocol === 'grpc') {
+      return this.performGrpcHealthCheck(url, host, port, this.implicitTlsSchemes.includes(scheme), options.grpcService || '');
+    }
+
+    const startTime = performance.now();
+    let session: ProtocolSession | null = null;
+
+    const base = (): SiteCheckProtocolResultBase => ({
+      isUp: false,
+      host,
+      port,
+      tls: !!session?.isTls,
+      responseTime: Math.round(performance.now() - startTime),
+      timings: session ? {
+        connect: session.connectTime,
+        tlsHandshake: session.tlsHandshakeTime,
+        handshake: Math.max(0, Math.round(performance.now() - startTime) - session.connectTime - (session.tlsHandshakeTime ?? 0)),
+      } : null,
+    });
+
+    try {
+      session = await ProtocolSession.connect({ host, port, timeoutMs: this.timeout, tls: this.implicitTlsSchemes.includes(scheme) });
+      const activeSession = session;
+
+      switch (protocol) {
+        case 'smtp':
+          return await this.runSmtpHandshake(activeSession, host, base);
+        case 'imap':
+        case 'pop3':
+          return await this.runMailboxGreeting(activeSession, protocol, base);
+        case 'postgres':
+          return await this.runPostgresHandshake(activeSession, url, base);
+        case 'mysql':
+          return await this.runMysqlHandshake(activeSession, base);
+        case 'redis':
+          return await this.runRedisPing(activeSession, url, base);
+        default:
+          return await this.runWebSocketExchange(activeSession, url, options.websocket, base);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { ...base(), protocol, error: message, ...(protocol === 'redis' ? { authenticated: false } : {}) } as SiteCheckProtocolResult;
+    } finally {
+      session?.close();
+    }
+  }
+
+  private async runSmtpHandshake(session: ProtocolSession, host: string, base: () => SiteCheckProtocolResultBase): Promise<SiteCheckSmtpResult> {
+    const greeting = await this.readSmtpReply(session);
+    if (greeting.code !== 220) {
+      return { ...base(), protocol: 'smtp', greeting: greeting.text, error: `SMTP greeting: ${greeting.code} ${greeting.text}` };
+    }
+
+    const ehlo = async (): Promise<string[]> => {
+      session.write(`EHLO ${os.hostname()}\r\n`);
+      const reply = await this.readSmtpReply(session);
+      if (reply.code !== 250) throw new Error(`SMTP EHLO: ${reply.code} ${reply.text}`);
+      // The first line greets the client, the rest are the extensions
+      return reply.lines.slice(1).map(line => line.split(' ')[0].toUpperCase());
+    };
+
+    let extensions = await ehlo();
+    const startTlsOffered = extensions.includes('STARTTLS');
+
+    if (startTlsOffered && !session.isTls) {
+      session.write('STARTTLS\r\n');
+      const reply = await this.readSmtpReply(session);
+      if (reply.code !== 220) {
+        return { ...base(), protocol: 'smtp', greeting: greeting.text, extensions, startTlsOffered, error: `SMTP STARTTLS: ${reply.code} ${reply.text}` };
+      }
+      await session.upgradeToTls(host);
+      // Extensions can differ once the connection is encrypted
+      extensions = await ehlo();
+    }
+
+    const result = { ...base(), protocol: 'smtp' as const, isUp: true, greeting: greeting.text, extensions, startTlsOffered };
+    session.write('QUIT\r\n');
+    return result;
+  }
+
+  // Reads a possibly multi-line reply, "250-first" lines until "250 last"
+  private async readSmtpReply(session: ProtocolSession): Promise<{ code: number; text: string; lines: string[] }> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await session.readLine();
+      const match = /^(\d{3})([ -])(.*)$/.exec(line);
+      if (!match) throw new Error(`Unexpected SMTP reply "${line.slice(0, 100)}"`);
+      lines.push(match[3]);
+      if (match[2] === ' ') return { code: parseInt(match[1], 10), text: lines[0], lines };
+    }
+  }
+
+  private async runMailboxGreeting(
+    session: ProtocolSession,
+    protocol: 'imap' | 'pop3',
+    base: () => SiteCheckProtocolResultBase
+  ): Promise<SiteCheckMailboxResult> {
+    const greeting = (await session.readLine()).slice(0, 200);
+    // IMAP greets with "* OK" or "* PREAUTH" and turns clients away with "* BYE"; POP3 with "+OK" or "-ERR"
+    const isUp = protocol === 'imap' ? /^\* (OK|PREAUTH)\b/i.test(greeting) : /^\+OK\b/i.test(greeting);
+    const result = { ...base(), protocol, isUp, greeting, ...(isUp ? {} : { error: `${protocol.toUpperCase()} greeting: ${greeting}` }) };
+
+    session.write(protocol === 'imap' ? 'a1 LOGOUT\r\n' : 'QUIT\r\n');
+    return result;
+  }
+
+  /**
+   * Send a startup message and read the first reply. Any authentication request means the server accepts
+   * connections; an error is only a failure when it says the server cannot take them (starting up, too many clients).
+   */
+  private async runPostgresHandshake(session: ProtocolSession, url: URL, base: () => SiteCheckProtocolResultBase): Promise<SiteCheckDatabaseResult> {
+    const user = decodeURIComponent(url.username) || 'uptime-monitor';
+    const database = decodeURIComponent(url.pathname.replace(/^\//, '')) || user;
+    const parameters = Buffer.from(`user\0${user}\0database\0${database}\0application_name\0uptime-monitor\0\0`);
+    const header = Buffer.alloc(8);
+    header.writeInt32BE(8 + parameters.length, 0);
+    header.writeInt32BE(196608, 4); // Protocol 3.0
+    session.write(Buffer.concat([header, parameters]));
+
+    const message = await session.read(buffer => {
+      if (buffer.length < 5) return null;
+      const length = buffer.readInt32BE(1) + 1;
+      return buffer.length < length ? null : { value: { type: String.fromCharCode(buffer[0]), body: buffer.subarray(5, length) }, length };
+    });
+
+    if (message.type === 'R') {
+      const authMethods: Record<number, string> = { 0: 'trust', 3: 'password', 5: 'md5', 7: 'gss', 9: 'sspi', 10: 'sasl' };
+      const code = message.body.readInt32BE(0);
+      session.write(Buffer.from([0x58, 0, 0, 0, 4])); // Terminate
+      return { ...base(), protocol: 'postgres', isUp: true, authMethod: authMethods[code] || `method ${code}` };
+    }
+
+    if (message.type === 'E') {
+      // Fields are a type byte followed by a null-terminated value
+      const fields: Record<string, string> = {};
+      for (let offset = 0; offset < message.body.length && message.body[offset] !== 0;) {
+        const end = message.body.indexOf(0, offset + 1);
+        fields[String.fromCharCode(message.body[offset])] = message.body.subarray(offset + 1, end).toString('utf8');
+        offset = end + 1;
+      }
+
+      const code = fields.C || '';
+      const error = `Postgres ${code}: ${fields.M || 'error'}`;
+      const isUp = !this.postgresUnavailableClasses.includes(code.slice(0, 2));
+      return { ...base(), protocol: 'postgres', isUp, ...(isUp ? { authMethod: 'rejected' } : { error }) };
+    }
+
+    return { ...base(), protocol: 'postgres', error: `Unexpected Postgres message "${message.type}"` };
+  }
+
+  /**
+   * Read the handshake MySQL sends on connect, which carries the server version, or the error it sends instead
+   * (e.g. too many connections, host blocked)
+   */
+  private async runMysqlHandshake(session: ProtocolSession, base: () => SiteCheckProtocolResultBase): Promise<SiteCheckDatabaseResult> {
+    const payload = await session.read(buffer => {
+      if (buffer.length < 4) return null;
+      const length = buffer.readUIntLE(0, 3) + 4;
+      return buffer.length < length ? null : { value: buffer.subarray(4, length), length };
+    });
+
+    if (payload[0] === 0x0a) {
+      const serverVersion = payload.subarray(1, payload.indexOf(0, 1)).toString('utf8');
+      return { ...base(), protocol: 'mysql', isUp: true, serverVersion };
+    }
+
+    if (payload[0] === 0xff) {
+      const code = payload.readUInt16LE(1);
+      // Newer servers put a "#" and a five character SQL state before the message
+      const message = payload.subarray(payload[3] === 0x23 ? 9 : 3).toString('utf8');
+      return { ...base(), protocol: 'mysql', error: `MySQL ${code}: ${message}` };
+    }
+
+    return { ...base(), protocol: 'mysql', error: `Unexpected MySQL handshake (protocol ${payload[0]})` };
+  }
+
+  // Sends AUTH when the URL has a password, then expects PING to be answered with PONG
+  private async runRedisPing(session: ProtocolSession, url: URL, base: () => SiteCheckProtocolResultBase): Promise<SiteCheckRedisResult> {
+    const command = (...args: string[]): string =>
+      `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+    const password = decodeURIComponent(url.password);
+    const username = decodeURIComponent(url.username);
+
+    if (password) {
+      session.write(username ? command('AUTH', username, password) : command('AUTH', password));
+      const reply = await session.readLine();
+      if (reply !== '+OK') {
+        return { ...base(), protocol: 'redis', authenticated: false, error: `Redis AUTH: ${reply.replace(/^-/, '')}` };
+      }
+    }
+
+    session.write(command('PING'));
+    const reply = await session.readLine();
+    if (reply !== '+PONG') {
+      return { ...base(), protocol: 'redis', authenticated: !!password, error: `Redis PING: ${reply.replace(/^-/, '')}` };
+    }
+
+    const result = { ...base(), protocol: 'redis' as const, isUp: true, authenticated: !!password };
+    session.write(command('QUIT'));
+    return result;
+  }
+
+  /**
+   * Upgrade the connection to a WebSocket, then send the configured message and wait for a reply that contains the
+   * expected text. Without a message or expected text the accepted upgrade is enough.
+   */
+  private async runWebSocketExchange(
+    session: ProtocolSession,
+    url: URL,
+    message: SiteCheckWebSocketMessage | undefined,
+    base: () => SiteCheckProtocolResultBase
+  ): Promise<SiteCheckWebSocketResult> {
+    const key = crypto.randomBytes(16).toString('base64');
+    session.write([
+      `GET ${url.pathname}${url.search} HTTP/1.1`,
+      `Host: ${url.host}`,
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Key: ${key}`,
+      'Sec-WebSocket-Version: 13',
+      '',
+      '',
+    ].join('\r\n'));
+
+    const head = await session.read(buffer => {
+      const end = buffer.indexOf('\r\n\r\n');
+      return end === -1 ? null : { value: buffer.subarray(0, end).toString('latin1'), length: end + 4 };
+    });
+    const [statusLine, ...headerLines] = head.split('\r\n');
+    const status = parseInt(statusLine.split(' ')[1], 10) || 0;
+    if (status !== 101) {
+      return { ...base(), protocol: 'websocket', status, error: `WebSocket upgrade refused with HTTP ${status}` };
+    }
+
+    const acceptHeader = headerLines.find(line => /^sec-websocket-accept:/i.test(line));
+    const accept = crypto.createHash('sha1').update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+    if (acceptHeader?.slice(acceptHeader.indexOf(':') + 1).trim() !== accept) {
+      return { ...base(), protocol: 'websocket', status, error: 'WebSocket upgrade without a valid Sec-WebSocket-Accept header' };
+    }
+
+    const send = message?.send || null;
+    const expect = message?.expect || null;
+    if (!send && !expect) {
+      const result = { ...base(), protocol: 'websocket' as const, isUp: true, status };
+      session.write(this.encodeWebSocketFrame(0x8, Buffer.from([0x03, 0xe8]))); // Close, 1000 normal closure
+      return result;
+    }
+
+    const sentAt = performance.now();
+    if (send) session.write(this.encodeWebSocketFrame(0x1, Buffer.from(send, 'utf8')));
+
+    // Messages are collected here, so a timeout can still report what did arrive
+    const received = { text: '' };
+    const replyTimeout = message?.timeout || this.timeout;
+    let timer: NodeJS.Timeout | undefined;
+    const matched = await Promise.race([
+      this.readWebSocketReply(session, expect, received),
+      new Promise<false>(resolve => {
+        timer = setTimeout(() => resolve(false), replyTimeout);
+      }),
+    ]).finally(() => clearTimeout(timer));
+
+    const reply = received.text.slice(0, this.maxTcpBannerBytes);
+    if (!matched) {
+      const error = expect
+        ? `Expected "${expect}" but received ${reply ? `"${reply}"` : 'nothing'} within ${replyTimeout} ms`
+        : `No reply within ${replyTimeout} ms`;
+      return { ...base(), protocol: 'websocket', status, reply, ...(expect ? { expectMatched: false } : {}), error };
+    }
+
+    const result = {
+      ...base(),
+      protocol: 'websocket' as const,
+      isUp: true,
+      status,
+      reply,
+      replyTime: Math.round(performance.now() - sentAt),
+      ...(expect ? { expectMatched: true } : {}),
+    };
+    session.write(this.encodeWebSocketFrame(0x8, Buffer.from([0x03, 0xe8])));
+    return result;
+  }
+
+  // Reads data frames until one contains the expected text, or any data frame without one. Pings are answered.
+  private async readWebSocketReply(session: ProtocolSession, expect: string | null, received: { text: string }): Promise<true> {
+    for (;;) {
+      const frame = await session.read(buffer => this.parseWebSocketFrame(buffer));
+
+      if (frame.opcode === 0x8) {
+        throw new Error(`WebSocket closed by the server${frame.payload.length >= 2 ? ` with code ${frame.payload.readUInt16BE(0)}` : ''}`);
+      }
+      if (frame.opcode === 0x9) {
+        session.write(this.encodeWebSocketFrame(0xa, frame.payload));
+        continue;
+      }
+      if (frame.opcode > 0x2) continue; // Pongs and reserved control frames
+
+      // Text, binary and continuation frames; expected text split across frames still matches
+      received.text = (received.text + frame.payload.toString('utf8')).slice(-this.maxWebSocketReplyBytes);
+      if (expect === null || received.text.includes(expect)) return true;
+    }
+  }
+
+  private parseWebSocketFrame(buffer: Buffer): { value: { opcode: number; payload: Buffer }; length: number } | null {
+    if (buffer.length < 2) return null;
+
+    const masked = (buffer[1] & 0x80) !== 0; // Servers must not mask, but unmask in case one does
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) return null;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return null;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    const payloadOffset = offset + (masked ? 4 : 0);
+    if (buffer.length < payloadOffset + length) return null;
+
+    let payload = buffer.subarray(payloadOffset, payloadOffset + length);
+    if (masked) {
+      const mask = buffer.subarray(offset, payloadOffset);
+      payload = Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]));
+    }
+    return { value: { opcode: buffer[0] & 0x0f, payload }, length: payloadOffset + length };
+  }
+
+  // Clients mask every frame they send
+  private encodeWebSocketFrame(opcode: number, payload: Buffer): Buffer {
+    const lengthBytes = payload.length < 126 ? 0 : payload.length < 65536 ? 2 : 8;
+    const header = Buffer.alloc(2 + lengthBytes);
+    header[0] = 0x80 | opcode; // Final frame
+    if (lengthBytes === 0) {
+      header[1] = 0x80 | payload.length;
+    } else if (lengthBytes === 2) {
+      header[1] = 0x80 | 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header[1] = 0x80 | 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    const mask = crypto.randomBytes(4);
+    return Buffer.concat([header, mask, Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]))]);
+  }
+
+  /**
+   * Call the standard grpc.health.v1.Health/Check service over HTTP/2, in plain text for grpc:// and with TLS for
+   * grpcs://. The server is up when it answers SERVING for the service, or for itself when no service is set.
+   */
+  private performGrpcHealthCheck(url: URL, host: string, port: number, useTls: boolean, service: string): Promise<SiteCheckGrpcResult> {
+    return new Promise(resolve => {
+      const startTime = performance.now();
+      let connectTime: number | null = null;
+      let tlsHandshakeTime: number | null = null;
+
+      const socket = useTls
+        ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host, ALPNProtocols: ['h2'], rejectUnauthorized: false })
+        : net.connect({ host, port });
+      socket.once('connect', () => {
+        connectTime = Math.round(performance.now() - startTime);
+      });
+      socket.once('secureConnect', () => {
+        tlsHandshakeTime = Math.round(performance.now() - startTime) - (connectTime ?? 0);
+      });
+
+      const client = http2.connect(`${useTls ? 'https' : 'http'}://${url.host}`, { createConnection: () => socket });
+      let settled = false;
+      const finish = (result: Partial<SiteCheckGrpcResult>): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        client.destroy();
+
+        const responseTime = Math.round(performance.now() - startTime);
+        resolve({
+          isUp: false,
+          host,
+          port,
+          tls: tlsHandshakeTime !== null,
+          responseTime,
+          timings: connectTime === null ? null : {
+            connect: connectTime,
+            tlsHandshake: tlsHandshakeTime,
+            handshake: Math.max(0, responseTime - connectTime - (tlsHandshakeTime ?? 0)),
+          },
+          protocol: 'grpc',
+          service,
+          ...result,
+        });
+      };
+      const timer = setTimeout(() => finish({ error: 'Timed out' }), this.timeout);
+      client.on('error', error => finish({ error: error.message }));
+
+      const request = client.request({
+        ':method': 'POST',
+        ':path': '/grpc.health.v1.Health/Check',
+        'content-type': 'application/grpc',
+        te: 'trailers',
+      });
+
+      let headers: http2.IncomingHttpHeaders = {};
+      const chunks: Buffer[] = [];
+      request.on('response', responseHeaders => {
+        headers = responseHeaders;
+      });
+      request.on('trailers', trailers => {
+        headers = { ...headers, ...trailers };
+      });
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('error', error => finish({ error: error.message }));
+      request.on('close', () => {
+        const httpStatus = Number(headers[':status']);
+        if (httpStatus !== 200) {
+          finish({ error: httpStatus ? `gRPC call failed with HTTP ${httpStatus}` : 'Stream closed without a response' });
+          return;
+        }
+
+        // A response without grpc-status did not come from a gRPC server
+        const grpcStatus = headers['grpc-status'] === undefined ? -1 : Number(headers['grpc-status']);
+        if (grpcStatus !== 0) {
+          const grpcMessage = decodeURIComponent(String(headers['grpc-message'] || ''));
+          const error = grpcStatus === 12
+            ? 'The server does not implement the gRPC health service'
+            : grpcStatus === 5
+              ? `Unknown service "${service}"`
+              : `gRPC status ${grpcStatus}${grpcMessage ? `: ${grpcMessage}` : ''}`;
+          finish({ grpcStatus, ...(grpcStatus === 5 ? { servingStatus: 'SERVICE_UNKNOWN' as const } : {}), error });
+          return;
+        }
+
+        const servingStatus = this.decodeGrpcServingStatus(Buffer.concat(chunks));
+        finish({
+          grpcStatus,
+          servingStatus,
+          isUp: servingStatus === 'SERVING',
+          ...(servingStatus === 'SERVING' ? {} : { error: `gRPC health status ${servingStatus}` }),
+        });
+      });
+
+      // A length-prefixed HealthCheckRequest, field 1 is the service name
+      const name = Buffer.from(service, 'utf8');
+      const message = name.length ? Buffer.concat([Buffer.from([0x0a]), this.encodeVarint(name.length), name]) : Buffer.alloc(0);
+      const prefix = Buffer.alloc(5);
+      prefix.writeUInt32BE(message.length, 1);
+      request.end(Buffer.concat([prefix, message]));
+    });
+  }
+
+  // Reads field 1, the only one, of a length-prefixed HealthCheckResponse; proto3 leaves out the default, UNKNOWN
+  private decodeGrpcServingStatus(body: Buffer): SiteCheckGrpcServingStatus {
+    const message = body.subarray(5, 5 + (body.length >= 5 ? body.readUInt32BE(1) : 0));
+    return message[0] === 0x08 ? this.grpcServingStatuses[message[1]] ?? 'UNKNOWN' : 'UNKNOWN';
+  }
+
+  private encodeVarint(value: number): Buffer {
+    const bytes: number[] = [];
+    while (value > 0x7f) {
+      bytes.push((value & 0x7f) | 0x80);
+      value >>>= 7;
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Check a URL and re-check it up to `retries` times with a short backoff while it is down, so a single dropped
+   * packet or timeout is not reported as downtime. The last attempt is returned with the errors of every failed one.
+   */
+  async monitorUrlWithConfirmation(url: string, options: SiteCheckOptions = {}, retries = 0): Promise<SiteMonitorResult> {
+    const attemptErrors: string[] = [];
+    let result = await this.monitorUrl(url, options);
+
+    while (!result.isUp) {
+      attemptErrors.push(this.getFailureReason(result));
+      if (attemptErrors.length > retries) break;
+
+      await new Promise(resolve => setTimeout(resolve, Math.min(this.maxConfirmationBackoff, this.confirmationBackoff * 2 ** (attemptErrors.length - 1))));
+      result = await this.monitorUrl(url, options);
+    }
+
+    return {
+      ...result,
+      attempts: attemptErrors.length + (result.isUp ? 1 : 0),
+      attemptErrors,
     };
   }
 
+  private getFailureReason(result: SiteMonitorResult): string {
+    if (result.protocolCheck?.error) return result.protocolCheck.error;
+    if (result.transactionCheck?.error) return result.transactionCheck.error;
+    if (result.httpCheck.error) return result.httpCheck.error;
+    return result.httpCheck.status ? `HTTP ${result.httpCheck.status}` : 'No response';
+  }
+
   /**
    * Monitor multiple URLs in parallel
    */
-  async monitorUrls(urls: string[], tcpPorts?: number[]): Promise<SiteMonitorResult[]> {
-    return Promise.all(urls.map(url => this.monitorUrl(url, tcpPorts)));
+  async monitorUrls(urls: string[], options: SiteCheckOptions = {}): Promise<SiteMonitorResult[]> {
+    return Promise.all(urls.map(url => this.monitorUrl(url, options)));
   }
 }
@@ -1,61 +1,200 @@
+import crypto from 'crypto';
 import { Redis } from 'ioredis';
-import { SiteCheckService } from './site-check.service';
-import cron, { ScheduledTask } from 'node-cron';
+import {
+  SiteCheckService,
+  SiteCheckContentChange,
+  SiteCheckContentRules,
+  SiteCheckDnsRecordType,
+  SiteCheckHttpRequest,
+  SiteCheckJsonAssertion,
+  SiteCheckProtocol,
+  SiteCheckTcpPort,
+  SiteCheckTransactionStep,
+  SiteCheckWebSocketMessage,
+  SiteMonitorResult
+} from './site-check.service';
+import { CheckScheduler } from './scheduler.service';
+import { ResultBuffer } from './result-buffer.service';
 import { logger } from '../utils/logger';
+import { Gauge, metrics, registry } from '../utils/metrics';
+import { getShardOwner } from '../utils/sharding';
 import { config } from '../config';
 
+const RESULTS_STREAM = 'check-results';
+// Trimmed approximately so results survive a central server outage without growing without bound
+const RESULTS_STREAM_MAX_LENGTH = 100000;
+const SITES_CONFIG_KEY = 'sites:config';
+const CONFIG_VERSION_KEY = 'sites:config:version';
+const CONFIG_LOG_KEY = 'sites:config:log';
+// Instances announce joining and leaving, so the others of their region rebalance right away
+const MEMBERSHIP_CHANNEL = 'worker-membership';
+// Held by the running instance of a worker ID, outside workers:* so it is not taken for an instance
+const WORKER_ID_LOCK_PREFIX = 'worker-id-locks:';
+const WORKER_ID_LOCK_TTL_SECONDS = 60;
+const SUBSCRIBED_CHANNELS = ['site-config-updates', 'check-confirmations', MEMBERSHIP_CHANNEL];
+const PROTOCOL_MONITOR_TYPES: Record<string, SiteCheckProtocol> = {
+  SMTP: 'smtp',
+  IMAP: 'imap',
+  POP3: 'pop3',
+  POSTGRES: 'postgres',
+  MYSQL: 'mysql',
+  REDIS: 'redis',
+  WEBSOCKET: 'websocket',
+  GRPC: 'grpc',
+};
+
 interface SiteConfig {
   id: string;
   url: string;
-  checkInterval: number; // in minutes
+  checkInterval: number; // in minutes, fractions for second-level intervals (0.5 = 30 seconds)
+  monitorType?: string; // HTTP, TRANSACTION or a protocol monitor (SMTP, IMAP, POP3, POSTGRES, MYSQL, REDIS, WEBSOCKET, GRPC)
   isActive: boolean;
   userId: string;
+  httpRequest?: SiteCheckHttpRequest;
+  contentRules?: SiteCheckContentRules;
+  jsonAssertions?: SiteCheckJsonAssertion[];
+  contentChange?: SiteCheckContentChange | null; // Content change detection, null when off
+  dnsRecordTypes?: SiteCheckDnsRecordType[];
+  tcpPorts?: SiteCheckTcpPort[];
+  transactionSteps?: SiteCheckTransactionStep[];
+  websocket?: SiteCheckWebSocketMessage;
+  grpcService?: string | null;
+  proxy?: string | null; // http(s):// or socks5:// proxy for HTTP and TLS checks
+  dnsResolvers?: string[]; // Nameservers whose answers are compared with the system resolver
+  confirmationRetries?: number; // Re-checks of a failure before it is reported down
+  regions?: string[]; // Regions that check the site, empty for every shared region
 }
 
 interface WorkerConfig {
+  workerId?: string; // Required and unique per instance, its credential and result sequence are tied to it
   region: string;
+  dedicated?: boolean; // Only check sites that list this region, e.g. a private worker for one customer
   checkTimeout?: number;
+  maxConcurrentChecks?: number;
+  resultBufferPath?: string; // File for results that could not be published while Redis was down
+  resultBufferMaxEntries?: number;
+  secret?: string; // Credential issued by the central server, results are signed with it
+}
+
+// A result waiting in the on-disk buffer
+interface BufferedResult {
+  siteId: string;
+  result: SiteMonitorResult;
+}
+
+// An entry of the versioned config log written by the central server
+interface ConfigLogEntry {
+  version: number;
+  action: 'update' | 'delete' | 'snapshot'; // A snapshot replaces every site, so the whole config is reloaded
+  siteIds?: string[];
+}
+
+export type TriggerCheckResult = 'queued' | 'busy' | 'not_found';
+
+export interface WorkerStatus {
+  ready: boolean;
+  redis: string; // ioredis connection status, 'ready' when connected
+  scheduledChecks: number;
+  runningChecks: number;
+  queuedChecks: number;
 }
 
-type ConfigUpdate = {
-  action: 'add' | 'update' | 'delete' | 'bulk';
-  site?: SiteConfig;
-  sites?: SiteConfig[];
+// Sent by the central server to have other regions check a site right away instead of at their next slot
+type ConfirmationRequest = {
+  siteId: string;
+  workerIds: string[]; // Empty for every worker
 };
 
 export class WorkerService {
   private readonly workerId: string;
   private readonly region: string;
+  private readonly dedicated: boolean;
   private readonly redis: Redis;
   private readonly siteChecker: SiteCheckService;
-  private readonly scheduledTasks: Map<string, ScheduledTask> = new Map();
+  private readonly scheduler: CheckScheduler;
+  private readonly resultBuffer: ResultBuffer<BufferedResult>;
+  private subscriber: Redis | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private startedAt = new Date();
   private isRunning = false;
-  private siteConfigs: Map<string, SiteConfig> = new Map();
+  private isInitialized = false;
+  private isReplaying = false;
+  private isSyncing = false;
+  private isSyncRequested = false;
+  private configVersion = 0; // Last config version applied, 0 before the first snapshot
+  private readonly secret: string | undefined;
+  private readonly instanceToken = crypto.randomUUID(); // Tells this process apart from another one with the same ID
+  // Starts from the clock so it keeps growing across restarts without being stored
+  private sequence = Date.now() * 1000;
+  private siteConfigs: Map<string, SiteConfig> = new Map(); // Every site of the region, checked or not
+  private regionInstances: string[] = []; // Live instances of this region the sites are sharded across, sorted
 
   constructor(workerConfig: WorkerConfig) {
     console.log(config.redis)
-    this.workerId = `${workerConfig.region}`;
+    // Worker IDs end up in Redis keys after a colon. There is no default: one derived from the hostname changes
+    // whenever a container is recreated, which would orphan the credential issued for it
+    this.workerId = (workerConfig.workerId || '').replace(/:/g, '-');
     this.region = workerConfig.region;
+    this.dedicated = !!workerConfig.dedicated;
+    this.secret = workerConfig.secret;
     this.redis = new Redis({
       host: config.redis.host,
       port: config.redis.port,
       password: config.redis.password,
+      // Fail commands while disconnected instead of queueing them, so results go to the on-disk buffer
+      enableOfflineQueue: false,
     });
     this.siteChecker = new SiteCheckService(this.workerId);
+    this.scheduler = new CheckScheduler(workerConfig.maxConcurrentChecks || 50);
+    this.resultBuffer = new ResultBuffer(
+      workerConfig.resultBufferPath || 'data/result-buffer.jsonl',
+      workerConfig.resultBufferMaxEntries || 10000
+    );
 
     this.redis.on('error', (error: Error) => {
+      metrics.redisErrorsTotal.inc();
       logger.error('Redis connection error:', error);
     });
+
+    // Checks keep running from the cached site configs during an outage; once Redis is back the worker
+    // registers again and replays what it buffered
+    this.redis.on('ready', () => {
+      if (!this.isInitialized) return;
+      logger.info('Reconnected to Redis');
+      this.sendHeartbeat()
+        .then(() => this.refreshMembership())
+        .then(() => this.replayBufferedResults())
+        .catch(error => logger.error('Failed to recover after reconnecting to Redis:', error));
+    });
+
+    registry.register(new Gauge('uptime_worker_scheduled_checks', 'Sites with a scheduled check', () => this.scheduler.size));
+    registry.register(new Gauge('uptime_worker_running_checks', 'Checks running now', () => this.scheduler.running));
+    registry.register(new Gauge('uptime_worker_queued_checks', 'Checks due and waiting for a free slot', () => this.scheduler.queued));
+    registry.register(new Gauge('uptime_worker_redis_connected', '1 while the Redis connection is ready', () => (this.redis.status === 'ready' ? 1 : 0)));
+    registry.register(new Gauge('uptime_worker_buffered_results', 'Results waiting on disk to be published', () => this.resultBuffer.size));
   }
 
   async start(): Promise<void> {
     if (this.isRunning) return;
+    if (!this.workerId) {
+      throw new Error('WORKER_ID is not set; give every instance its own stable ID and the credential issued for it');
+    }
     this.isRunning = true;
 
+    if (!this.secret) {
+      logger.warn('WORKER_SECRET is not set, the central server will reject the results of this worker');
+    }
+
     try {
+      await this.resultBuffer.init();
+      await this.waitForRedis();
+      await this.claimWorkerId();
       await this.registerWorker();
-      await this.initializeChecks();
+      // Subscribe first, so no update published while the snapshot loads is missed
       await this.subscribeToConfigUpdates();
+      await this.syncConfig();
+      this.isInitialized = true;
+      await this.replayBufferedResults();
       logger.info(`Worker ${this.workerId} started successfully in region ${this.region}`);
     } catch (error) {
       this.isRunning = false;
@@ -66,174 +205,459 @@ export class WorkerService {
 
   async stop(): Promise<void> {
     this.isRunning = false;
+    this.isInitialized = false;
 
-    for (const task of this.scheduledTasks.values()) {
-      task.stop();
-    }
-    this.scheduledTasks.clear();
+    this.scheduler.clear();
     this.siteConfigs.clear();
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
 
     await this.unregisterWorker();
+    this.subscriber?.disconnect();
     await this.redis.quit();
     logger.info(`Worker ${this.workerId} stopped successfully`);
   }
 
+  getStatus(): WorkerStatus {
+    return {
+      // Ready once the sites are loaded and config updates are being received
+      ready: this.isInitialized && this.redis.status === 'ready',
+      redis: this.redis.status,
+      scheduledChecks: this.scheduler.size,
+      runningChecks: this.scheduler.running,
+      queuedChecks: this.scheduler.queued,
+    };
+  }
+
+  /**
+   * Check a site right away, outside its schedule
+   */
+  triggerCheck(siteId: string): TriggerCheckResult {
+    // Sites of the region owned by another instance are checked there
+    if (!this.siteConfigs.get(siteId)?.isActive || !this.scheduler.has(siteId)) return 'not_found';
+    return this.scheduler.trigger(siteId) ? 'queued' : 'busy';
+  }
+
+  private async waitForRedis(): Promise<void> {
+    if (this.redis.status === 'ready') return;
+    logger.info('Waiting for Redis');
+    await new Promise<void>(resolve => this.redis.once('ready', () => resolve()));
+  }
+
+  /**
+   * Make sure no other running instance uses this worker ID. Replicas sharing one ID would share its heartbeat key
+   * and interleave its result sequence, so the central server would reject their results as replays. The lock of a
+   * previous run of this instance that did not stop cleanly is waited out.
+   */
+  private async claimWorkerId(): Promise<void> {
+    const lockKey = `${WORKER_ID_LOCK_PREFIX}${this.workerId}`;
+    const deadline = Date.now() + (WORKER_ID_LOCK_TTL_SECONDS + 5) * 1000;
+
+    while (Date.now() < deadline) {
+      const claimed = await this.redis.set(lockKey, this.instanceToken, 'EX', WORKER_ID_LOCK_TTL_SECONDS, 'NX');
+      if (claimed === 'OK') return;
+
+      logger.warn(`Worker ID ${this.workerId} is held by another instance, waiting for its lock to expire`);
+      await new Promise(resolve => setTimeout(resolve, 5000));
+    }
+
+    throw new Error(`Worker ID ${this.workerId} is in use by another running instance, give each instance its own WORKER_ID`);
+  }
+
   private async registerWorker(): Promise<void> {
+    this.startedAt = new Date();
+    await this.sendHeartbeat();
+    await this.redis.publish(MEMBERSHIP_CHANNEL, JSON.stringify({ workerId: this.workerId, region: this.region }));
+    await this.refreshMembership();
+
+    this.heartbeatTimer = setInterval(() => {
+      // The config version and the instances of the region are compared on every heartbeat, so a missed update
+      // or an instance that died without unregistering is picked up within a heartbeat of its key expiring
+      this.sendHeartbeat()
+        .then(() => this.refreshMembership())
+        .then(() => this.syncConfig())
+        .then(() => this.replayBufferedResults())
+        .catch(error => logger.warn('Failed to send heartbeat:', error));
+    }, 30000); // Heartbeat every 30 seconds
+  }
+
+  private async sendHeartbeat(): Promise<void> {
     const workerKey = `workers:${this.workerId}`;
+    // Lag is how late checks started, it grows when the pool cannot keep up with the sites
+    const stats = this.scheduler.getStats();
+
+    // Every field is written each time, since the key expires while Redis is unreachable
     await this.redis.hmset(workerKey, {
       region: this.region,
-      startedAt: new Date().toISOString(),
+      dedicated: this.dedicated.toString(),
+      startedAt: this.startedAt.toISOString(),
       lastHeartbeat: new Date().toISOString(),
-      activeSites: '0'
+      activeSites: stats.scheduled.toString(),
+      queueLagMs: stats.lagMs.toString(),
+      queuedChecks: stats.queued.toString(),
+      runningChecks: stats.running.toString(),
+      configVersion: this.configVersion.toString(),
+      configChecksum: this.getConfigChecksum()
     });
-
     await this.redis.expire(workerKey, 60); // TTL 60 seconds
-
-    setInterval(async () => {
-      await this.redis.hmset(workerKey, {
-        lastHeartbeat: new Date().toISOString(),
-        activeSites: this.scheduledTasks.size.toString()
-      });
-      await this.redis.expire(workerKey, 60);
-    }, 30000); // Heartbeat every 30 seconds
+    await this.redis.set(`${WORKER_ID_LOCK_PREFIX}${this.workerId}`, this.instanceToken, 'EX', WORKER_ID_LOCK_TTL_SECONDS);
   }
 
   private async unregisterWorker(): Promise<void> {
-    await this.redis.del(`workers:${this.workerId}`);
+    await this.redis.del(`workers:${this.workerId}`, `${WORKER_ID_LOCK_PREFIX}${this.workerId}`);
+    await this.redis.publish(MEMBERSHIP_CHANNEL, JSON.stringify({ workerId: this.workerId, region: this.region }));
   }
 
-  private async initializeChecks(): Promise<void> {
-    const sites = await this.getSiteConfigs();
-    logger.info(`Initializing checks for ${sites.length} sites`);
+  /**
+   * Read the live instances of this region from their heartbeat keys and move sites between them if they changed
+   */
+  private async refreshMembership(): Promise<void> {
+    const workerKeys = await this.redis.keys('workers:*');
+    const regions = await Promise.all(workerKeys.map(workerKey => this.redis.hget(workerKey, 'region')));
+    const instances = workerKeys
+      .filter((_workerKey, index) => regions[index] === this.region)
+      .map(workerKey => workerKey.split(':')[1]);
+    // Checks go on while this instance's own key is missing, e.g. right after an outage
+    if (!instances.includes(this.workerId)) instances.push(this.workerId);
+    instances.sort();
+
+    if (instances.join('\n') === this.regionInstances.join('\n')) return;
+    logger.info(`Instances of region ${this.region}: ${instances.join(', ')}`);
+    this.regionInstances = instances;
+    this.rebalance();
+  }
 
-    // Store sites in memory
-    sites.forEach(site => {
-      this.siteConfigs.set(site.id, site);
-      if (site.isActive) {
-        this.scheduleSiteCheck(site);
+  private ownsSite(siteId: string): boolean {
+    return this.regionInstances.length <= 1 || getShardOwner(siteId, this.regionInstances) === this.workerId;
+  }
+
+  // Picks up the sites this instance now owns and drops the ones another instance took over
+  private rebalance(): void {
+    let added = 0;
+    let removed = 0;
+
+    for (const site of this.siteConfigs.values()) {
+      const isScheduled = this.scheduler.has(site.id);
+      if (this.ownsSite(site.id) && !isScheduled) {
+        // Taken over sites keep their slot, the previous owner checked them at the same phase
+        this.scheduleSiteCheck(site, false);
+        added++;
+      } else if (!this.ownsSite(site.id) && isScheduled) {
+        this.scheduler.unschedule(site.id);
+        removed++;
       }
-    });
+    }
+
+    if (added || removed) {
+      logger.info(`Rebalanced sites across ${this.regionInstances.length} instances: ${added} taken over, ${removed} handed off`);
+    }
   }
 
-  private async getSiteConfigs(): Promise<SiteConfig[]> {
+  /**
+   * Bring the cached site configs up to the latest config version. The changes since the applied version are read
+   * from the change log, or the whole snapshot when the log no longer reaches back that far. Safe to call at any
+   * time, e.g. after a missed pub/sub message, since nothing changes when the worker is already up to date.
+   */
+  private async syncConfig(): Promise<void> {
+    // One sync at a time; a request while one runs is served by running again once it is done
+    if (this.isSyncing) {
+      this.isSyncRequested = true;
+      return;
+    }
+    this.isSyncing = true;
+
     try {
-      const rawConfigs = await this.redis.hgetall('sites:config');
-      return Object.values(rawConfigs)
-        .map((config) => JSON.parse(config as string))
-        .filter(site => site.isActive); // Only return active sites
-    } catch (error) {
-      logger.error('Failed to get site configs:', error);
-      return [];
+      do {
+        this.isSyncRequested = false;
+        await this.applyConfigChanges();
+      } while (this.isSyncRequested);
+    } finally {
+      this.isSyncing = false;
     }
   }
 
-  private scheduleSiteCheck(site: SiteConfig): void {
-    if (!site.isActive) {
-      logger.info(`Skipping inactive site ${site.id}`);
-      return;
+  private async applyConfigChanges(): Promise<void> {
+    const latestVersion = parseInt(await this.redis.get(CONFIG_VERSION_KEY) || '0', 10);
+    if (this.configVersion && latestVersion === this.configVersion) return;
+
+    const rawEntries = this.configVersion && latestVersion > this.configVersion
+      ? await this.redis.zrangebyscore(CONFIG_LOG_KEY, `(${this.configVersion}`, '+inf')
+      : [];
+    const entries = rawEntries.map(entry => JSON.parse(entry) as ConfigLogEntry);
+
+    // A gap means the log was trimmed past the applied version, a lower version that Redis lost its data
+    if (!entries.length || entries[0].version !== this.configVersion + 1 || entries.some(entry => entry.action === 'snapshot')) {
+      await this.loadConfigSnapshot();
+    } else {
+      const siteIds = [...new Set(entries.flatMap(entry => entry.siteIds || []))];
+      const rawConfigs = siteIds.length ? await this.redis.hmget(SITES_CONFIG_KEY, ...siteIds) : [];
+      siteIds.forEach((siteId, index) => this.applySiteConfig(siteId, rawConfigs[index]));
+
+      this.configVersion = entries[entries.length - 1].version;
+      logger.info(`Applied config version ${this.configVersion}: ${siteIds.length} sites changed`);
     }
 
-    // Remove existing task if exists
-    const existingTask = this.scheduledTasks.get(site.id);
-    if (existingTask) {
-      existingTask.stop();
-      this.scheduledTasks.delete(site.id);
+    await this.acknowledgeConfig();
+  }
+
+  /**
+   * Replace the cached site configs with the snapshot in Redis. Only sites that changed are rescheduled, so the
+   * others keep their slots, and the first checks are spread over the interval instead of all running now.
+   */
+  private async loadConfigSnapshot(): Promise<void> {
+    const results = await this.redis.multi().get(CONFIG_VERSION_KEY).hgetall(SITES_CONFIG_KEY).exec();
+    if (!results || results.some(([error]) => error)) {
+      throw new Error('Failed to read the site config snapshot');
     }
 
-    const cronExpression = site.checkInterval === 0.5 ? `*/30 * * * * *` : `*/${site.checkInterval} * * * *`;
+    const version = results[0][1] as string | null;
+    const rawConfigs = results[1][1] as Record<string, string>;
+    const sites = Object.values(rawConfigs)
+      .map(config => JSON.parse(config) as SiteConfig)
+      .filter(site => site.isActive && this.isAssigned(site)); // Only active sites of this region are checked
+    const siteIds = new Set(sites.map(site => site.id));
+    let changed = 0;
+
+    for (const id of [...this.siteConfigs.keys()]) {
+      if (!siteIds.has(id)) {
+        this.siteConfigs.delete(id);
+        this.scheduler.unschedule(id);
+        changed++;
+      }
+    }
 
-    this.performCheck(site).catch((error) => {
-      logger.error(`Initial check failed for ${site.url}:`, error);
-    });
+    for (const site of sites) {
+      const cached = this.siteConfigs.get(site.id);
+      if (cached && JSON.stringify(cached) === JSON.stringify(site)) continue;
 
-    const task = cron.schedule(cronExpression, async () => {
-      await this.performCheck(site);
-    });
+      this.siteConfigs.set(site.id, site);
+      this.scheduleSiteCheck(site, false);
+      changed++;
+    }
 
-    this.scheduledTasks.set(site.id, task);
-    logger.info(`Scheduled check for site ${site.id} with interval ${site.checkInterval} minutes`);
+    this.configVersion = parseInt(version || '0', 10);
+    logger.info(`Loaded config snapshot version ${this.configVersion}: ${changed} changed, ${this.scheduler.size} active sites`);
+  }
 
-    // Perform first check immediately
-    this.performCheck(site).catch((error) => {
-      logger.error(`Initial check failed for ${site.url}:`, error);
-    });
+  private applySiteConfig(siteId: string, rawConfig: string | null): void {
+    const site = rawConfig ? JSON.parse(rawConfig) as SiteConfig : null;
+
+    // Deleted, deactivated or moved to other regions
+    if (!site || !site.isActive || !this.isAssigned(site)) {
+      if (this.siteConfigs.delete(siteId)) {
+        this.scheduler.unschedule(siteId);
+      }
+      return;
+    }
+
+    const cached = this.siteConfigs.get(siteId);
+    if (cached && JSON.stringify(cached) === JSON.stringify(site)) return;
+
+    // New and changed sites are checked right away
+    this.siteConfigs.set(siteId, site);
+    this.scheduleSiteCheck(site);
+  }
+
+  // Same rule as the central server uses to decide which workers a round waits for
+  private isAssigned(site: SiteConfig): boolean {
+    return site.regions?.length ? site.regions.includes(this.region) : !this.dedicated;
+  }
+
+  private async acknowledgeConfig(): Promise<void> {
+    const workerKey = `workers:${this.workerId}`;
+    // Written with the TTL, so an ack landing after the heartbeat key expired does not leave a key that never
+    // expires and counts as a live instance in sharding
+    await this.redis.multi()
+      .hset(workerKey, {
+        configVersion: this.configVersion.toString(),
+        configChecksum: this.getConfigChecksum(),
+        configSyncedAt: new Date().toISOString()
+      })
+      .expire(workerKey, 60)
+      .exec();
+  }
+
+  // Computed the same way by the central server over the active sites in Redis, so it can spot a worker that drifted
+  private getConfigChecksum(): string {
+    const hash = crypto.createHash('sha1');
+    [...this.siteConfigs.values()]
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .forEach(site => hash.update(`${site.id}:${JSON.stringify(site)}\n`));
+    return hash.digest('hex');
+  }
+
+  private scheduleSiteCheck(site: SiteConfig, runImmediately = true): void {
+    if (!site.isActive) {
+      logger.info(`Skipping inactive site ${site.id}`);
+      return;
+    }
+
+    if (!this.ownsSite(site.id)) {
+      // Another instance of the region checks it; a config change may have moved it there
+      this.scheduler.unschedule(site.id);
+      return;
+    }
+
+    // Replaces the existing job of the site, if any
+    this.scheduler.schedule(site.id, site.checkInterval * 60 * 1000, () => this.performCheck(site), { runImmediately });
+    logger.info(`Scheduled check for site ${site.id} with interval ${site.checkInterval} minutes`);
   }
 
   private async performCheck(site: SiteConfig): Promise<void> {
+    const startedAt = Date.now();
+
     try {
-      const result = await this.siteChecker.monitorUrl(site.url);
-      const checksKey = `checks:${site.id}:${this.workerId}`;
-      this.redis.set(checksKey, JSON.stringify(result), 'EX', 600);
+      const result = await this.siteChecker.monitorUrlWithConfirmation(site.url, {
+        httpRequest: site.httpRequest,
+        contentRules: site.contentRules,
+        jsonAssertions: site.jsonAssertions,
+        contentChange: site.contentChange,
+        dnsRecordTypes: site.dnsRecordTypes,
+        tcpPorts: site.tcpPorts,
+        transactionSteps: site.transactionSteps,
+        protocol: PROTOCOL_MONITOR_TYPES[site.monitorType || ''],
+        websocket: site.websocket,
+        grpcService: site.grpcService,
+        proxy: site.proxy,
+        dnsResolvers: site.dnsResolvers,
+      }, site.confirmationRetries || 0);
+      this.recordCheckMetrics(result, (Date.now() - startedAt) / 1000);
+      await this.publishResult({ siteId: site.id, result });
       logger.debug(`Check completed for site ${site.url}`);
     } catch (error) {
       logger.error(`Error checking site ${site.url}:`, error);
     }
   }
 
-  private async subscribeToConfigUpdates(): Promise<void> {
-    const subscriber = this.redis.duplicate();
-    await subscriber.subscribe('site-config-updates');
-
-    subscriber.on('message', async (_channel: string, message: string) => {
+  private async publishResult(entry: BufferedResult): Promise<void> {
+    // While older results are still buffered, newer ones queue behind them so they are published in order
+    if (this.resultBuffer.size === 0 && !this.isReplaying && this.redis.status === 'ready') {
       try {
-        const update = JSON.parse(message) as ConfigUpdate;
-        logger.info(`Received config update: ${update.action}`);
-
-        switch (update.action) {
-          case 'add':
-          case 'update':
-            if (update.site) {
-              this.siteConfigs.set(update.site.id, update.site);
-              if (update.site.isActive) {
-                this.scheduleSiteCheck(update.site);
-              } else {
-                // Stop monitoring if site is inactive
-                const task = this.scheduledTasks.get(update.site.id);
-                if (task) {
-                  task.stop();
-                  this.scheduledTasks.delete(update.site.id);
-                }
-              }
-            }
-            break;
-
-          case 'delete':
-            if (update.site) {
-              this.siteConfigs.delete(update.site.id);
-              const task = this.scheduledTasks.get(update.site.id);
-              if (task) {
-                task.stop();
-                this.scheduledTasks.delete(update.site.id);
-              }
-            }
-            break;
-
-          case 'bulk':
-            if (update.sites) {
-              // Stop all existing tasks
-              this.scheduledTasks.forEach(task => task.stop());
-              this.scheduledTasks.clear();
-              this.siteConfigs.clear();
-
-              // Set up new sites
-              update.sites.forEach(site => {
-                this.siteConfigs.set(site.id, site);
-                if (site.isActive) {
-                  this.scheduleSiteCheck(site);
-                }
-              });
-              logger.info(`Bulk update completed: ${this.scheduledTasks.size} active sites`);
-            }
-            break;
-
-          default:
-            logger.warn(`Unknown update action: ${update.action}`);
-        }
+        await this.addToStream(entry);
+        return;
       } catch (error) {
-        logger.error('Error processing config update:', error);
+        logger.warn(`Failed to publish result for site ${entry.siteId}, buffering it:`, error);
+      }
+    }
+
+    await this.resultBuffer.push(entry);
+  }
+
+  private async addToStream({ siteId, result }: BufferedResult): Promise<void> {
+    const payload = JSON.stringify(result);
+    // Signed when it is sent rather than when it was checked, so buffered results get sequence numbers in order too
+    const sequence = (++this.sequence).toString();
+    const signature = this.secret
+      ? crypto.createHmac('sha256', this.secret).update(`${this.workerId}\n${siteId}\n${sequence}\n${payload}`).digest('hex')
+      : '';
+
+    try {
+      // Each result is appended once; the central server's consumer group reads it exactly once
+      await this.redis.xadd(
+        RESULTS_STREAM, 'MAXLEN', '~', RESULTS_STREAM_MAX_LENGTH, '*',
+        'siteId', siteId,
+        'workerId', this.workerId,
+        'sequence', sequence,
+        'signature', signature,
+        'result', payload
+      );
+    } catch (error) {
+      metrics.resultPublishFailuresTotal.inc();
+      throw error;
+    }
+  }
+
+  private async replayBufferedResults(): Promise<void> {
+    if (this.isReplaying || !this.resultBuffer.size || this.redis.status !== 'ready') return;
+    this.isReplaying = true;
+
+    try {
+      let replayed = 0;
+      // Results buffered while the replay ran are picked up by the next round
+      while (this.resultBuffer.size && this.redis.status === 'ready') {
+        const published = await this.resultBuffer.replay(entry => this.addToStream(entry));
+        if (!published) break;
+        replayed += published;
+      }
+      logger.info(`Replayed ${replayed} buffered results, ${this.resultBuffer.size} left`);
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  private recordCheckMetrics(result: SiteMonitorResult, durationSeconds: number): void {
+    metrics.checksTotal.inc({ result: result.isUp ? 'up' : 'down' });
+    metrics.checkDuration.observe(durationSeconds);
+    metrics.checkRetriesTotal.inc({}, Math.max(0, result.attempts - 1));
+    if (result.httpCheck.status) {
+      metrics.httpResponseTime.observe(result.httpCheck.responseTime / 1000);
+    }
+
+    const failures: Record<string, boolean> = {
+      http: !result.httpCheck.isUp,
+      ping: !result.pingCheck.isUp,
+      dns: !result.dnsCheck.isResolved,
+      tcp: result.tcpChecks.some(tcpCheck => !tcpCheck.isConnected),
+      tls: !!result.tlsCheck && !(result.tlsCheck.isTrusted && result.tlsCheck.hostnameMatches),
+      transaction: !!result.transactionCheck && !result.transactionCheck.isUp,
+      protocol: !!result.protocolCheck && !result.protocolCheck.isUp,
+    };
+    Object.entries(failures).forEach(([type, failed]) => {
+      if (failed) metrics.checkFailuresTotal.inc({ type });
+    });
+  }
+
+  private async subscribeToConfigUpdates(): Promise<void> {
+    // Subscriptions are renewed by hand after a reconnect, followed by a sync, since any update messages
+    // published while the connection was down are lost
+    const subscriber = this.redis.duplicate({ autoResubscribe: false, enableOfflineQueue: true });
+    this.subscriber = subscriber;
+    await subscriber.subscribe(...SUBSCRIBED_CHANNELS);
+
+    subscriber.on('error', (error: Error) => {
+      logger.error('Redis subscriber connection error:', error);
+    });
+
+    // The first connection is already up once subscribe() resolves, so every ready event from here on is a reconnect
+    subscriber.on('ready', () => {
+      subscriber.subscribe(...SUBSCRIBED_CHANNELS)
+        .then(() => this.syncConfig())
+        .catch(error => logger.error('Failed to resubscribe to configuration updates:', error));
+    });
+
+    subscriber.on('message', (channel: string, message: string): void => {
+      if (channel === 'check-confirmations') {
+        this.handleConfirmationRequest(message);
+        return;
       }
+
+      if (channel === MEMBERSHIP_CHANNEL) {
+        this.refreshMembership().catch(error => {
+          logger.error('Error refreshing region instances:', error);
+        });
+        return;
+      }
+
+      // Update messages only say that the config changed; the worker reads the changes from the config log
+      this.syncConfig().catch(error => {
+        logger.error('Error processing config update:', error);
+      });
     });
 
     logger.info('Subscribed to configuration updates');
   }
+
+  private handleConfirmationRequest(message: string): void {
+    try {
+      const request = JSON.parse(message) as ConfirmationRequest;
+      if (request.workerIds.length && !request.workerIds.includes(this.workerId)) return;
+
+      // A check that is already queued or running will report soon anyway
+      if (this.scheduler.trigger(request.siteId)) {
+        logger.info(`Running confirmation check for site ${request.siteId}`);
+      }
+    } catch (error) {
+      logger.error('Error processing confirmation request:', error);
+    }
+  }
 }
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+
+export interface HtmlContentOptions {
+  ignoreSelectors?: string[]; // Simple selectors: tag, #id, .class and [attr] or [attr=value], combined like div.ad
+  ignorePatterns?: string[]; // Regular expressions removed from the raw HTML first
+  maxLength?: number; // Characters of normalized text to keep
+}
+
+export interface HtmlContent {
+  hash: string; // sha256 of the whole normalized text
+  text: string; // One line per block of visible text, plus [script], [iframe] and [refresh] lines for what the page loads
+  truncated: boolean;
+}
+
+interface SimpleSelector {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+  attributes: { name: string; value: string | null }[];
+}
+
+// Comments, doctypes and tags; attribute values may contain >
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'option', 'p', 'pre', 'section',
+  'table', 'td', 'th', 'title', 'tr', 'ul',
+]);
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Reduce an HTML page to the parts a visitor would notice when it changes: visible text and the scripts, frames and
+ * redirects it loads. Markup, inline scripts, styles and comments are dropped, so cache-busting attributes or nonces
+ * do not count as changes, and dynamic regions can be left out with selectors or regular expressions.
+ */
+export const normalizeHtml = (html: string, options: HtmlContentOptions = {}): HtmlContent => {
+  let source = html;
+  (options.ignorePatterns || []).forEach(pattern => {
+    try {
+      source = source.replace(new RegExp(pattern, 'g'), '');
+    } catch {
+      // Patterns are validated when they are saved; one that still does not compile is skipped, not a failed check
+    }
+  });
+
+  const selectors = (options.ignoreSelectors || []).map(parseSelector).filter((selector): selector is SimpleSelector => !!selector);
+  const lines: string[] = [];
+  let line = '';
+  let skipUntil: { tag: string; depth: number } | null = null;
+  let position = 0;
+  const tokens = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  const flush = (): void => {
+    const text = line.replace(/\s+/g, ' ').trim();
+    if (text) lines.push(text);
+    line = '';
+  };
+
+  while ((match = tokens.exec(source))) {
+    const [token, closing, rawTag = '', rawAttributes = ''] = match;
+    const start = match.index;
+    if (!skipUntil) line += decodeEntities(source.slice(position, start));
+    position = start + token.length;
+    if (!rawTag) continue; // Comment or doctype
+
+    const tag = rawTag.toLowerCase();
+
+    // Inside an ignored element, only track nesting of its own tag to find where it ends
+    if (skipUntil) {
+      if (tag === skipUntil.tag && !VOID_TAGS.has(tag) && !rawAttributes.endsWith('/')) {
+        skipUntil.depth += closing ? -1 : 1;
+        if (skipUntil.depth === 0) skipUntil = null;
+      }
+      continue;
+    }
+    if (closing) {
+      if (BLOCK_TAGS.has(tag)) flush();
+      continue;
+    }
+
+    const attributes = parseAttributes(rawAttributes);
+    if (selectors.some(selector => matchesSelector(selector, tag, attributes))) {
+      if (!VOID_TAGS.has(tag) && !rawAttributes.trim().endsWith('/')) skipUntil = { tag, depth: 1 };
+      continue;
+    }
+
+    if (BLOCK_TAGS.has(tag)) flush();
+    // Without the query string, so a cache-busting version is not a change
+    if ((tag === 'script' || tag === 'iframe') && attributes.get('src')) {
+      flush();
+      lines.push(`[${tag}] ${attributes.get('src')?.split(/[?#]/)[0]}`);
+    }
+    if (tag === 'meta' && attributes.get('http-equiv')?.toLowerCase() === 'refresh') {
+      flush();
+      lines.push(`[refresh] ${attributes.get('content') || ''}`);
+    }
+
+    // The content of raw text elements is not visible text
+    if (tag === 'script' || tag === 'style' || tag === 'template') {
+      const end = source.toLowerCase().indexOf(`</${tag}`, position);
+      position = end === -1 ? source.length : end;
+      tokens.lastIndex = position;
+    }
+  }
+  if (!skipUntil) line += decodeEntities(source.slice(position));
+  flush();
+
+  const text = lines.join('\n');
+  const maxLength = options.maxLength ?? text.length;
+
+  return {
+    hash: crypto.createHash('sha256').update(text).digest('hex'),
+    text: text.slice(0, maxLength),
+    truncated: text.length > maxLength,
+  };
+};
+
+const parseSelector = (selector: string): SimpleSelector | null => {
+  const parsed: SimpleSelector = { tag: null, id: null, classes: [], attributes: [] };
+  const pattern = /([a-zA-Z][\w-]*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/gy;
+  const trimmed = selector.trim();
+  let consumed = 0;
+
+  for (const match of trimmed.matchAll(pattern)) {
+    const [token, tag, id, className, attribute, ...values] = match;
+    if (tag) parsed.tag = tag.toLowerCase();
+    if (id) parsed.id = id;
+    if (className) parsed.classes.push(className);
+    if (attribute) parsed.attributes.push({ name: attribute.toLowerCase(), value: values.find(value => value !== undefined) ?? null });
+    consumed += token.length;
+  }
+
+  // Combinators and pseudo-classes are not supported; such a selector matches nothing rather than too much
+  return trimmed && consumed === trimmed.length ? parsed : null;
+};
+
+const parseAttributes = (rawAttributes: string): Map<string, string> => {
+  const attributes = new Map<string, string>();
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of rawAttributes.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(name.toLowerCase(), decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? ''));
+  }
+  return attributes;
+};
+
+const matchesSelector = (selector: SimpleSelector, tag: string, attributes: Map<string, string>): boolean => {
+  const classes = (attributes.get('class') || '').split(/\s+/);
+  return (!selector.tag || selector.tag === tag) &&
+    (!selector.id || attributes.get('id') === selector.id) &&
+    selector.classes.every(className => classes.includes(className)) &&
+    selector.attributes.every(({ name, value }) => attributes.has(name) && (value === null || attributes.get(name) === value));
+};
+
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return ENTITIES[name.toLowerCase()] ?? entity;
+    const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+};
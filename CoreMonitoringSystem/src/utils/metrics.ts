@@ -0,0 +1,111 @@
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const escapeLabelValue = (value: string): string => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (!entries.length) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+// Series are keyed by their rendered labels, so the same labels in any order share a series
+const seriesKey = (labels: Labels): string => formatLabels(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))));
+
+export class Counter implements Metric {
+  private readonly values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(private readonly name: string, private readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) || { labels, value: 0 };
+    series.value += amount;
+    this.values.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * A gauge whose value is read when it is rendered, e.g. the size of a queue
+ */
+export class Gauge implements Metric {
+  constructor(private readonly name: string, private readonly help: string, private readonly collect: () => number) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(private readonly name: string, private readonly help: string, private readonly buckets: number[]) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics in the Prometheus text exposition format, served by the worker at /metrics
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return `${this.metrics.flatMap(metric => metric.render()).join('\n')}\n`;
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export const metrics = {
+  checksTotal: registry.register(new Counter('uptime_worker_checks_total', 'Checks run, by result')),
+  checkFailuresTotal: registry.register(new Counter('uptime_worker_check_failures_total', 'Failed checks, by the kind of check that failed')),
+  checkRetriesTotal: registry.register(new Counter('uptime_worker_check_retries_total', 'Re-checks of a failure before it was reported')),
+  checkDuration: registry.register(new Histogram('uptime_worker_check_duration_seconds', 'Time to run a check, including re-checks', LATENCY_BUCKETS)),
+  httpResponseTime: registry.register(new Histogram('uptime_worker_http_response_seconds', 'HTTP response time of checked sites', LATENCY_BUCKETS)),
+  schedulerLag: registry.register(new Histogram('uptime_worker_scheduler_lag_seconds', 'Delay between a check being due and starting', LATENCY_BUCKETS)),
+  resultPublishFailuresTotal: registry.register(new Counter('uptime_worker_result_publish_failures_total', 'Results that could not be written to the results stream')),
+  redisErrorsTotal: registry.register(new Counter('uptime_worker_redis_errors_total', 'Redis connection errors')),
+  bufferedResultsDroppedTotal: registry.register(new Counter('uptime_worker_buffered_results_dropped_total', 'Buffered results dropped because the buffer was full')),
+};
@@ -0,0 +1,140 @@
+import net from 'net';
+import tls from 'tls';
+import { performance } from 'perf_hooks';
+
+interface ProtocolSessionOptions {
+  host: string;
+  port: number;
+  timeoutMs: number; // For the whole session, from connecting to the last read
+  tls?: boolean; // Implicit TLS, e.g. SMTPS on port 465
+}
+
+// Takes what a reader needs from the front of the buffer, or null to wait for more data
+type FrameReader<T> = (buffer: Buffer) => { value: T; length: number } | null;
+
+/**
+ * A client connection for request/response protocols like SMTP or the Postgres wire protocol. Data is buffered until
+ * a reader finds a complete frame in it, and the session fails as a whole once its timeout passes.
+ */
+export class ProtocolSession {
+  connectTime = 0; // ms
+  tlsHandshakeTime: number | null = null; // ms, null without TLS
+  isTls = false;
+
+  private socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private error: Error | null = null;
+  private wake: (() => void) | null = null;
+  private readonly timer: NodeJS.Timeout;
+
+  private constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    this.timer = setTimeout(() => this.fail(new Error('Timed out')), timeoutMs);
+    this.listen(socket);
+  }
+
+  static async connect(options: ProtocolSessionOptions): Promise<ProtocolSession> {
+    const start = performance.now();
+    const socket = new net.Socket();
+    const session = new ProtocolSession(socket, options.timeoutMs);
+
+    try {
+      await session.waitFor(socket, 'connect', () => socket.connect({ host: options.host, port: options.port }));
+      session.connectTime = Math.round(performance.now() - start);
+
+      if (options.tls) {
+        await session.upgradeToTls(options.host);
+      }
+      return session;
+    } catch (error) {
+      session.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Switch the connection to TLS, after STARTTLS or right after connecting. Certificates are not verified here,
+   * mail servers often use self-signed ones; the handshake itself must succeed.
+   */
+  async upgradeToTls(servername: string): Promise<void> {
+    const start = performance.now();
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+
+    const secure = tls.connect({ socket: plain, servername: net.isIP(servername) ? undefined : servername, rejectUnauthorized: false });
+    this.socket = secure;
+    this.buffer = Buffer.alloc(0);
+    this.listen(secure);
+
+    await this.waitFor(secure, 'secureConnect');
+    this.tlsHandshakeTime = Math.round(performance.now() - start);
+    this.isTls = true;
+  }
+
+  write(data: string | Buffer): void {
+    this.socket.write(data);
+  }
+
+  async read<T>(reader: FrameReader<T>): Promise<T> {
+    for (;;) {
+      const frame = reader(this.buffer);
+      if (frame) {
+        this.buffer = this.buffer.subarray(frame.length);
+        return frame.value;
+      }
+      if (this.error) throw this.error;
+
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+      });
+    }
+  }
+
+  readLine(): Promise<string> {
+    return this.read(buffer => {
+      const end = buffer.indexOf('\r\n');
+      return end === -1 ? null : { value: buffer.subarray(0, end).toString('utf8'), length: end + 2 };
+    });
+  }
+
+  close(): void {
+    clearTimeout(this.timer);
+    this.socket.destroy();
+  }
+
+  private listen(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.notify();
+    });
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('end', () => this.fail(new Error('Connection closed by the server')));
+  }
+
+  private fail(error: Error): void {
+    if (!this.error) this.error = error;
+    this.notify();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  // Resolves on the event, or rejects once the session failed
+  private waitFor(socket: net.Socket, event: string, start?: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const check = (): void => {
+        if (this.error) reject(this.error);
+        else this.wake = check;
+      };
+      socket.once(event, () => {
+        this.wake = null;
+        resolve();
+      });
+      check();
+      start?.();
+    });
+  }
+}
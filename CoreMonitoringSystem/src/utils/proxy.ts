@@ -0,0 +1,189 @@
+import net from 'net';
+import tls from 'tls';
+
+// Takes what a reader needs from the front of the buffer, or null to wait for more data
+type FrameReader<T> = (buffer: Buffer) => { value: T; length: number } | null;
+
+const SOCKS5_ERRORS: Record<number, string> = {
+  1: 'general failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+/**
+ * Whether the proxy speaks HTTP (http:// or https://), as opposed to SOCKS5
+ */
+export const isHttpProxy = (proxyUrl: URL): boolean => proxyUrl.protocol === 'http:' || proxyUrl.protocol === 'https:';
+
+/**
+ * Value of the Proxy-Authorization header for the credentials in an HTTP proxy URL, if any
+ */
+export const getProxyAuthorization = (proxyUrl: URL): string | undefined => {
+  if (!proxyUrl.username && !proxyUrl.password) return undefined;
+  const credentials = `${decodeURIComponent(proxyUrl.username)}:${decodeURIComponent(proxyUrl.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+};
+
+/**
+ * Connect to the proxy itself, with TLS for https:// proxies. Plain HTTP requests are sent to HTTP proxies over this
+ * connection in absolute form, since many proxies only allow CONNECT to port 443.
+ */
+export const connectToProxy = (proxyUrl: URL, timeoutMs: number): Promise<net.Socket> => {
+  const host = proxyUrl.hostname.replace(/^\[|\]$/g, '');
+  const secure = proxyUrl.protocol === 'https:';
+  const port = Number(proxyUrl.port) || (secure ? 443 : proxyUrl.protocol === 'http:' ? 80 : 1080);
+
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+      : net.connect({ host, port });
+    const timer = setTimeout(() => socket.destroy(new Error('Proxy connection timed out')), timeoutMs);
+
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      socket.removeListener('error', onError);
+      resolve(socket);
+    });
+    const onError = (error: Error): void => {
+      clearTimeout(timer);
+      reject(new Error(`Proxy connection failed: ${error.message}`));
+    };
+    socket.once('error', onError);
+  });
+};
+
+/**
+ * Open a tunnel to host:port through the proxy, with CONNECT for HTTP proxies and a SOCKS5 CONNECT otherwise. The
+ * target hostname is resolved by the proxy. Resolves with a socket that carries the tunneled connection.
+ */
+export const openProxyTunnel = async (proxyUrl: URL, host: string, port: number, timeoutMs: number): Promise<net.Socket> => {
+  const socket = await connectToProxy(proxyUrl, timeoutMs);
+  const timer = setTimeout(() => socket.destroy(new Error('Proxy tunnel timed out')), timeoutMs);
+
+  try {
+    if (isHttpProxy(proxyUrl)) {
+      await connectHttpTunnel(socket, proxyUrl, host, port);
+    } else {
+      await connectSocksTunnel(socket, proxyUrl, host, port);
+    }
+    return socket;
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const connectHttpTunnel = async (socket: net.Socket, proxyUrl: URL, host: string, port: number): Promise<void> => {
+  const authority = `${net.isIPv6(host) ? `[${host}]` : host}:${port}`;
+  const authorization = getProxyAuthorization(proxyUrl);
+  socket.write([
+    `CONNECT ${authority} HTTP/1.1`,
+    `Host: ${authority}`,
+    ...(authorization ? [`Proxy-Authorization: ${authorization}`] : []),
+    '',
+    '',
+  ].join('\r\n'));
+
+  const head = await read(socket, buffer => {
+    const end = buffer.indexOf('\r\n\r\n');
+    return end === -1 ? null : { value: buffer.subarray(0, end).toString('latin1'), length: end + 4 };
+  });
+  const status = parseInt(head.split(' ')[1], 10) || 0;
+  if (status < 200 || status > 299) {
+    throw new Error(status === 407 ? 'Proxy authentication required (HTTP 407)' : `Proxy refused the tunnel with HTTP ${status}`);
+  }
+};
+
+const connectSocksTunnel = async (socket: net.Socket, proxyUrl: URL, host: string, port: number): Promise<void> => {
+  const username = decodeURIComponent(proxyUrl.username);
+  const password = decodeURIComponent(proxyUrl.password);
+  const readBytes = (length: number): Promise<Buffer> =>
+    read(socket, buffer => (buffer.length < length ? null : { value: buffer.subarray(0, length), length }));
+
+  // Offer username/password authentication only when the URL has credentials
+  socket.write(Buffer.from(username || password ? [0x05, 0x02, 0x00, 0x02] : [0x05, 0x01, 0x00]));
+  const [, method] = await readBytes(2);
+
+  if (method === 0x02) {
+    const user = Buffer.from(username);
+    const pass = Buffer.from(password);
+    socket.write(Buffer.concat([Buffer.from([0x01, user.length]), user, Buffer.from([pass.length]), pass]));
+    const [, status] = await readBytes(2);
+    if (status !== 0x00) throw new Error('SOCKS5 proxy rejected the credentials');
+  } else if (method !== 0x00) {
+    throw new Error('SOCKS5 proxy accepts none of the offered authentication methods');
+  }
+
+  const ipVersion = net.isIP(host);
+  const address = ipVersion === 4
+    ? Buffer.from([0x01, ...host.split('.').map(Number)])
+    : ipVersion === 6
+      ? Buffer.concat([Buffer.from([0x04]), ipv6ToBytes(host)])
+      : Buffer.concat([Buffer.from([0x03, Buffer.byteLength(host)]), Buffer.from(host)]);
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(port);
+  socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), address, portBytes]));
+
+  // The reply ends with the bound address, whose length depends on its type
+  const reply = await read(socket, buffer => {
+    if (buffer.length < 5) return null;
+    const addressLength = buffer[3] === 0x01 ? 4 : buffer[3] === 0x04 ? 16 : buffer[4] + 1;
+    const length = 4 + addressLength + 2;
+    return buffer.length < length ? null : { value: buffer.subarray(0, length), length };
+  });
+  if (reply[1] !== 0x00) {
+    throw new Error(`SOCKS5 proxy could not connect: ${SOCKS5_ERRORS[reply[1]] || `error ${reply[1]}`}`);
+  }
+};
+
+const ipv6ToBytes = (address: string): Buffer => {
+  const [head, tail = ''] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = address.includes('::')
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+  const bytes = Buffer.alloc(16);
+  groups.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16) || 0, index * 2));
+  return bytes;
+};
+
+// Reads the next frame of the proxy handshake. Proxies send nothing after their reply until the tunnel is used.
+const read = <T>(socket: net.Socket, reader: FrameReader<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    let buffer = Buffer.alloc(0);
+
+    const cleanup = (): void => {
+      socket.removeListener('data', onData);
+      socket.removeListener('error', onError);
+      socket.removeListener('end', onEnd);
+    };
+    const onData = (chunk: Buffer): void => {
+      buffer = Buffer.concat([buffer, chunk]);
+      const frame = reader(buffer);
+      if (!frame) return;
+
+      cleanup();
+      resolve(frame.value);
+    };
+    const onError = (error: Error): void => {
+      cleanup();
+      reject(error);
+    };
+    const onEnd = (): void => {
+      cleanup();
+      reject(new Error('Connection closed by the proxy'));
+    };
+
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('end', onEnd);
+  });
+};
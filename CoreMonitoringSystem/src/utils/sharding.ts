@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+
+/**
+ * The instance that owns a key, by rendezvous (highest random weight) hashing: every instance scores the key and the
+ * highest score wins. All instances agree on the owner as long as they see the same instances, and when one joins or
+ * leaves only the keys it wins or owned move.
+ */
+export const getShardOwner = (key: string, instanceIds: string[]): string | null => {
+  let owner: string | null = null;
+  let bestScore = -1;
+
+  for (const instanceId of instanceIds) {
+    const score = crypto.createHash('sha1').update(`${instanceId}\n${key}`).digest().readUInt32BE(0);
+    // Ties are broken by id, so the result does not depend on the order of the instances
+    if (score > bestScore || (score === bestScore && owner !== null && instanceId < owner)) {
+      owner = instanceId;
+      bestScore = score;
+    }
+  }
+
+  return owner;
+};
@@ -0,0 +1,61 @@
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { Replay as ReplayIcon } from '@mui/icons-material';
+
+interface ConfirmationSettingsProps {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const RETRY_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+export default function ConfirmationSettings({ value, onChange }: ConfirmationSettingsProps) {
+  const theme = useTheme();
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ReplayIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">Failure Confirmation</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Re-check right away when a check fails, a few seconds apart, and only report the site down if it still fails. Keeps a single dropped packet or timeout from counting as downtime.
+        </Typography>
+
+        <FormControl fullWidth size="small">
+          <InputLabel id="confirmation-retries-label">Re-checks before reporting down</InputLabel>
+          <Select
+            labelId="confirmation-retries-label"
+            label="Re-checks before reporting down"
+            value={value}
+            onChange={(e) => onChange(e.target.value as number)}
+            sx={{ borderRadius: '12px' }}
+          >
+            {RETRY_OPTIONS.map((retries) => (
+              <MenuItem key={retries} value={retries}>
+                {retries === 0 ? 'None, report the first failure' : `${retries} re-check${retries > 1 ? 's' : ''}`}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,82 @@
+import { Box, Button, Chip, CircularProgress, Stack, Typography, alpha, useTheme } from '@mui/material';
+import { Check as CheckIcon, Difference as DifferenceIcon } from '@mui/icons-material';
+import type { SiteStatus } from '../../types/site.types';
+
+interface ContentChangeDetailsProps {
+  status: SiteStatus;
+  onAccept: () => void;
+  accepting: boolean;
+}
+
+const LINE_PREFIXES = { added: '+ ', removed: '- ', context: '  ', skipped: '' };
+
+export default function ContentChangeDetails({ status, onAccept, accepting }: ContentChangeDetailsProps) {
+  const theme = useTheme();
+  const diff = status.contentDiff || [];
+  const color = status.contentChanged ? theme.palette.error.main : theme.palette.warning.main;
+
+  const lineColors = {
+    added: theme.palette.success.main,
+    removed: theme.palette.error.main,
+    context: theme.palette.text.secondary,
+    skipped: theme.palette.text.disabled,
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={1}>
+        <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <DifferenceIcon color="primary" />
+          Page Content
+        </Typography>
+        {status.contentChanged ? (
+          <Chip label={`Changed · ${status.contentSimilarity}% similar`} size="small" color="error" />
+        ) : diff.length > 0 ? (
+          <Chip label={`Minor changes · ${status.contentSimilarity}% similar`} size="small" color="warning" variant="outlined" />
+        ) : (
+          <Chip label="Matches baseline" size="small" color="success" variant="outlined" />
+        )}
+      </Stack>
+
+      {diff.length > 0 && (
+        <Stack
+          spacing={1}
+          sx={{
+            p: 2,
+            borderRadius: 2,
+            background: alpha(color, 0.06),
+            border: `1px solid ${alpha(color, 0.2)}`,
+          }}
+        >
+          <Box sx={{ fontFamily: 'monospace', fontSize: '0.85rem', maxHeight: 400, overflowY: 'auto' }}>
+            {diff.map((line, index) => (
+              <Box
+                key={index}
+                sx={{
+                  color: lineColors[line.type],
+                  fontStyle: line.type === 'skipped' ? 'italic' : 'normal',
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-word',
+                }}
+              >
+                {line.type === 'skipped' ? `··· ${line.text}` : `${LINE_PREFIXES[line.type]}${line.text}`}
+              </Box>
+            ))}
+          </Box>
+          <Box>
+            <Button
+              size="small"
+              variant="outlined"
+              onClick={onAccept}
+              disabled={accepting}
+              startIcon={accepting ? <CircularProgress size={16} color="inherit" /> : <CheckIcon />}
+              sx={{ textTransform: 'none', mt: 1 }}
+            >
+              Accept current content as baseline
+            </Button>
+          </Box>
+        </Stack>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,128 @@
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { Difference as DifferenceIcon } from '@mui/icons-material';
+import type { SiteContentChangeSettings } from '../../types/site.types';
+
+interface ContentChangeSettingsProps {
+  value: SiteContentChangeSettings;
+  onChange: (value: SiteContentChangeSettings) => void;
+  errors?: Record<string, string>;
+}
+
+const MAX_IGNORED_REGIONS = 20;
+
+export default function ContentChangeSettings({ value, onChange, errors = {} }: ContentChangeSettingsProps) {
+  const theme = useTheme();
+
+  const fieldSx = {
+    '& .MuiOutlinedInput-root': {
+      borderRadius: '12px',
+    },
+  };
+
+  const renderChips = (items: string[], getItemProps: (args: { index: number }) => { key: number }) =>
+    items.map((item, index) => {
+      const { key, ...itemProps } = getItemProps({ index });
+      return <Chip key={key} label={item} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} {...itemProps} />;
+    });
+
+  const toList = (items: string[]) =>
+    [...new Set(items.map((item) => item.trim()).filter(Boolean))].slice(0, MAX_IGNORED_REGIONS);
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <DifferenceIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">Content Change Detection</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Compare the page's visible text and the scripts it loads to a baseline, and get alerted when it changes,
+          e.g. after a defacement. The first page checked becomes the baseline.
+        </Typography>
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.contentChangeEnabled}
+              onChange={(e) => onChange({ ...value, contentChangeEnabled: e.target.checked })}
+              color="primary"
+            />
+          }
+          label={<Typography variant="body2">Detect content changes</Typography>}
+        />
+
+        {value.contentChangeEnabled && (
+          <>
+            <Autocomplete
+              multiple
+              freeSolo
+              options={[]}
+              value={value.contentIgnoreSelectors}
+              onChange={(_, items) => onChange({ ...value, contentIgnoreSelectors: toList(items as string[]) })}
+              renderValue={renderChips}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Ignored elements"
+                  placeholder="Type a selector and press Enter"
+                  error={!!errors.contentIgnoreSelectors}
+                  helperText={errors.contentIgnoreSelectors || 'Dynamic regions, e.g. #clock, .ad-banner or [data-timestamp]'}
+                  sx={fieldSx}
+                />
+              )}
+            />
+
+            <Autocomplete
+              multiple
+              freeSolo
+              options={[]}
+              value={value.contentIgnorePatterns}
+              onChange={(_, items) => onChange({ ...value, contentIgnorePatterns: toList(items as string[]) })}
+              renderValue={renderChips}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Ignored patterns"
+                  placeholder="Type a regular expression and press Enter"
+                  error={!!errors.contentIgnorePatterns}
+                  helperText={errors.contentIgnorePatterns || 'Removed from the HTML before comparing, e.g. Updated \\d+ minutes ago'}
+                  sx={fieldSx}
+                />
+              )}
+            />
+
+            <TextField
+              label="Similarity threshold (%)"
+              type="number"
+              fullWidth
+              value={value.contentSimilarityThreshold}
+              onChange={(e) => onChange({ ...value, contentSimilarityThreshold: parseInt(e.target.value, 10) || 0 })}
+              inputProps={{ min: 50, max: 100 }}
+              error={!!errors.contentSimilarityThreshold}
+              helperText={errors.contentSimilarityThreshold || 'Alert when less of the page than this matches the baseline, 100 alerts on any change'}
+              sx={fieldSx}
+            />
+          </>
+        )}
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,106 @@
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  Stack,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { FindInPage as FindInPageIcon } from '@mui/icons-material';
+import type { SiteContentRules } from '../../types/site.types';
+
+interface ContentRulesSettingsProps {
+  value: SiteContentRules;
+  onChange: (value: SiteContentRules) => void;
+  errors?: Record<string, string>;
+}
+
+export default function ContentRulesSettings({ value, onChange, errors = {} }: ContentRulesSettingsProps) {
+  const theme = useTheme();
+
+  const fieldSx = {
+    '& .MuiOutlinedInput-root': {
+      borderRadius: '12px',
+    },
+  };
+
+  const renderTextList = (
+    field: 'contentMustContain' | 'contentMustNotContain',
+    label: string,
+    helperText: string,
+    color: 'success' | 'error'
+  ) => (
+    <Autocomplete
+      multiple
+      freeSolo
+      options={[]}
+      value={value[field]}
+      onChange={(_, items) => onChange({ ...value, [field]: (items as string[]).filter((item) => item.trim()) })}
+      renderValue={(items, getItemProps) =>
+        items.map((item, index) => {
+          const { key, ...itemProps } = getItemProps({ index });
+          return <Chip key={key} label={item} size="small" color={color} variant="outlined" {...itemProps} />;
+        })
+      }
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          placeholder="Type text and press Enter"
+          helperText={helperText}
+          sx={fieldSx}
+        />
+      )}
+    />
+  );
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FindInPageIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">Content Rules</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Mark the site as down when the page loads but its content is wrong, such as a friendly error page served with a 200 status.
+        </Typography>
+
+        {renderTextList('contentMustContain', 'Must contain', 'The page must include every one of these texts', 'success')}
+        {renderTextList('contentMustNotContain', 'Must not contain', 'The page must not include any of these texts', 'error')}
+
+        <TextField
+          label="Must match regular expression"
+          fullWidth
+          value={value.contentRegex || ''}
+          onChange={(e) => onChange({ ...value, contentRegex: e.target.value || null })}
+          error={!!errors.contentRegex}
+          helperText={errors.contentRegex || 'Optional, e.g. <title>.*Shop.*</title>'}
+          sx={fieldSx}
+        />
+
+        <TextField
+          label="Max body size (KB)"
+          type="number"
+          fullWidth
+          value={value.contentMaxBytes ? Math.round(value.contentMaxBytes / 1024) : ''}
+          onChange={(e) => {
+            const kb = parseInt(e.target.value, 10);
+            onChange({ ...value, contentMaxBytes: kb > 0 ? kb * 1024 : null });
+          }}
+          helperText="Optional, fail the check when the page is larger than this"
+          inputProps={{ min: 1, max: 10240 }}
+          sx={fieldSx}
+        />
+      </Stack>
+    </Box>
+  );
+}
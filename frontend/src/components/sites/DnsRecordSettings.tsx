@@ -0,0 +1,67 @@
+import {
+  Box,
+  Chip,
+  Stack,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { Dns as DnsIcon } from '@mui/icons-material';
+import type { DnsRecordType } from '../../types/site.types';
+
+interface DnsRecordSettingsProps {
+  value: DnsRecordType[];
+  onChange: (value: DnsRecordType[]) => void;
+}
+
+const DNS_RECORD_TYPES: { type: DnsRecordType; description: string }[] = [
+  { type: 'A', description: 'IPv4 addresses' },
+  { type: 'AAAA', description: 'IPv6 addresses' },
+  { type: 'CNAME', description: 'Aliases' },
+  { type: 'MX', description: 'Mail servers' },
+  { type: 'TXT', description: 'SPF, verification and other text records' },
+  { type: 'SOA', description: 'Zone authority and serial' },
+  { type: 'CAA', description: 'Certificate authorities allowed to issue' },
+];
+
+export default function DnsRecordSettings({ value, onChange }: DnsRecordSettingsProps) {
+  const theme = useTheme();
+
+  const toggle = (type: DnsRecordType) => {
+    onChange(value.includes(type) ? value.filter((item) => item !== type) : [...value, type]);
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <DnsIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">DNS Record Monitoring</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Get alerted when any of these records change from the last known-good snapshot, e.g. after a hijacked or accidentally edited DNS zone.
+        </Typography>
+
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          {DNS_RECORD_TYPES.map(({ type, description }) => (
+            <Chip
+              key={type}
+              label={type}
+              title={description}
+              color={value.includes(type) ? 'primary' : 'default'}
+              variant={value.includes(type) ? 'filled' : 'outlined'}
+              onClick={() => toggle(type)}
+            />
+          ))}
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,84 @@
+import { Chip, Stack, Typography, alpha, useTheme } from '@mui/material';
+import type { DnsRecordType, DnsResolverResult, DnsSnapshot } from '../../types/site.types';
+
+interface DnsResolverDetailsProps {
+  resolvers: DnsResolverResult[];
+  systemRecords: DnsSnapshot; // What the worker's own resolver answered
+}
+
+export default function DnsResolverDetails({ resolvers, systemRecords }: DnsResolverDetailsProps) {
+  const theme = useTheme();
+
+  return (
+    <Stack spacing={1}>
+      <Typography variant="subtitle2" color="text.secondary">
+        Nameserver Comparison
+      </Typography>
+
+      {resolvers.map((result) => {
+        const types = [
+          ...new Set([...Object.keys(result.records), ...Object.keys(result.recordErrors)]),
+        ] as DnsRecordType[];
+        const failed = !Object.keys(result.records).length;
+        const color = failed
+          ? theme.palette.grey[500]
+          : result.mismatches.length
+            ? theme.palette.warning.main
+            : theme.palette.success.main;
+
+        return (
+          <Stack
+            key={result.resolver}
+            spacing={1}
+            sx={{
+              p: 1.5,
+              borderRadius: 2,
+              background: alpha(color, 0.08),
+              border: `1px solid ${alpha(color, 0.2)}`,
+            }}
+          >
+            <Stack direction="row" alignItems="center" spacing={1} flexWrap="wrap" useFlexGap>
+              <Typography variant="body2" fontWeight={600} sx={{ fontFamily: 'monospace' }}>
+                {result.resolver}
+              </Typography>
+              {failed ? (
+                <Chip label="No answer" size="small" variant="outlined" />
+              ) : result.mismatches.length ? (
+                <Chip label={`Disagrees on ${result.mismatches.join(', ')}`} size="small" color="warning" />
+              ) : (
+                <Chip label="Agrees" size="small" color="success" variant="outlined" />
+              )}
+              <Typography variant="caption" color="text.secondary">
+                {result.responseTime} ms
+              </Typography>
+            </Stack>
+
+            {types.map((type) => {
+              const values = result.records[type];
+              const mismatch = result.mismatches.includes(type);
+              return (
+                <Stack key={type} direction="row" spacing={1.5} alignItems="flex-start">
+                  <Chip label={type} size="small" sx={{ minWidth: 64 }} />
+                  <Stack sx={{ pt: 0.25, minWidth: 0 }}>
+                    <Typography
+                      variant="body2"
+                      color={values ? (mismatch ? 'warning.main' : 'text.primary') : 'text.secondary'}
+                      sx={{ wordBreak: 'break-all' }}
+                    >
+                      {values ? (values.length ? values.join(', ') : 'No records') : result.recordErrors[type]}
+                    </Typography>
+                    {mismatch && (
+                      <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                        Worker resolver: {systemRecords[type]?.length ? systemRecords[type]?.join(', ') : 'No records'}
+                      </Typography>
+                    )}
+                  </Stack>
+                </Stack>
+              );
+            })}
+          </Stack>
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  ContentCopy as ContentCopyIcon,
+  MonitorHeart as MonitorHeartIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import axios from '../../lib/axios';
+import { regenerateHeartbeatToken } from '../../store/slices/siteSlice';
+import type { AppDispatch } from '../../store';
+import type { HeartbeatPing, Site, SiteStatus } from '../../types/site.types';
+import { showToast } from '../../utils/toast';
+
+interface HeartbeatDetailsProps {
+  site: Site;
+  status?: SiteStatus | null;
+}
+
+const PING_TYPE_COLORS: Record<HeartbeatPing['type'], 'info' | 'success' | 'error'> = {
+  START: 'info',
+  SUCCESS: 'success',
+  FAIL: 'error',
+};
+
+const formatSeconds = (seconds: number) => {
+  if (seconds % 86400 === 0) return `${seconds / 86400} day${seconds === 86400 ? '' : 's'}`;
+  if (seconds % 3600 === 0) return `${seconds / 3600} hour${seconds === 3600 ? '' : 's'}`;
+  return `${Math.round(seconds / 60)} minute${seconds === 60 ? '' : 's'}`;
+};
+
+const formatRuntime = (ms: number) => (ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`);
+
+export default function HeartbeatDetails({ site, status }: HeartbeatDetailsProps) {
+  const theme = useTheme();
+  const dispatch = useDispatch<AppDispatch>();
+  const [pings, setPings] = useState<HeartbeatPing[]>([]);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  const pingUrl = site.heartbeatToken ? `${axios.defaults.baseURL}/heartbeat/${site.heartbeatToken}` : '';
+
+  // Reload the pings whenever a new status shows the monitor was evaluated again
+  useEffect(() => {
+    axios
+      .get<HeartbeatPing[]>(`/sites/${site.id}/heartbeat-pings`)
+      .then((response) => setPings(response.data))
+      .catch((error) => console.error('Failed to fetch heartbeat pings:', error));
+  }, [site.id, site.heartbeatLastPingAt, status?.checkedAt]);
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    showToast.success('Copied to clipboard');
+  };
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      await dispatch(regenerateHeartbeatToken(site.id));
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <MonitorHeartIcon color="primary" />
+        Heartbeat
+      </Typography>
+
+      {status?.heartbeatError && (
+        <Typography variant="body2" color="error">
+          {status.heartbeatError}
+        </Typography>
+      )}
+
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        <Chip size="small" variant="outlined" label={`Expected every ${formatSeconds(site.heartbeatPeriod || 0)}`} />
+        <Chip size="small" variant="outlined" label={`Grace time ${formatSeconds(site.heartbeatGrace)}`} />
+        <Chip
+          size="small"
+          variant="outlined"
+          label={site.heartbeatLastPingAt ? `Last ping ${new Date(site.heartbeatLastPingAt).toLocaleString()}` : 'No ping received yet'}
+        />
+      </Stack>
+
+      <Box
+        sx={{
+          p: 2,
+          borderRadius: 2,
+          border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+          bgcolor: alpha(theme.palette.primary.main, 0.03),
+        }}
+      >
+        <Stack spacing={1.5}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <Typography variant="subtitle2">Ping URL</Typography>
+            <Box sx={{ flexGrow: 1 }} />
+            <Button
+              size="small"
+              startIcon={<RefreshIcon />}
+              onClick={handleRegenerate}
+              disabled={isRegenerating}
+              sx={{ textTransform: 'none' }}
+            >
+              Regenerate
+            </Button>
+          </Stack>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', flex: 1 }}>
+              {pingUrl}
+            </Typography>
+            <Tooltip title="Copy">
+              <IconButton size="small" onClick={() => copyToClipboard(pingUrl)}>
+                <ContentCopyIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+          <Typography variant="caption" color="text.secondary">
+            Call the URL when the job succeeds. Add /start when it begins to record its runtime, and /fail to report a failure right away. A request body, such as the job's output, is stored with the ping.
+          </Typography>
+          <Typography
+            variant="caption"
+            sx={{ fontFamily: 'monospace', wordBreak: 'break-all', color: theme.palette.text.secondary }}
+          >
+            {`curl -fsS ${pingUrl}/start && ./backup.sh && curl -fsS ${pingUrl} || curl -fsS ${pingUrl}/fail`}
+          </Typography>
+        </Stack>
+      </Box>
+
+      {pings.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Received</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Runtime</TableCell>
+              <TableCell>Source</TableCell>
+              <TableCell>Payload</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {pings.map((ping) => (
+              <TableRow key={ping.id}>
+                <TableCell>{new Date(ping.receivedAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Chip size="small" label={ping.type} color={PING_TYPE_COLORS[ping.type]} variant="outlined" />
+                </TableCell>
+                <TableCell>{typeof ping.runtime === 'number' ? formatRuntime(ping.runtime) : '-'}</TableCell>
+                <TableCell>{ping.sourceIp || '-'}</TableCell>
+                <TableCell sx={{ maxWidth: 240 }}>
+                  <Typography
+                    variant="caption"
+                    title={ping.payload || undefined}
+                    sx={{ fontFamily: 'monospace', display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                  >
+                    {ping.payload || '-'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Stack>
+  );
+}
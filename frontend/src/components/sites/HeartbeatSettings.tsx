@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { MonitorHeart as MonitorHeartIcon } from '@mui/icons-material';
+
+interface HeartbeatSettingsValue {
+  heartbeatPeriod: number | null; // seconds
+  heartbeatGrace: number; // seconds
+}
+
+interface HeartbeatSettingsProps {
+  value: HeartbeatSettingsValue;
+  onChange: (value: HeartbeatSettingsValue) => void;
+  errors?: Record<string, string>;
+}
+
+const PERIOD_UNITS = [
+  { label: 'minutes', seconds: 60 },
+  { label: 'hours', seconds: 60 * 60 },
+  { label: 'days', seconds: 24 * 60 * 60 },
+];
+
+// Show the period in the largest unit it divides into, e.g. 86400 seconds as 1 day
+const getPeriodUnit = (seconds: number | null) =>
+  [...PERIOD_UNITS].reverse().find((unit) => seconds && seconds % unit.seconds === 0)?.seconds || PERIOD_UNITS[0].seconds;
+
+export default function HeartbeatSettings({ value, onChange, errors = {} }: HeartbeatSettingsProps) {
+  const theme = useTheme();
+  const [periodUnit, setPeriodUnit] = useState(() => getPeriodUnit(value.heartbeatPeriod));
+
+  const fieldSx = {
+    '& .MuiOutlinedInput-root': {
+      borderRadius: '12px',
+    },
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <MonitorHeartIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">Heartbeat</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Your cron job or backup calls a secret ping URL each time it runs. The monitor goes down when no ping arrives in time or the job reports a failure. The URL is shown on the monitor's page after saving.
+        </Typography>
+
+        <Stack direction="row" spacing={1}>
+          <TextField
+            label="Expected every"
+            type="number"
+            value={value.heartbeatPeriod ? value.heartbeatPeriod / periodUnit : ''}
+            onChange={(e) => {
+              const amount = parseInt(e.target.value, 10);
+              onChange({ ...value, heartbeatPeriod: amount > 0 ? amount * periodUnit : null });
+            }}
+            error={!!errors.heartbeatPeriod}
+            helperText={errors.heartbeatPeriod || 'How often the job runs'}
+            inputProps={{ min: 1 }}
+            sx={{ ...fieldSx, flex: 1 }}
+          />
+          <FormControl sx={{ minWidth: 120 }}>
+            <InputLabel id="heartbeat-period-unit-label">Unit</InputLabel>
+            <Select
+              labelId="heartbeat-period-unit-label"
+              label="Unit"
+              value={periodUnit}
+              onChange={(e) => {
+                const unit = e.target.value as number;
+                // Keep the number the user typed and change what it means
+                const amount = value.heartbeatPeriod ? value.heartbeatPeriod / periodUnit : null;
+                setPeriodUnit(unit);
+                onChange({ ...value, heartbeatPeriod: amount ? Math.round(amount * unit) : null });
+              }}
+              sx={{ borderRadius: '12px' }}
+            >
+              {PERIOD_UNITS.map((unit) => (
+                <MenuItem key={unit.seconds} value={unit.seconds}>
+                  {unit.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Stack>
+
+        <TextField
+          label="Grace time (minutes)"
+          type="number"
+          fullWidth
+          value={Math.round(value.heartbeatGrace / 60)}
+          onChange={(e) => {
+            const minutes = parseInt(e.target.value, 10);
+            onChange({ ...value, heartbeatGrace: Number.isNaN(minutes) ? 0 : Math.min(10080, Math.max(0, minutes)) * 60 });
+          }}
+          helperText="How late a ping may be before the monitor goes down, e.g. for jobs with a variable runtime"
+          inputProps={{ min: 0, max: 10080 }}
+          sx={fieldSx}
+        />
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,191 @@
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Http as HttpIcon,
+} from '@mui/icons-material';
+import type { HttpMethod, SiteHttpRequestSettings } from '../../types/site.types';
+
+interface HttpRequestSettingsProps {
+  value: SiteHttpRequestSettings;
+  onChange: (value: SiteHttpRequestSettings) => void;
+  errors?: Record<string, string>;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+const METHODS_WITH_BODY: HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const STATUS_CODE_PATTERN = /^[1-5]\d{2}(-[1-5]\d{2})?$/;
+
+export default function HttpRequestSettings({ value, onChange, errors = {} }: HttpRequestSettingsProps) {
+  const theme = useTheme();
+  const headers = Object.entries(value.httpHeaders || {});
+
+  const fieldSx = {
+    '& .MuiOutlinedInput-root': {
+      borderRadius: '12px',
+    },
+  };
+
+  const updateHeaders = (entries: [string, string][]) => {
+    onChange({ ...value, httpHeaders: Object.fromEntries(entries) });
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <HttpIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">HTTP Request</Typography>
+        </Box>
+
+        <FormControl fullWidth>
+          <InputLabel id="http-method-label">Method</InputLabel>
+          <Select
+            labelId="http-method-label"
+            label="Method"
+            value={value.httpMethod}
+            onChange={(e) => onChange({ ...value, httpMethod: e.target.value as HttpMethod })}
+            sx={{ borderRadius: '12px' }}
+          >
+            {HTTP_METHODS.map((method) => (
+              <MenuItem key={method} value={method}>
+                {method}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Stack spacing={1}>
+          <Typography variant="body2" color="text.secondary">
+            Custom headers
+          </Typography>
+          {headers.map(([name, headerValue], index) => (
+            <Stack key={index} direction="row" spacing={1} alignItems="center">
+              <TextField
+                size="small"
+                label="Name"
+                value={name}
+                onChange={(e) => updateHeaders(headers.map((entry, i) => (i === index ? [e.target.value, entry[1]] : entry)))}
+                sx={{ ...fieldSx, flex: 1 }}
+              />
+              <TextField
+                size="small"
+                label="Value"
+                value={headerValue}
+                onChange={(e) => updateHeaders(headers.map((entry, i) => (i === index ? [entry[0], e.target.value] : entry)))}
+                sx={{ ...fieldSx, flex: 2 }}
+              />
+              <IconButton size="small" onClick={() => updateHeaders(headers.filter((_, i) => i !== index))}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Stack>
+          ))}
+          <Box>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => updateHeaders([...headers, ['', '']])}
+              disabled={headers.some(([name]) => !name)}
+              sx={{ textTransform: 'none' }}
+            >
+              Add header
+            </Button>
+          </Box>
+        </Stack>
+
+        {METHODS_WITH_BODY.includes(value.httpMethod) && (
+          <TextField
+            label="Request body"
+            fullWidth
+            multiline
+            minRows={3}
+            value={value.httpBody || ''}
+            onChange={(e) => onChange({ ...value, httpBody: e.target.value || null })}
+            helperText="Sent as-is; set a Content-Type header to match"
+            sx={fieldSx}
+          />
+        )}
+
+        <Autocomplete
+          multiple
+          freeSolo
+          options={['200-299', '200-399', '301', '302', '401', '403']}
+          value={value.acceptedStatusCodes}
+          onChange={(_, items) =>
+            onChange({
+              ...value,
+              acceptedStatusCodes: (items as string[]).map((item) => item.trim()).filter((item) => STATUS_CODE_PATTERN.test(item)),
+            })
+          }
+          renderValue={(items, getItemProps) =>
+            items.map((item, index) => {
+              const { key, ...itemProps } = getItemProps({ index });
+              return <Chip key={key} label={item} size="small" color="success" variant="outlined" {...itemProps} />;
+            })
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Accepted status codes"
+              placeholder="e.g. 200-299 or 301"
+              error={!!errors.acceptedStatusCodes}
+              helperText={errors.acceptedStatusCodes || 'Responses with any other status code mark the site as down'}
+              sx={fieldSx}
+            />
+          )}
+        />
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.followRedirects}
+              onChange={(e) => onChange({ ...value, followRedirects: e.target.checked })}
+              color="primary"
+            />
+          }
+          label={<Typography variant="body2">Follow redirects</Typography>}
+        />
+
+        {value.followRedirects && (
+          <TextField
+            label="Max redirects"
+            type="number"
+            fullWidth
+            value={value.maxRedirects}
+            onChange={(e) => {
+              const maxRedirects = parseInt(e.target.value, 10);
+              onChange({ ...value, maxRedirects: Number.isNaN(maxRedirects) ? 0 : Math.min(20, Math.max(0, maxRedirects)) });
+            }}
+            helperText="The check fails when a redirect chain is longer than this"
+            inputProps={{ min: 0, max: 20 }}
+            sx={fieldSx}
+          />
+        )}
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,142 @@
+import {
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  DataObject as DataObjectIcon,
+} from '@mui/icons-material';
+import type { JsonAssertion, JsonAssertionOperator } from '../../types/site.types';
+
+interface JsonAssertionsSettingsProps {
+  value: JsonAssertion[];
+  onChange: (value: JsonAssertion[]) => void;
+  errors?: Record<string, string>;
+}
+
+const JSON_ASSERTION_OPERATORS: { value: JsonAssertionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'notEquals', label: 'does not equal' },
+  { value: 'exists', label: 'exists' },
+  { value: 'notExists', label: 'does not exist' },
+  { value: 'greaterThan', label: '>' },
+  { value: 'greaterThanOrEqual', label: '>=' },
+  { value: 'lessThan', label: '<' },
+  { value: 'lessThanOrEqual', label: '<=' },
+  { value: 'lengthEquals', label: 'length equals' },
+  { value: 'lengthGreaterThan', label: 'length >' },
+  { value: 'lengthLessThan', label: 'length <' },
+];
+
+const OPERATORS_WITHOUT_VALUE: JsonAssertionOperator[] = ['exists', 'notExists'];
+
+export default function JsonAssertionsSettings({ value, onChange, errors = {} }: JsonAssertionsSettingsProps) {
+  const theme = useTheme();
+
+  const fieldSx = {
+    '& .MuiOutlinedInput-root': {
+      borderRadius: '12px',
+    },
+  };
+
+  const updateAssertion = (index: number, changes: Partial<JsonAssertion>) => {
+    onChange(value.map((assertion, i) => (i === index ? { ...assertion, ...changes } : assertion)));
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <DataObjectIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">JSON Assertions</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          For JSON endpoints such as /health, check values in the response, e.g. $.status equals ok or $.items length &gt; 0.
+        </Typography>
+
+        {value.map((assertion, index) => (
+          <Stack key={index} direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+            <TextField
+              size="small"
+              label="Path"
+              placeholder="$.status"
+              value={assertion.path}
+              onChange={(e) => updateAssertion(index, { path: e.target.value })}
+              sx={{ ...fieldSx, flex: 2 }}
+            />
+            <FormControl size="small" sx={{ flex: 1.5, minWidth: 140 }}>
+              <InputLabel id={`json-assertion-operator-${index}`}>Operator</InputLabel>
+              <Select
+                labelId={`json-assertion-operator-${index}`}
+                label="Operator"
+                value={assertion.operator}
+                onChange={(e) => {
+                  const operator = e.target.value as JsonAssertionOperator;
+                  updateAssertion(index, {
+                    operator,
+                    value: OPERATORS_WITHOUT_VALUE.includes(operator) ? undefined : assertion.value ?? '',
+                  });
+                }}
+                sx={{ borderRadius: '12px' }}
+              >
+                {JSON_ASSERTION_OPERATORS.map((operator) => (
+                  <MenuItem key={operator.value} value={operator.value}>
+                    {operator.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {!OPERATORS_WITHOUT_VALUE.includes(assertion.operator) && (
+              <TextField
+                size="small"
+                label="Value"
+                value={assertion.value ?? ''}
+                onChange={(e) => updateAssertion(index, { value: e.target.value })}
+                sx={{ ...fieldSx, flex: 1.5 }}
+              />
+            )}
+            <IconButton size="small" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Stack>
+        ))}
+
+        {errors.jsonAssertions && (
+          <Typography variant="caption" color="error">
+            {errors.jsonAssertions}
+          </Typography>
+        )}
+
+        <Box>
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => onChange([...value, { path: '$.', operator: 'equals', value: '' }])}
+            disabled={value.length >= 20}
+            sx={{ textTransform: 'none' }}
+          >
+            Add assertion
+          </Button>
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
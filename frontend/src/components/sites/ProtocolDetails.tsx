@@ -0,0 +1,107 @@
+import { Box, Chip, Stack, Typography, alpha, useTheme } from '@mui/material';
+import { Dns as DnsIcon, Lock as LockIcon } from '@mui/icons-material';
+import type { ProtocolMonitorType, SiteStatus } from '../../types/site.types';
+import { PROTOCOL_MONITORS } from '../../constants/protocol.constants';
+
+interface ProtocolDetailsProps {
+  monitorType: ProtocolMonitorType;
+  status?: SiteStatus | null;
+}
+
+export default function ProtocolDetails({ monitorType, status }: ProtocolDetailsProps) {
+  const theme = useTheme();
+  const check = status?.protocolCheck;
+  const color = !check ? theme.palette.grey[500] : check.isUp ? theme.palette.success.main : theme.palette.error.main;
+
+  // Connect, TLS and the protocol exchange happen one after the other
+  const phases = check?.timings
+    ? [
+        { label: 'Connect', value: check.timings.connect },
+        ...(check.timings.tlsHandshake !== null ? [{ label: 'TLS handshake', value: check.timings.tlsHandshake }] : []),
+        { label: `${PROTOCOL_MONITORS[monitorType].label} handshake`, value: check.timings.handshake },
+      ]
+    : [];
+
+  const details = check
+    ? [
+        check.serverVersion && `Version ${check.serverVersion}`,
+        check.authMethod && `Authentication: ${check.authMethod}`,
+        check.protocol === 'redis' && (check.authenticated ? 'Authenticated' : 'No authentication'),
+        check.protocol === 'smtp' && check.startTlsOffered !== undefined && (check.startTlsOffered ? 'STARTTLS offered' : 'STARTTLS not offered'),
+        check.protocol === 'websocket' && check.status !== undefined && `Upgrade: HTTP ${check.status}`,
+        check.replyTime !== undefined && `Reply in ${check.replyTime} ms`,
+        check.protocol === 'grpc' && `Service: ${check.service || '(server)'}`,
+        check.servingStatus && `Health: ${check.servingStatus}`,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <DnsIcon color="primary" />
+        {PROTOCOL_MONITORS[monitorType].label} Check
+        {check && (
+          <Chip size="small" variant="outlined" label={`${check.responseTime} ms total`} sx={{ ml: 1 }} />
+        )}
+        {check?.tls && <Chip size="small" icon={<LockIcon />} label="TLS" color="success" variant="outlined" />}
+      </Typography>
+
+      {status?.protocolError && (
+        <Typography variant="body2" color="error">
+          {status.protocolError}
+        </Typography>
+      )}
+
+      {check ? (
+        <Stack
+          spacing={1}
+          sx={{
+            p: 1.5,
+            borderRadius: 2,
+            background: alpha(color, 0.08),
+            border: `1px solid ${alpha(color, 0.2)}`,
+          }}
+        >
+          <Typography variant="body2" fontWeight={600}>
+            {check.host}:{check.port}
+          </Typography>
+          {check.greeting && (
+            <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {check.greeting}
+            </Typography>
+          )}
+          {check.reply && (
+            <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {check.reply}
+            </Typography>
+          )}
+          {details.length > 0 && (
+            <Typography variant="caption" color="text.secondary">
+              {details.join(' · ')}
+            </Typography>
+          )}
+          {check.extensions?.length ? (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {check.extensions.map((extension) => (
+                <Chip key={extension} size="small" label={extension} />
+              ))}
+            </Box>
+          ) : null}
+          {phases.length > 0 && (
+            <Stack direction="row" spacing={2} flexWrap="wrap">
+              {phases.map(({ label, value }) => (
+                <Typography key={label} variant="caption" color="text.secondary">
+                  {label}: <strong>{value} ms</strong>
+                </Typography>
+              ))}
+            </Stack>
+          )}
+        </Stack>
+      ) : (
+        <Typography variant="caption" color="text.secondary">
+          Waiting for the first check
+        </Typography>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Box,
+  Chip,
+  CircularProgress,
+  Stack,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { Public as PublicIcon } from '@mui/icons-material';
+import type { AppDispatch, RootState } from '../../store';
+import { fetchWorkers } from '../../store/slices/workerSlice';
+
+interface RegionSettingsProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+export default function RegionSettings({ value, onChange }: RegionSettingsProps) {
+  const theme = useTheme();
+  const dispatch = useDispatch<AppDispatch>();
+  const { workers, isLoading } = useSelector((state: RootState) => state.workers);
+
+  useEffect(() => {
+    dispatch(fetchWorkers());
+  }, [dispatch]);
+
+  // Several workers can serve one region; selected regions stay listed while their workers are offline
+  const regions = useMemo(() => {
+    const byRegion = new Map<string, { region: string; dedicated: boolean; isOnline: boolean }>();
+    workers.forEach((worker) => {
+      const dedicated = !!byRegion.get(worker.region)?.dedicated || worker.dedicated;
+      byRegion.set(worker.region, { region: worker.region, dedicated, isOnline: true });
+    });
+    value.forEach((region) => {
+      if (!byRegion.has(region)) byRegion.set(region, { region, dedicated: false, isOnline: false });
+    });
+    return [...byRegion.values()].sort((a, b) => a.region.localeCompare(b.region));
+  }, [workers, value]);
+
+  const toggleRegion = (region: string) => {
+    onChange(value.includes(region) ? value.filter((selected) => selected !== region) : [...value, region]);
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <PublicIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">Check Regions</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          {value.length
+            ? 'Only the selected regions check this site, and downtime is decided by their results alone.'
+            : 'Every shared region checks this site. Select regions to limit checks to them, e.g. to your audience\'s region or a dedicated worker.'}
+        </Typography>
+
+        {isLoading && !regions.length ? (
+          <CircularProgress size={20} />
+        ) : regions.length ? (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {regions.map(({ region, dedicated, isOnline }) => {
+              const selected = value.includes(region);
+              return (
+                <Chip
+                  key={region}
+                  label={`${region}${dedicated ? ' (dedicated)' : ''}${isOnline ? '' : ' (offline)'}`}
+                  color={selected ? 'primary' : 'default'}
+                  variant={selected ? 'filled' : 'outlined'}
+                  onClick={() => toggleRegion(region)}
+                  onDelete={selected ? () => toggleRegion(region) : undefined}
+                />
+              );
+            })}
+          </Box>
+        ) : (
+          <Typography variant="caption" color="text.secondary">
+            No workers are online right now.
+          </Typography>
+        )}
+
+        {value.length === 1 && (
+          <Typography variant="caption" color="warning.main">
+            With a single region, one failed check from it is enough to report the site down.
+          </Typography>
+        )}
+      </Stack>
+    </Box>
+  );
+}
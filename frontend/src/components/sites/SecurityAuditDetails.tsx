@@ -0,0 +1,89 @@
+import { Box, Chip, Stack, Typography, alpha, useTheme } from '@mui/material';
+import { Shield as ShieldIcon } from '@mui/icons-material';
+import type { SecuritySeverity, SiteStatus } from '../../types/site.types';
+
+interface SecurityAuditDetailsProps {
+  status: SiteStatus;
+}
+
+const SEVERITY_ORDER: SecuritySeverity[] = ['high', 'medium', 'low'];
+
+const SEVERITY_COLORS: Record<SecuritySeverity, 'error' | 'warning' | 'info'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'info',
+};
+
+export default function SecurityAuditDetails({ status }: SecurityAuditDetailsProps) {
+  const theme = useTheme();
+  const score = status.securityScore ?? 0;
+  const color = score >= 90 ? theme.palette.success.main : score >= 70 ? theme.palette.warning.main : theme.palette.error.main;
+  const findings = [...(status.securityAudit?.findings || [])].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+  const headers = Object.entries(status.securityAudit?.headers || {});
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ShieldIcon color="primary" />
+        Security Headers
+        <Chip
+          size="small"
+          label={`Grade ${status.securityGrade || '?'} · ${score}/100`}
+          sx={{ ml: 1, fontWeight: 600, color, backgroundColor: alpha(color, 0.12) }}
+        />
+      </Typography>
+
+      {findings.length > 0 ? (
+        <Stack
+          spacing={1}
+          sx={{
+            p: 1.5,
+            borderRadius: 2,
+            background: alpha(color, 0.06),
+            border: `1px solid ${alpha(color, 0.2)}`,
+          }}
+        >
+          {findings.map((finding) => (
+            <Stack key={finding.id} direction="row" spacing={1.5} alignItems="flex-start">
+              <Chip
+                label={finding.severity}
+                size="small"
+                color={SEVERITY_COLORS[finding.severity]}
+                variant="outlined"
+                sx={{ minWidth: 72, textTransform: 'capitalize' }}
+              />
+              <Typography variant="body2" sx={{ wordBreak: 'break-word', pt: 0.25 }}>
+                {finding.message}
+              </Typography>
+            </Stack>
+          ))}
+        </Stack>
+      ) : (
+        <Typography variant="body2" color="success.main">
+          Every audited header is configured as recommended.
+        </Typography>
+      )}
+
+      {headers.length > 0 && (
+        <Stack spacing={0.75}>
+          {headers.map(([name, value]) => (
+            <Box key={name} sx={{ display: 'flex', gap: 1.5, alignItems: 'baseline', minWidth: 0 }}>
+              <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace', minWidth: 220 }}>
+                {name}
+              </Typography>
+              <Typography
+                variant="caption"
+                color={value === null ? 'text.disabled' : 'text.primary'}
+                sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}
+              >
+                {value ?? 'Not set'}
+              </Typography>
+            </Box>
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
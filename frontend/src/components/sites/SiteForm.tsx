@@ -22,6 +22,9 @@ import {
   FormControlLabel,
   Switch,
   Chip,
+  Collapse,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   Close as CloseIcon,
@@ -34,10 +37,42 @@ import {
   AccessTime as AccessTimeIcon,
   Lock as LockIcon,
   Upgrade as UpgradeIcon,
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+  MonitorHeart as MonitorHeartIcon,
+  Route as RouteIcon,
+  Dns as DnsIcon,
 } from '@mui/icons-material';
-import type { Site, CreateSiteData } from '../../types/site.types';
+import type {
+  Site,
+  CreateSiteData,
+  DnsRecordType,
+  HttpMethod,
+  JsonAssertion,
+  MonitorType,
+  SiteContentRules,
+  SiteHttpRequestSettings,
+  SiteNetworkSettings,
+  SiteContentChangeSettings,
+  SiteProtocolRequestSettings,
+  TcpPortDefinition,
+  TransactionStep,
+} from '../../types/site.types';
 import type { RootState } from '../../store';
 import { getMinCheckIntervalAllowed } from '../../utils/featureUtils';
+import { PROTOCOL_MONITORS, isProtocolMonitor } from '../../constants/protocol.constants';
+import ContentRulesSettings from './ContentRulesSettings';
+import JsonAssertionsSettings from './JsonAssertionsSettings';
+import DnsRecordSettings from './DnsRecordSettings';
+import HttpRequestSettings from './HttpRequestSettings';
+import HeartbeatSettings from './HeartbeatSettings';
+import ConfirmationSettings from './ConfirmationSettings';
+import RegionSettings from './RegionSettings';
+import TcpPortSettings from './TcpPortSettings';
+import TransactionSettings from './TransactionSettings';
+import ProtocolSettings from './ProtocolSettings';
+import NetworkSettings from './NetworkSettings';
+import ContentChangeSettings from './ContentChangeSettings';
 
 interface SiteFormProps {
   open: boolean;
@@ -49,6 +84,121 @@ interface SiteFormProps {
 
 const INTERVAL_OPTIONS = [0.5, 1, 5];
 
+const METHODS_WITH_BODY: HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const DEFAULT_PROTOCOL_REQUEST: SiteProtocolRequestSettings = {
+  websocketSend: null,
+  websocketExpect: null,
+  websocketTimeout: null,
+  grpcService: null,
+};
+
+const DEFAULT_NETWORK: SiteNetworkSettings = {
+  proxyUrl: null,
+  dnsResolvers: [],
+};
+
+const DEFAULT_CONTENT_CHANGE: SiteContentChangeSettings = {
+  contentChangeEnabled: false,
+  contentIgnoreSelectors: [],
+  contentIgnorePatterns: [],
+  contentSimilarityThreshold: 90,
+};
+
+const PROXY_SCHEMES = ['http:', 'https:', 'socks5:', 'socks5h:'];
+
+// An IPv4 or IPv6 address, optionally with a port (1.1.1.1:53 or [2606:4700::1111]:53)
+const RESOLVER_PATTERN = /^(?:\d{1,3}(?:\.\d{1,3}){3}(?::\d{1,5})?|[\da-f:]*:[\da-f:.]+|\[[\da-f:]*:[\da-f:.]+\](?::\d{1,5})?)$/i;
+
+const DEFAULT_HTTP_REQUEST: SiteHttpRequestSettings = {
+  httpMethod: 'GET',
+  httpHeaders: null,
+  httpBody: null,
+  acceptedStatusCodes: ['200-399'],
+  followRedirects: false,
+  maxRedirects: 10,
+};
+
+const DEFAULT_HEARTBEAT = {
+  heartbeatPeriod: null as number | null,
+  heartbeatGrace: 300,
+};
+
+const DEFAULT_CONTENT_RULES: SiteContentRules = {
+  contentMustContain: [],
+  contentMustNotContain: [],
+  contentRegex: null,
+  contentMaxBytes: null,
+};
+
+const NUMERIC_JSON_OPERATORS: JsonAssertion['operator'][] = [
+  'greaterThan',
+  'greaterThanOrEqual',
+  'lessThan',
+  'lessThanOrEqual',
+  'lengthEquals',
+  'lengthGreaterThan',
+  'lengthLessThan',
+];
+
+// Values are typed as text in the form; thresholds are sent as numbers and exists checks without a value
+const normalizeJsonAssertion = ({ path, operator, value }: JsonAssertion): JsonAssertion => {
+  if (operator === 'exists' || operator === 'notExists') {
+    return { path: path.trim(), operator };
+  }
+  return {
+    path: path.trim(),
+    operator,
+    value: NUMERIC_JSON_OPERATORS.includes(operator) ? Number(value) : String(value ?? ''),
+  };
+};
+
+// Drop header rows without a name and send null instead of an empty object
+const headersOrNull = (headers: Record<string, string> | null) => {
+  const entries = Object.entries(headers || {}).filter(([name]) => name.trim());
+  return entries.length ? Object.fromEntries(entries.map(([name, value]) => [name.trim(), value])) : null;
+};
+
+const VARIABLE_NAME_PATTERN = /^[\w.-]{1,50}$/;
+
+// Returns why a transaction step cannot be saved, or undefined if it is complete
+const getTransactionStepError = (step: TransactionStep, index: number) => {
+  if (!step.name.trim() || !step.url.trim()) {
+    return `Step ${index + 1} needs a name and a URL`;
+  }
+  for (const extraction of step.extract || []) {
+    if (!VARIABLE_NAME_PATTERN.test(extraction.name)) {
+      return `Step ${index + 1}: variable names may only contain letters, digits, _, . and -`;
+    }
+    if (extraction.source === 'header' && !extraction.header?.trim()) {
+      return `Step ${index + 1}: enter the header to read {{${extraction.name}}} from`;
+    }
+    if (extraction.source !== 'json' && extraction.expression) {
+      try {
+        new RegExp(extraction.expression);
+      } catch {
+        return `Step ${index + 1}: the regex for {{${extraction.name}}} is not valid`;
+      }
+    }
+  }
+  return undefined;
+};
+
+const normalizeTransactionStep = (step: TransactionStep): TransactionStep => ({
+  ...step,
+  name: step.name.trim(),
+  url: step.url.trim(),
+  headers: headersOrNull(step.headers ?? null),
+  body: METHODS_WITH_BODY.includes(step.method) ? step.body || null : null,
+  jsonAssertions: (step.jsonAssertions || []).map(normalizeJsonAssertion),
+  extract: (step.extract || []).map(({ name, source, header, expression }) => ({
+    name,
+    source,
+    header: source === 'header' ? header?.trim() || null : null,
+    expression: expression || null,
+  })),
+});
+
 export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: SiteFormProps) {
   const theme = useTheme();
   const { userMemberships } = useSelector((state: RootState) => state.membership);
@@ -110,6 +260,19 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
     monthlyReportDay: getNowUtcDay(),
     monthlyReportTime: getNowUtcTime(),
   });
+  const [httpRequest, setHttpRequest] = useState<SiteHttpRequestSettings>(DEFAULT_HTTP_REQUEST);
+  const [contentRules, setContentRules] = useState<SiteContentRules>(DEFAULT_CONTENT_RULES);
+  const [jsonAssertions, setJsonAssertions] = useState<JsonAssertion[]>([]);
+  const [dnsRecordTypes, setDnsRecordTypes] = useState<DnsRecordType[]>([]);
+  const [tcpPorts, setTcpPorts] = useState<TcpPortDefinition[]>([]);
+  const [monitorType, setMonitorType] = useState<MonitorType>('HTTP');
+  const [heartbeat, setHeartbeat] = useState(DEFAULT_HEARTBEAT);
+  const [transactionSteps, setTransactionSteps] = useState<TransactionStep[]>([]);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [protocolRequest, setProtocolRequest] = useState<SiteProtocolRequestSettings>(DEFAULT_PROTOCOL_REQUEST);
+  const [network, setNetwork] = useState<SiteNetworkSettings>(DEFAULT_NETWORK);
+  const [contentChange, setContentChange] = useState<SiteContentChangeSettings>(DEFAULT_CONTENT_CHANGE);
+  const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
@@ -122,22 +285,77 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
         name: site.name,
         url: site.url,
         checkInterval: isIntervalAllowed ? site.checkInterval : availableIntervals[0] || 5,
+        confirmationRetries: site.confirmationRetries ?? 0,
         isActive: site.isActive,
         monthlyReport: site.monthlyReport,
         monthlyReportDay: getNowUtcDay(),
         monthlyReportTime: getNowUtcTime(),
       });
+      setHttpRequest({
+        httpMethod: site.httpMethod || 'GET',
+        httpHeaders: site.httpHeaders ?? null,
+        httpBody: site.httpBody ?? null,
+        acceptedStatusCodes: site.acceptedStatusCodes?.length ? site.acceptedStatusCodes : DEFAULT_HTTP_REQUEST.acceptedStatusCodes,
+        followRedirects: !!site.followRedirects,
+        maxRedirects: site.maxRedirects ?? DEFAULT_HTTP_REQUEST.maxRedirects,
+      });
+      setContentRules({
+        contentMustContain: site.contentMustContain || [],
+        contentMustNotContain: site.contentMustNotContain || [],
+        contentRegex: site.contentRegex ?? null,
+        contentMaxBytes: site.contentMaxBytes ?? null,
+      });
+      setJsonAssertions(site.jsonAssertions || []);
+      setDnsRecordTypes(site.dnsRecordTypes || []);
+      setTcpPorts(site.tcpPorts || []);
+      setMonitorType(site.monitorType || 'HTTP');
+      setHeartbeat({
+        heartbeatPeriod: site.heartbeatPeriod ?? null,
+        heartbeatGrace: site.heartbeatGrace ?? DEFAULT_HEARTBEAT.heartbeatGrace,
+      });
+      setTransactionSteps(site.transactionSteps || []);
+      setRegions(site.regions || []);
+      setProtocolRequest({
+        websocketSend: site.websocketSend ?? null,
+        websocketExpect: site.websocketExpect ?? null,
+        websocketTimeout: site.websocketTimeout ?? null,
+        grpcService: site.grpcService ?? null,
+      });
+      setNetwork({
+        proxyUrl: site.proxyUrl ?? null,
+        dnsResolvers: site.dnsResolvers || [],
+      });
+      setContentChange({
+        contentChangeEnabled: !!site.contentChangeEnabled,
+        contentIgnoreSelectors: site.contentIgnoreSelectors || [],
+        contentIgnorePatterns: site.contentIgnorePatterns || [],
+        contentSimilarityThreshold: site.contentSimilarityThreshold ?? DEFAULT_CONTENT_CHANGE.contentSimilarityThreshold,
+      });
     } else {
       setFormData({
         name: '',
         url: '',
         checkInterval: availableIntervals[0] || 5,
+        confirmationRetries: 0,
         isActive: true,
         monthlyReport: false,
         monthlyReportDay: getNowUtcDay(),
         monthlyReportTime: getNowUtcTime(),
       });
+      setHttpRequest(DEFAULT_HTTP_REQUEST);
+      setContentRules(DEFAULT_CONTENT_RULES);
+      setJsonAssertions([]);
+      setDnsRecordTypes([]);
+      setTcpPorts([]);
+      setMonitorType('HTTP');
+      setHeartbeat(DEFAULT_HEARTBEAT);
+      setTransactionSteps([]);
+      setRegions([]);
+      setProtocolRequest(DEFAULT_PROTOCOL_REQUEST);
+      setNetwork(DEFAULT_NETWORK);
+      setContentChange(DEFAULT_CONTENT_CHANGE);
     }
+    setShowAdvancedSettings(false);
     setErrors({});
   }, [site, availableIntervals, minAllowedInterval]);
 
@@ -148,13 +366,35 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
       newErrors.name = 'Site name is required';
     }
 
-    if (!formData.url?.trim()) {
+    if (monitorType === 'HEARTBEAT') {
+      if (!heartbeat.heartbeatPeriod || heartbeat.heartbeatPeriod < 60) {
+        newErrors.heartbeatPeriod = 'Enter how often the job runs, at least every minute';
+      }
+    } else if (!formData.url?.trim()) {
       newErrors.url = 'URL is required';
     } else {
       try {
-        new URL(formData.url);
+        const { protocol } = new URL(formData.url);
+        const schemes = isProtocolMonitor(monitorType) ? PROTOCOL_MONITORS[monitorType].schemes : null;
+        if (schemes && !schemes.includes(protocol.replace(/:$/, ''))) {
+          newErrors.url = `Please enter a ${schemes.map((scheme) => `${scheme}://`).join(' or ')} URL`;
+        }
       } catch {
-        newErrors.url = 'Please enter a valid URL (e.g., https://example.com)';
+        newErrors.url = `Please enter a valid URL (e.g., ${isProtocolMonitor(monitorType) ? PROTOCOL_MONITORS[monitorType].placeholder : 'https://example.com'})`;
+      }
+    }
+
+    const { websocketTimeout } = protocolRequest;
+    if (monitorType === 'WEBSOCKET' && websocketTimeout !== null && !(websocketTimeout >= 100 && websocketTimeout <= 60000)) {
+      newErrors.websocketTimeout = 'Between 100 and 60000 ms';
+    }
+
+    if (monitorType === 'TRANSACTION') {
+      const stepError = transactionSteps.length
+        ? transactionSteps.map(getTransactionStepError).find(Boolean)
+        : 'Add at least one step';
+      if (stepError) {
+        newErrors.transactionSteps = stepError;
       }
     }
 
@@ -167,7 +407,76 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
       }
     }
 
+    if (!httpRequest.acceptedStatusCodes.length) {
+      newErrors.acceptedStatusCodes = 'Add at least one accepted status code or range';
+    }
+
+    if (contentRules.contentRegex) {
+      try {
+        new RegExp(contentRules.contentRegex);
+      } catch {
+        newErrors.contentRegex = 'Please enter a valid regular expression';
+      }
+    }
+
+    const invalidAssertion = jsonAssertions.find(({ path, operator, value }) =>
+      !path.trim() ||
+      (NUMERIC_JSON_OPERATORS.includes(operator) && (value === '' || value === undefined || value === null || Number.isNaN(Number(value))))
+    );
+    if (invalidAssertion) {
+      newErrors.jsonAssertions = invalidAssertion.path.trim()
+        ? `Enter a number for the ${invalidAssertion.path} threshold`
+        : 'Every JSON assertion needs a path';
+    }
+
+    if (network.proxyUrl) {
+      try {
+        if (!PROXY_SCHEMES.includes(new URL(network.proxyUrl).protocol)) {
+          newErrors.proxyUrl = 'Use an http://, https:// or socks5:// proxy';
+        }
+      } catch {
+        newErrors.proxyUrl = 'Please enter a valid proxy URL';
+      }
+    }
+
+    const invalidResolver = network.dnsResolvers.find((resolver) => !RESOLVER_PATTERN.test(resolver));
+    if (invalidResolver) {
+      newErrors.dnsResolvers = `${invalidResolver} is not an IP address`;
+    }
+
+    if (contentChange.contentChangeEnabled) {
+      const invalidPattern = contentChange.contentIgnorePatterns.find((pattern) => {
+        try {
+          new RegExp(pattern);
+          return false;
+        } catch {
+          return true;
+        }
+      });
+      if (invalidPattern) {
+        newErrors.contentIgnorePatterns = `${invalidPattern} is not a valid regular expression`;
+      }
+
+      const threshold = contentChange.contentSimilarityThreshold;
+      if (!Number.isInteger(threshold) || threshold < 50 || threshold > 100) {
+        newErrors.contentSimilarityThreshold = 'The threshold must be between 50 and 100%';
+      }
+    }
+
+    const invalidPort = tcpPorts.find(({ port }) => !Number.isInteger(port) || port < 1 || port > 65535);
+    if (invalidPort) {
+      newErrors.tcpPorts = 'Ports must be between 1 and 65535';
+    } else if (new Set(tcpPorts.map(({ port }) => port)).size !== tcpPorts.length) {
+      newErrors.tcpPorts = 'Each port can only be listed once';
+    }
+
     setErrors(newErrors);
+    if (
+      newErrors.acceptedStatusCodes || newErrors.contentRegex || newErrors.jsonAssertions || newErrors.tcpPorts ||
+      newErrors.proxyUrl || newErrors.dnsResolvers || newErrors.contentIgnorePatterns || newErrors.contentSimilarityThreshold
+    ) {
+      setShowAdvancedSettings(true);
+    }
     return Object.keys(newErrors).length === 0;
   };
 
@@ -192,10 +501,30 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
 
       const payload: CreateSiteData = {
         name: formData.name || '',
-        url: formData.url || '',
+        // Heartbeat monitors get their URL from the server
+        url: monitorType === 'HEARTBEAT' ? undefined : formData.url || '',
+        monitorType,
+        ...(monitorType === 'HEARTBEAT' ? heartbeat : {}),
+        ...(monitorType === 'TRANSACTION' ? { transactionSteps: transactionSteps.map(normalizeTransactionStep) } : {}),
         checkInterval: (formData.checkInterval as number) || 1,
+        confirmationRetries: formData.confirmationRetries ?? 0,
+        regions,
+        ...protocolRequest,
+        ...network,
         monthlyReport: !!formData.monthlyReport,
         monthlyReportSendAt,
+        ...httpRequest,
+        httpHeaders: headersOrNull(httpRequest.httpHeaders),
+        ...contentRules,
+        ...contentChange,
+        jsonAssertions: jsonAssertions.map(normalizeJsonAssertion),
+        dnsRecordTypes,
+        tcpPorts: tcpPorts.map(({ port, label, send, expect }) => ({
+          port,
+          label: label?.trim() || null,
+          send: send || null,
+          expect: expect || null,
+        })),
       };
       onSubmit(payload);
     }
@@ -247,6 +576,33 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
 
         <DialogContent sx={{ p: 3 }}>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, mt: 3 }}>
+            <ToggleButtonGroup
+              exclusive
+              fullWidth
+              size="small"
+              // Protocol monitors share one button, the server is picked below
+              value={isProtocolMonitor(monitorType) ? 'SMTP' : monitorType}
+              onChange={(_, value: MonitorType | null) => value && setMonitorType(value)}
+              sx={{ '& .MuiToggleButton-root': { textTransform: 'none', gap: 1 } }}
+            >
+              <ToggleButton value="HTTP">
+                <LanguageIcon fontSize="small" />
+                Website
+              </ToggleButton>
+              <ToggleButton value="TRANSACTION">
+                <RouteIcon fontSize="small" />
+                Transaction
+              </ToggleButton>
+              <ToggleButton value="SMTP">
+                <DnsIcon fontSize="small" />
+                Protocol
+              </ToggleButton>
+              <ToggleButton value="HEARTBEAT">
+                <MonitorHeartIcon fontSize="small" />
+                Heartbeat (cron job, backup)
+              </ToggleButton>
+            </ToggleButtonGroup>
+
             <TextField
               label="Site Name"
               fullWidth
@@ -278,123 +634,166 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
               }}
             />
 
-            <TextField
-              label="Site URL"
-              fullWidth
-              value={formData.url}
-              onChange={(e) => {
-                setFormData({ ...formData, url: e.target.value });
-                if (errors.url) {
-                  setErrors({ ...errors, url: '' });
-                }
-              }}
-              error={!!errors.url}
-              helperText={errors.url}
-              placeholder="https://example.com"
-              InputProps={{
-                startAdornment: (
-                  <InputAdornment position="start">
-                    <LanguageIcon sx={{ color: theme.palette.action.active }} />
-                  </InputAdornment>
-                ),
-              }}
-              sx={{
-                '& .MuiOutlinedInput-root': {
-                  borderRadius: '12px',
-                  '&.Mui-focused': {
-                    '& .MuiOutlinedInput-notchedOutline': {
-                      borderColor: theme.palette.primary.main,
+            {monitorType === 'HEARTBEAT' ? (
+              <HeartbeatSettings
+                value={heartbeat}
+                onChange={(value) => {
+                  setHeartbeat(value);
+                  if (errors.heartbeatPeriod) {
+                    setErrors({ ...errors, heartbeatPeriod: '' });
+                  }
+                }}
+                errors={errors}
+              />
+            ) : (
+              <>
+                <TextField
+                  label="Site URL"
+                  fullWidth
+                  value={formData.url}
+                  onChange={(e) => {
+                    setFormData({ ...formData, url: e.target.value });
+                    if (errors.url) {
+                      setErrors({ ...errors, url: '' });
+                    }
+                  }}
+                  error={!!errors.url}
+                  helperText={errors.url || (monitorType === 'TRANSACTION' ? 'Step URLs such as /login are relative to this URL' : undefined)}
+                  placeholder={isProtocolMonitor(monitorType) ? PROTOCOL_MONITORS[monitorType].placeholder : 'https://example.com'}
+                  InputProps={{
+                    startAdornment: (
+                      <InputAdornment position="start">
+                        <LanguageIcon sx={{ color: theme.palette.action.active }} />
+                      </InputAdornment>
+                    ),
+                  }}
+                  sx={{
+                    '& .MuiOutlinedInput-root': {
+                      borderRadius: '12px',
+                      '&.Mui-focused': {
+                        '& .MuiOutlinedInput-notchedOutline': {
+                          borderColor: theme.palette.primary.main,
+                        },
+                      },
                     },
-                  },
-                },
-              }}
-            />
+                  }}
+                />
 
-            <FormControl fullWidth>
-              <Select
-                labelId="check-interval-label"
-                value={formData.checkInterval}
-                onChange={(e) => setFormData({ ...formData, checkInterval: e.target.value as number })}
-                startAdornment={
-                  <InputAdornment position="start">
-                    <ScheduleIcon sx={{ color: theme.palette.action.active, ml: 1 }} />
-                  </InputAdornment>
-                }
-                sx={{
-                  borderRadius: '12px',
-                  '&.Mui-focused': {
-                    '& .MuiOutlinedInput-notchedOutline': {
-                      borderColor: theme.palette.primary.main,
-                    },
-                  },
-                }}
-              >
-                {INTERVAL_OPTIONS.map((interval) => {
-                  const isAvailable = availableIntervals.includes(interval);
-                  const isRestricted = !isAvailable;
+                <FormControl fullWidth>
+                  <Select
+                    labelId="check-interval-label"
+                    value={formData.checkInterval}
+                    onChange={(e) => setFormData({ ...formData, checkInterval: e.target.value as number })}
+                    startAdornment={
+                      <InputAdornment position="start">
+                        <ScheduleIcon sx={{ color: theme.palette.action.active, ml: 1 }} />
+                      </InputAdornment>
+                    }
+                    sx={{
+                      borderRadius: '12px',
+                      '&.Mui-focused': {
+                        '& .MuiOutlinedInput-notchedOutline': {
+                          borderColor: theme.palette.primary.main,
+                        },
+                      },
+                    }}
+                  >
+                    {INTERVAL_OPTIONS.map((interval) => {
+                      const isAvailable = availableIntervals.includes(interval);
+                      const isRestricted = !isAvailable;
                   
-                  return (
-                    <MenuItem 
-                      key={interval} 
-                      value={interval}
-                      disabled={isRestricted}
-                      sx={{
-                        opacity: isRestricted ? 0.6 : 1,
-                        '&.Mui-disabled': {
-                          color: theme.palette.text.disabled,
-                        }
-                      }}
-                    >
-                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
-                        <Box sx={{ flex: 1 }}>
-                          {interval === 0.5 ? 'Every 30 seconds' : `Every ${interval} minute${interval > 1 ? 's' : ''}`}
-                        </Box>
-                        {isRestricted && (
-                          <Chip
-                            icon={<LockIcon />}
-                            label="Upgrade Required"
-                            size="small"
-                            color="warning"
-                            variant="outlined"
-                            sx={{ 
-                              fontSize: '0.75rem',
-                              height: '20px',
-                              '& .MuiChip-icon': {
-                                fontSize: '0.875rem'
-                              }
-                            }}
-                          />
-                        )}
-                      </Box>
-                    </MenuItem>
-                  );
-                })}
-              </Select>
-              <FormHelperText>
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                  <InfoIcon fontSize="small" sx={{ color: theme.palette.info.main }} />
-                  <Typography variant="body2" component="span">
-                    Choose how often the site should be checked
-                  </Typography>
-                  {minAllowedInterval < 300 && (
-                    <Chip
-                      icon={<UpgradeIcon />}
-                      label={`Min: ${minAllowedInterval === 30 ? '30s' : minAllowedInterval === 60 ? '1m' : '5m'}`}
-                      size="small"
-                      color="primary"
-                      variant="outlined"
-                      sx={{ 
-                        fontSize: '0.75rem',
-                        height: '20px',
-                        '& .MuiChip-icon': {
-                          fontSize: '0.875rem'
-                        }
-                      }}
-                    />
-                  )}
-                </Box>
-              </FormHelperText>
-            </FormControl>
+                      return (
+                        <MenuItem 
+                          key={interval} 
+                          value={interval}
+                          disabled={isRestricted}
+                          sx={{
+                            opacity: isRestricted ? 0.6 : 1,
+                            '&.Mui-disabled': {
+                              color: theme.palette.text.disabled,
+                            }
+                          }}
+                        >
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+                            <Box sx={{ flex: 1 }}>
+                              {interval === 0.5 ? 'Every 30 seconds' : `Every ${interval} minute${interval > 1 ? 's' : ''}`}
+                            </Box>
+                            {isRestricted && (
+                              <Chip
+                                icon={<LockIcon />}
+                                label="Upgrade Required"
+                                size="small"
+                                color="warning"
+                                variant="outlined"
+                                sx={{ 
+                                  fontSize: '0.75rem',
+                                  height: '20px',
+                                  '& .MuiChip-icon': {
+                                    fontSize: '0.875rem'
+                                  }
+                                }}
+                              />
+                            )}
+                          </Box>
+                        </MenuItem>
+                      );
+                    })}
+                  </Select>
+                  <FormHelperText>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <InfoIcon fontSize="small" sx={{ color: theme.palette.info.main }} />
+                      <Typography variant="body2" component="span">
+                        Choose how often the site should be checked
+                      </Typography>
+                      {minAllowedInterval < 300 && (
+                        <Chip
+                          icon={<UpgradeIcon />}
+                          label={`Min: ${minAllowedInterval === 30 ? '30s' : minAllowedInterval === 60 ? '1m' : '5m'}`}
+                          size="small"
+                          color="primary"
+                          variant="outlined"
+                          sx={{ 
+                            fontSize: '0.75rem',
+                            height: '20px',
+                            '& .MuiChip-icon': {
+                              fontSize: '0.875rem'
+                            }
+                          }}
+                        />
+                      )}
+                    </Box>
+                  </FormHelperText>
+                </FormControl>
+
+                {isProtocolMonitor(monitorType) && (
+                  <ProtocolSettings
+                    value={monitorType}
+                    onChange={setMonitorType}
+                    settings={protocolRequest}
+                    onSettingsChange={(value) => {
+                      setProtocolRequest(value);
+                      if (errors.websocketTimeout) {
+                        setErrors({ ...errors, websocketTimeout: '' });
+                      }
+                    }}
+                    errors={errors}
+                  />
+                )}
+
+                {monitorType === 'TRANSACTION' && (
+                  <TransactionSettings
+                    value={transactionSteps}
+                    onChange={(value) => {
+                      setTransactionSteps(value);
+                      if (errors.transactionSteps) {
+                        setErrors({ ...errors, transactionSteps: '' });
+                      }
+                    }}
+                    errors={errors}
+                  />
+                )}
+              </>
+            )}
 
             <FormControlLabel
               control={
@@ -494,6 +893,100 @@ export default function SiteForm({ open, onClose, onSubmit, site, isLoading }: S
               </Box>
             )}
 
+            {monitorType !== 'HEARTBEAT' && (
+              <Box>
+                <Button
+                  onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
+                  startIcon={showAdvancedSettings ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                  variant="text"
+                  sx={{
+                    textTransform: 'none',
+                    color: theme.palette.primary.main,
+                  }}
+                >
+                  {showAdvancedSettings ? 'Hide' : 'Show'} Advanced Settings
+                </Button>
+                <Collapse in={showAdvancedSettings}>
+                  <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2.5, mt: 1.5 }}>
+                    {!isProtocolMonitor(monitorType) && (
+                      <HttpRequestSettings
+                        value={httpRequest}
+                        onChange={(value) => {
+                          setHttpRequest(value);
+                          if (errors.acceptedStatusCodes) {
+                            setErrors({ ...errors, acceptedStatusCodes: '' });
+                          }
+                        }}
+                        errors={errors}
+                      />
+                    )}
+                    <ConfirmationSettings
+                      value={formData.confirmationRetries ?? 0}
+                      onChange={(value) => setFormData({ ...formData, confirmationRetries: value })}
+                    />
+                    <RegionSettings value={regions} onChange={setRegions} />
+                    <NetworkSettings
+                      value={network}
+                      onChange={(value) => {
+                        setNetwork(value);
+                        if (errors.proxyUrl || errors.dnsResolvers) {
+                          setErrors({ ...errors, proxyUrl: '', dnsResolvers: '' });
+                        }
+                      }}
+                      errors={errors}
+                    />
+                    {!isProtocolMonitor(monitorType) && (
+                      <>
+                        <ContentRulesSettings
+                          value={contentRules}
+                          onChange={(value) => {
+                            setContentRules(value);
+                            if (errors.contentRegex) {
+                              setErrors({ ...errors, contentRegex: '' });
+                            }
+                          }}
+                          errors={errors}
+                        />
+                        <ContentChangeSettings
+                          value={contentChange}
+                          onChange={(value) => {
+                            setContentChange(value);
+                            if (errors.contentIgnorePatterns || errors.contentSimilarityThreshold) {
+                              setErrors({ ...errors, contentIgnorePatterns: '', contentSimilarityThreshold: '' });
+                            }
+                          }}
+                          errors={errors}
+                        />
+                        <JsonAssertionsSettings
+                          value={jsonAssertions}
+                          onChange={(value) => {
+                            setJsonAssertions(value);
+                            if (errors.jsonAssertions) {
+                              setErrors({ ...errors, jsonAssertions: '' });
+                            }
+                          }}
+                          errors={errors}
+                        />
+                      </>
+                    )}
+                    <DnsRecordSettings value={dnsRecordTypes} onChange={setDnsRecordTypes} />
+                    {!isProtocolMonitor(monitorType) && (
+                      <TcpPortSettings
+                        value={tcpPorts}
+                        onChange={(value) => {
+                          setTcpPorts(value);
+                          if (errors.tcpPorts) {
+                            setErrors({ ...errors, tcpPorts: '' });
+                          }
+                        }}
+                        errors={errors}
+                      />
+                    )}
+                  </Box>
+                </Collapse>
+              </Box>
+            )}
+
             <Alert
               severity="info"
               sx={{
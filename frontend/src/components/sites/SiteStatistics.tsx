@@ -193,6 +193,12 @@ export default function SiteStatistics({ open, onClose, siteId }: SiteStatistics
                   new Date(status.checkedAt).toLocaleString() :
                   'Never'}
               </Typography>
+              {status.attempts && status.attempts > 1 ? (
+                <Typography variant="body2" color={theme.palette.text.secondary} sx={{ mt: 0.5 }}>
+                  Re-checked {status.attempts - 1} time{status.attempts > 2 ? 's' : ''}
+                  {status.attemptErrors?.length ? `: ${status.attemptErrors.join(', ')}` : ''}
+                </Typography>
+              ) : null}
             </Box>
 
             <Divider />
@@ -332,7 +338,7 @@ export default function SiteStatistics({ open, onClose, siteId }: SiteStatistics
                               />
                               <Box sx={{ flex: 1 }}>
                                 <Typography variant="body2" fontWeight="medium">
-                                  Port {tcpCheck.port}
+                                  {tcpCheck.label ? `${tcpCheck.label} (${tcpCheck.port})` : `Port ${tcpCheck.port}`}
                                 </Typography>
                                 <Typography variant="caption" color="text.secondary">
                                   {tcpCheck.isUp ? 'Open' : 'Closed'}
@@ -0,0 +1,140 @@
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  Stack,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  SettingsEthernet as SettingsEthernetIcon,
+} from '@mui/icons-material';
+import type { TcpPortDefinition } from '../../types/site.types';
+
+interface TcpPortSettingsProps {
+  value: TcpPortDefinition[];
+  onChange: (value: TcpPortDefinition[]) => void;
+  errors?: Record<string, string>;
+}
+
+const COMMON_SERVICES: TcpPortDefinition[] = [
+  { port: 22, label: 'SSH', expect: 'SSH-' },
+  { port: 21, label: 'FTP', expect: '220' },
+  { port: 25, label: 'SMTP', expect: '220' },
+  { port: 3306, label: 'MySQL' },
+  { port: 5432, label: 'PostgreSQL' },
+  { port: 6379, label: 'Redis', send: 'PING\\r\\n', expect: '+PONG' },
+];
+
+export default function TcpPortSettings({ value, onChange, errors = {} }: TcpPortSettingsProps) {
+  const theme = useTheme();
+
+  const fieldSx = {
+    '& .MuiOutlinedInput-root': {
+      borderRadius: '12px',
+    },
+  };
+
+  const updatePort = (index: number, changes: Partial<TcpPortDefinition>) => {
+    onChange(value.map((definition, i) => (i === index ? { ...definition, ...changes } : definition)));
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <SettingsEthernetIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">TCP Services</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Ports 80 and 443 are checked when no services are listed. Optionally send a string after connecting and require the response to contain another, e.g. send PING\r\n and expect +PONG.
+        </Typography>
+
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          {COMMON_SERVICES.map((service) => (
+            <Chip
+              key={service.port}
+              label={`${service.label} ${service.port}`}
+              size="small"
+              variant="outlined"
+              icon={<AddIcon />}
+              onClick={() => onChange([...value, service])}
+              disabled={value.length >= 20 || value.some(({ port }) => port === service.port)}
+            />
+          ))}
+        </Stack>
+
+        {value.map((definition, index) => (
+          <Stack key={index} direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+            <TextField
+              size="small"
+              label="Port"
+              type="number"
+              value={definition.port || ''}
+              onChange={(e) => updatePort(index, { port: parseInt(e.target.value, 10) || 0 })}
+              inputProps={{ min: 1, max: 65535 }}
+              sx={{ ...fieldSx, flex: 1, minWidth: 90 }}
+            />
+            <TextField
+              size="small"
+              label="Label"
+              placeholder="SSH"
+              value={definition.label || ''}
+              onChange={(e) => updatePort(index, { label: e.target.value || null })}
+              sx={{ ...fieldSx, flex: 1.5 }}
+            />
+            <TextField
+              size="small"
+              label="Send"
+              placeholder="Optional"
+              value={definition.send || ''}
+              onChange={(e) => updatePort(index, { send: e.target.value || null })}
+              sx={{ ...fieldSx, flex: 1.5 }}
+            />
+            <TextField
+              size="small"
+              label="Expect"
+              placeholder="Optional"
+              value={definition.expect || ''}
+              onChange={(e) => updatePort(index, { expect: e.target.value || null })}
+              sx={{ ...fieldSx, flex: 1.5 }}
+            />
+            <IconButton size="small" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Stack>
+        ))}
+
+        {errors.tcpPorts && (
+          <Typography variant="caption" color="error">
+            {errors.tcpPorts}
+          </Typography>
+        )}
+
+        <Box>
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => onChange([...value, { port: 0, label: null }])}
+            disabled={value.length >= 20}
+            sx={{ textTransform: 'none' }}
+          >
+            Add port
+          </Button>
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
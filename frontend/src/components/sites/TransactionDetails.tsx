@@ -0,0 +1,104 @@
+import { Box, Chip, Stack, Typography, alpha, useTheme } from '@mui/material';
+import {
+  CancelOutlined as CancelIcon,
+  CheckCircleOutline as CheckIcon,
+  RemoveCircleOutline as SkippedIcon,
+  Route as RouteIcon,
+} from '@mui/icons-material';
+import type { SiteStatus, TransactionStep } from '../../types/site.types';
+
+interface TransactionDetailsProps {
+  steps: TransactionStep[];
+  status?: SiteStatus | null;
+}
+
+export default function TransactionDetails({ steps, status }: TransactionDetailsProps) {
+  const theme = useTheme();
+  const results = status?.transactionSteps || [];
+  const totalTime = results.reduce((total, result) => total + result.responseTime, 0);
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <RouteIcon color="primary" />
+        Transaction Steps
+        {results.length > 0 && (
+          <Chip size="small" variant="outlined" label={`${totalTime} ms total`} sx={{ ml: 1 }} />
+        )}
+      </Typography>
+
+      {status?.transactionError && (
+        <Typography variant="body2" color="error">
+          {status.transactionError}
+        </Typography>
+      )}
+
+      <Stack spacing={1}>
+        {steps.map((step, index) => {
+          const result = results[index];
+          // Steps after the failed one are not run
+          const color = !result
+            ? theme.palette.grey[500]
+            : result.passed ? theme.palette.success.main : theme.palette.error.main;
+
+          return (
+            <Stack
+              key={index}
+              direction="row"
+              spacing={1.5}
+              alignItems="center"
+              sx={{
+                p: 1.5,
+                borderRadius: 2,
+                background: alpha(color, 0.08),
+                border: `1px solid ${alpha(color, 0.2)}`,
+              }}
+            >
+              {!result ? (
+                <SkippedIcon sx={{ fontSize: 18, color }} />
+              ) : result.passed ? (
+                <CheckIcon sx={{ fontSize: 18, color }} />
+              ) : (
+                <CancelIcon sx={{ fontSize: 18, color }} />
+              )}
+              <Stack spacing={0.25} sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" fontWeight={600}>
+                  {index + 1}. {step.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                  {step.method} {result?.url || step.url}
+                </Typography>
+                {result && !result.passed && result.error && (
+                  <Typography variant="caption" color="error">
+                    {result.error}
+                  </Typography>
+                )}
+                {result?.extracted?.length ? (
+                  <Typography variant="caption" color="text.secondary">
+                    Extracted {result.extracted.map((name) => `{{${name}}}`).join(', ')}
+                  </Typography>
+                ) : null}
+              </Stack>
+              <Box sx={{ textAlign: 'right', flexShrink: 0 }}>
+                {result ? (
+                  <>
+                    <Typography variant="body2" fontWeight={600}>
+                      {result.responseTime} ms
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {result.status ? `HTTP ${result.status}` : 'No response'}
+                    </Typography>
+                  </>
+                ) : (
+                  <Typography variant="caption" color="text.secondary">
+                    {results.length ? 'Not run' : 'Waiting for the first check'}
+                  </Typography>
+                )}
+              </Box>
+            </Stack>
+          );
+        })}
+      </Stack>
+    </Stack>
+  );
+}
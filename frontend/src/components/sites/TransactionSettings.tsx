@@ -0,0 +1,362 @@
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  Delete as DeleteIcon,
+  Route as RouteIcon,
+} from '@mui/icons-material';
+import type {
+  HttpMethod,
+  TransactionExtraction,
+  TransactionExtractionSource,
+  TransactionStep,
+} from '../../types/site.types';
+import JsonAssertionsSettings from './JsonAssertionsSettings';
+
+interface TransactionSettingsProps {
+  value: TransactionStep[];
+  onChange: (value: TransactionStep[]) => void;
+  errors?: Record<string, string>;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+const METHODS_WITH_BODY: HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const STATUS_CODE_PATTERN = /^[1-5]\d{2}(-[1-5]\d{2})?$/;
+const MAX_STEPS = 20;
+
+const EXTRACTION_SOURCES: { value: TransactionExtractionSource; label: string; placeholder: string }[] = [
+  { value: 'json', label: 'JSON body', placeholder: '$.data.token' },
+  { value: 'body', label: 'Body (regex)', placeholder: 'name="csrf" value="([^"]+)"' },
+  { value: 'header', label: 'Header', placeholder: 'Optional regex' },
+];
+
+const NEW_STEP: TransactionStep = {
+  name: '',
+  url: '',
+  method: 'GET',
+  headers: null,
+  body: null,
+  acceptedStatusCodes: ['200-399'],
+  followRedirects: true,
+  jsonAssertions: [],
+  extract: [],
+};
+
+export default function TransactionSettings({ value, onChange, errors = {} }: TransactionSettingsProps) {
+  const theme = useTheme();
+
+  const fieldSx = {
+    '& .MuiOutlinedInput-root': {
+      borderRadius: '12px',
+    },
+  };
+
+  const updateStep = (index: number, changes: Partial<TransactionStep>) => {
+    onChange(value.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...value];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    onChange(steps);
+  };
+
+  const updateExtraction = (stepIndex: number, extractionIndex: number, changes: Partial<TransactionExtraction>) => {
+    const extract = value[stepIndex].extract || [];
+    updateStep(stepIndex, {
+      extract: extract.map((extraction, i) => (i === extractionIndex ? { ...extraction, ...changes } : extraction)),
+    });
+  };
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: '12px',
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+        bgcolor: alpha(theme.palette.primary.main, 0.03),
+      }}
+    >
+      <Stack spacing={2}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <RouteIcon sx={{ color: theme.palette.primary.main }} />
+          <Typography variant="subtitle2">Transaction Steps</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          The steps run in order and stop at the first failure. Cookies are kept between steps. Values extracted from a response
+          can be used as {'{{name}}'} in the URL, headers and body of later steps.
+        </Typography>
+
+        {value.map((step, index) => {
+          const headers = Object.entries(step.headers || {});
+          const updateHeaders = (entries: [string, string][]) => updateStep(index, { headers: Object.fromEntries(entries) });
+
+          return (
+            <Box
+              key={index}
+              sx={{
+                p: 2,
+                borderRadius: '12px',
+                border: `1px solid ${theme.palette.divider}`,
+                bgcolor: theme.palette.background.paper,
+              }}
+            >
+              <Stack spacing={2}>
+                <Stack direction="row" alignItems="center" spacing={1}>
+                  <Typography variant="subtitle2" sx={{ flex: 1 }}>
+                    Step {index + 1}
+                  </Typography>
+                  <IconButton size="small" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                    <ArrowUpwardIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => moveStep(index, 1)} disabled={index === value.length - 1}>
+                    <ArrowDownwardIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Stack>
+
+                <TextField
+                  size="small"
+                  label="Name"
+                  placeholder="Log in"
+                  value={step.name}
+                  onChange={(e) => updateStep(index, { name: e.target.value })}
+                  sx={fieldSx}
+                />
+
+                <Stack direction="row" spacing={1}>
+                  <FormControl size="small" sx={{ minWidth: 110 }}>
+                    <InputLabel id={`transaction-step-${index}-method-label`}>Method</InputLabel>
+                    <Select
+                      labelId={`transaction-step-${index}-method-label`}
+                      label="Method"
+                      value={step.method}
+                      onChange={(e) => updateStep(index, { method: e.target.value as HttpMethod })}
+                      sx={{ borderRadius: '12px' }}
+                    >
+                      {HTTP_METHODS.map((method) => (
+                        <MenuItem key={method} value={method}>
+                          {method}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    size="small"
+                    label="URL"
+                    placeholder="/login or https://api.example.com/cart"
+                    value={step.url}
+                    onChange={(e) => updateStep(index, { url: e.target.value })}
+                    sx={{ ...fieldSx, flex: 1 }}
+                  />
+                </Stack>
+
+                <Stack spacing={1}>
+                  {headers.map(([name, headerValue], headerIndex) => (
+                    <Stack key={headerIndex} direction="row" spacing={1} alignItems="center">
+                      <TextField
+                        size="small"
+                        label="Header"
+                        value={name}
+                        onChange={(e) => updateHeaders(headers.map((entry, i) => (i === headerIndex ? [e.target.value, entry[1]] : entry)))}
+                        sx={{ ...fieldSx, flex: 1 }}
+                      />
+                      <TextField
+                        size="small"
+                        label="Value"
+                        value={headerValue}
+                        onChange={(e) => updateHeaders(headers.map((entry, i) => (i === headerIndex ? [entry[0], e.target.value] : entry)))}
+                        sx={{ ...fieldSx, flex: 2 }}
+                      />
+                      <IconButton size="small" onClick={() => updateHeaders(headers.filter((_, i) => i !== headerIndex))}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Stack>
+                  ))}
+                  <Box>
+                    <Button
+                      size="small"
+                      startIcon={<AddIcon />}
+                      onClick={() => updateHeaders([...headers, ['', '']])}
+                      disabled={headers.some(([name]) => !name)}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Add header
+                    </Button>
+                  </Box>
+                </Stack>
+
+                {METHODS_WITH_BODY.includes(step.method) && (
+                  <TextField
+                    size="small"
+                    label="Request body"
+                    multiline
+                    minRows={2}
+                    value={step.body || ''}
+                    onChange={(e) => updateStep(index, { body: e.target.value || null })}
+                    helperText="Sent as-is; set a Content-Type header to match"
+                    sx={fieldSx}
+                  />
+                )}
+
+                <Autocomplete
+                  multiple
+                  freeSolo
+                  size="small"
+                  options={['200-299', '200-399', '301', '302']}
+                  value={step.acceptedStatusCodes || []}
+                  onChange={(_, items) =>
+                    updateStep(index, {
+                      acceptedStatusCodes: (items as string[]).map((item) => item.trim()).filter((item) => STATUS_CODE_PATTERN.test(item)),
+                    })
+                  }
+                  renderValue={(items, getItemProps) =>
+                    items.map((item, itemIndex) => {
+                      const { key, ...itemProps } = getItemProps({ index: itemIndex });
+                      return <Chip key={key} label={item} size="small" color="success" variant="outlined" {...itemProps} />;
+                    })
+                  }
+                  renderInput={(params) => (
+                    <TextField {...params} label="Accepted status codes" placeholder="e.g. 200-299" sx={fieldSx} />
+                  )}
+                />
+
+                <TextField
+                  size="small"
+                  label="Response must contain"
+                  placeholder="Optional, e.g. Welcome back"
+                  value={step.contentRules?.mustContain?.[0] || ''}
+                  onChange={(e) => updateStep(index, { contentRules: { mustContain: e.target.value ? [e.target.value] : [] } })}
+                  sx={fieldSx}
+                />
+
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!!step.followRedirects}
+                      onChange={(e) => updateStep(index, { followRedirects: e.target.checked })}
+                      color="primary"
+                    />
+                  }
+                  label={<Typography variant="body2">Follow redirects</Typography>}
+                />
+
+                <JsonAssertionsSettings
+                  value={step.jsonAssertions || []}
+                  onChange={(jsonAssertions) => updateStep(index, { jsonAssertions })}
+                />
+
+                <Stack spacing={1}>
+                  <Typography variant="body2" color="text.secondary">
+                    Extract variables
+                  </Typography>
+                  {(step.extract || []).map((extraction, extractionIndex) => (
+                    <Stack key={extractionIndex} direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+                      <TextField
+                        size="small"
+                        label="Variable"
+                        placeholder="token"
+                        value={extraction.name}
+                        onChange={(e) => updateExtraction(index, extractionIndex, { name: e.target.value.trim() })}
+                        sx={{ ...fieldSx, flex: 1 }}
+                      />
+                      <FormControl size="small" sx={{ minWidth: 140 }}>
+                        <InputLabel id={`transaction-step-${index}-extract-${extractionIndex}-label`}>From</InputLabel>
+                        <Select
+                          labelId={`transaction-step-${index}-extract-${extractionIndex}-label`}
+                          label="From"
+                          value={extraction.source}
+                          onChange={(e) => updateExtraction(index, extractionIndex, { source: e.target.value as TransactionExtractionSource })}
+                          sx={{ borderRadius: '12px' }}
+                        >
+                          {EXTRACTION_SOURCES.map((source) => (
+                            <MenuItem key={source.value} value={source.value}>
+                              {source.label}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                      {extraction.source === 'header' && (
+                        <TextField
+                          size="small"
+                          label="Header name"
+                          placeholder="X-Csrf-Token"
+                          value={extraction.header || ''}
+                          onChange={(e) => updateExtraction(index, extractionIndex, { header: e.target.value || null })}
+                          sx={{ ...fieldSx, flex: 1 }}
+                        />
+                      )}
+                      <TextField
+                        size="small"
+                        label={extraction.source === 'json' ? 'JSONPath' : 'Regex'}
+                        placeholder={EXTRACTION_SOURCES.find((source) => source.value === extraction.source)?.placeholder}
+                        value={extraction.expression || ''}
+                        onChange={(e) => updateExtraction(index, extractionIndex, { expression: e.target.value || null })}
+                        sx={{ ...fieldSx, flex: 1.5 }}
+                      />
+                      <IconButton
+                        size="small"
+                        onClick={() => updateStep(index, { extract: (step.extract || []).filter((_, i) => i !== extractionIndex) })}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Stack>
+                  ))}
+                  <Box>
+                    <Button
+                      size="small"
+                      startIcon={<AddIcon />}
+                      onClick={() => updateStep(index, { extract: [...(step.extract || []), { name: '', source: 'json', expression: '' }] })}
+                      disabled={(step.extract || []).length >= 10}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Add variable
+                    </Button>
+                  </Box>
+                </Stack>
+              </Stack>
+            </Box>
+          );
+        })}
+
+        {errors.transactionSteps && (
+          <Typography variant="caption" color="error">
+            {errors.transactionSteps}
+          </Typography>
+        )}
+
+        <Box>
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => onChange([...value, NEW_STEP])}
+            disabled={value.length >= MAX_STEPS}
+            sx={{ textTransform: 'none' }}
+          >
+            Add step
+          </Button>
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
@@ -10,6 +10,8 @@ import {
     IconButton,
     Tooltip as MuiTooltip,
     ButtonGroup,
+    ToggleButton,
+    ToggleButtonGroup,
 } from '@mui/material';
 import {
     ZoomIn as ZoomInIcon,
@@ -20,6 +22,9 @@ import { alpha } from '@mui/material/styles';
 import {
     ResponsiveContainer,
     ComposedChart,
+    BarChart,
+    Bar,
+    Legend,
     Line,
     Area,
     XAxis,
@@ -38,8 +43,33 @@ interface WorkerResponseTimeChartProps {
     height?: number;
     icon?: React.ReactNode;
     tcpPort?: number; // For TCP response times
+    showTimingPhases?: boolean; // Offer a breakdown of HTTP response times into DNS, connect, TLS, TTFB and transfer
 }
 
+type HttpTimingField =
+    | 'httpDnsLookupTime'
+    | 'httpConnectTime'
+    | 'httpTlsHandshakeTime'
+    | 'httpTimeToFirstByte'
+    | 'httpContentTransferTime';
+
+// In the order they happen during a request, so the stacked bars read left to right
+const HTTP_TIMING_PHASES: { field: HttpTimingField; label: string; color: string }[] = [
+    { field: 'httpDnsLookupTime', label: 'DNS', color: '#9c27b0' },
+    { field: 'httpConnectTime', label: 'Connect', color: '#0288d1' },
+    { field: 'httpTlsHandshakeTime', label: 'TLS', color: '#00796b' },
+    { field: 'httpTimeToFirstByte', label: 'TTFB', color: '#ed6c02' },
+    { field: 'httpContentTransferTime', label: 'Transfer', color: '#689f38' },
+];
+
+const formatChartTimestamp = (checkedAt: string) => new Date(checkedAt).toLocaleString([], {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+});
+
 // Predefined color palette for workers
 const WORKER_COLOR_PALETTE = [
     '#1976d2', // blue
@@ -123,9 +153,11 @@ export default function WorkerResponseTimeChart({
     unit = 'ms',
     height = 300,
     icon,
-    tcpPort
+    tcpPort,
+    showTimingPhases = false
 }: WorkerResponseTimeChartProps) {
     const theme = useTheme();
+    const [view, setView] = useState<'total' | 'phases'>('total');
 
     // Zoom state management
     const [zoomDomain, setZoomDomain] = useState<{ left?: number, right?: number } | undefined>(undefined);
@@ -141,13 +173,7 @@ export default function WorkerResponseTimeChart({
         const timeGroups: { [key: string]: { [workerId: string]: number | null } } = {};
 
         siteStatuses.forEach(status => {
-            const timestamp = new Date(status.checkedAt).toLocaleString([], {
-                month: '2-digit',
-                day: '2-digit',
-                hour: '2-digit',
-                minute: '2-digit',
-                hour12: false
-            });
+            const timestamp = formatChartTimestamp(status.checkedAt);
 
             if (!timeGroups[timestamp]) {
                 timeGroups[timestamp] = {};
@@ -274,6 +300,41 @@ export default function WorkerResponseTimeChart({
         ? chartData.slice(zoomDomain.left, zoomDomain.right + 1)
         : chartData;
 
+    // Average duration of each HTTP phase per worker over the displayed time range
+    const getTimingPhaseData = () => {
+        const displayedTimestamps = new Set(displayData.map(item => item.timestamp));
+        const totals = new Map<string, { sums: Record<HttpTimingField, number>; counts: Record<HttpTimingField, number> }>();
+
+        siteStatuses.forEach(status => {
+            if (status.workerId === 'consensus_worker' || !displayedTimestamps.has(formatChartTimestamp(status.checkedAt))) return;
+
+            HTTP_TIMING_PHASES.forEach(({ field }) => {
+                const value = status[field];
+                if (typeof value !== 'number') return;
+
+                const workerTotals = totals.get(status.workerId) || {
+                    sums: {} as Record<HttpTimingField, number>,
+                    counts: {} as Record<HttpTimingField, number>,
+                };
+                workerTotals.sums[field] = (workerTotals.sums[field] || 0) + value;
+                workerTotals.counts[field] = (workerTotals.counts[field] || 0) + 1;
+                totals.set(status.workerId, workerTotals);
+            });
+        });
+
+        return Array.from(totals.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([workerId, { sums, counts }]) => ({
+                worker: getWorkerDisplayName(workerId),
+                ...Object.fromEntries(HTTP_TIMING_PHASES.map(({ field }) => [
+                    field,
+                    counts[field] ? Math.round((sums[field] / counts[field]) * 10) / 10 : 0,
+                ])),
+            }));
+    };
+
+    const timingPhaseData = showTimingPhases && view === 'phases' ? getTimingPhaseData() : [];
+
     const CustomTooltip = ({ active, payload, label }: any) => {
         if (!active || !payload || !payload.length) return null;
 
@@ -413,6 +474,20 @@ export default function WorkerResponseTimeChart({
 
                     <Box sx={{ flexGrow: 1 }} />
 
+                    {/* Total / Phases Toggle */}
+                    {showTimingPhases && chartData.length > 0 && (
+                        <ToggleButtonGroup
+                            size="small"
+                            exclusive
+                            value={view}
+                            onChange={(_, value) => value && setView(value)}
+                            sx={{ '& .MuiToggleButton-root': { py: 0.25, px: 1.25, fontSize: '0.75rem', textTransform: 'none' } }}
+                        >
+                            <ToggleButton value="total">Total</ToggleButton>
+                            <ToggleButton value="phases">Phases</ToggleButton>
+                        </ToggleButtonGroup>
+                    )}
+
                     {/* Zoom Controls */}
                     {chartData.length > 0 && (
                         <ButtonGroup
@@ -507,7 +582,7 @@ export default function WorkerResponseTimeChart({
                     </Stack>
                 </Stack>
 
-                {chartData.length > 0 && activeWorkers.length > 0 ? (
+                {chartData.length > 0 && activeWorkers.length > 0 && (view === 'total' || timingPhaseData.length > 0) ? (
                     <Box
                         sx={{
                             width: '100%',
@@ -557,6 +632,58 @@ export default function WorkerResponseTimeChart({
                         }}
                     >
                         <ResponsiveContainer>
+                            {view === 'phases' ? (
+                            <BarChart
+                                data={timingPhaseData}
+                                layout="vertical"
+                                margin={{
+                                    top: 25,
+                                    right: 35,
+                                    left: 25,
+                                    bottom: 10,
+                                }}
+                            >
+                                <CartesianGrid
+                                    strokeDasharray="2 4"
+                                    stroke={alpha(theme.palette.divider, 0.3)}
+                                    horizontal={false}
+                                />
+                                <XAxis
+                                    type="number"
+                                    unit={unit}
+                                    tick={{ fill: theme.palette.text.secondary, fontSize: 11, fontWeight: 500 }}
+                                    stroke={alpha(theme.palette.divider, 0.5)}
+                                />
+                                <YAxis
+                                    type="category"
+                                    dataKey="worker"
+                                    width={110}
+                                    tick={{ fill: theme.palette.text.secondary, fontSize: 11, fontWeight: 500 }}
+                                    stroke={alpha(theme.palette.divider, 0.5)}
+                                />
+                                <Tooltip
+                                    formatter={(value) => `${Number(value).toFixed(1)}${unit}`}
+                                    contentStyle={{
+                                        background: theme.palette.background.paper,
+                                        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+                                        borderRadius: 8,
+                                    }}
+                                    cursor={{ fill: alpha(theme.palette.primary.main, 0.05) }}
+                                />
+                                <Legend verticalAlign="top" />
+                                {HTTP_TIMING_PHASES.map(({ field, label, color }) => (
+                                    <Bar
+                                        key={field}
+                                        dataKey={field}
+                                        name={label}
+                                        stackId="phases"
+                                        fill={color}
+                                        maxBarSize={28}
+                                        animationDuration={800}
+                                    />
+                                ))}
+                            </BarChart>
+                            ) : (
                             <ComposedChart
                                 data={displayData}
                                 onMouseDown={handleMouseDown}
@@ -709,6 +836,7 @@ export default function WorkerResponseTimeChart({
                                     );
                                 })}
                             </ComposedChart>
+                            )}
                         </ResponsiveContainer>
                     </Box>
                 ) : (
@@ -0,0 +1,16 @@
+import type { MonitorType, ProtocolMonitorType } from '../types/site.types';
+
+// URL schemes, the secure variants connect with TLS right away; SMTP upgrades with STARTTLS when offered
+export const PROTOCOL_MONITORS: Record<ProtocolMonitorType, { label: string; schemes: string[]; placeholder: string }> = {
+  SMTP: { label: 'SMTP', schemes: ['smtp', 'smtps'], placeholder: 'smtp://mail.example.com:587' },
+  IMAP: { label: 'IMAP', schemes: ['imap', 'imaps'], placeholder: 'imaps://mail.example.com' },
+  POP3: { label: 'POP3', schemes: ['pop3', 'pop3s'], placeholder: 'pop3s://mail.example.com' },
+  POSTGRES: { label: 'PostgreSQL', schemes: ['postgres', 'postgresql'], placeholder: 'postgres://monitor@db.example.com:5432/app' },
+  MYSQL: { label: 'MySQL', schemes: ['mysql'], placeholder: 'mysql://db.example.com:3306' },
+  REDIS: { label: 'Redis', schemes: ['redis', 'rediss'], placeholder: 'redis://:password@cache.example.com:6379' },
+  WEBSOCKET: { label: 'WebSocket', schemes: ['ws', 'wss'], placeholder: 'wss://example.com/socket' },
+  GRPC: { label: 'gRPC', schemes: ['grpc', 'grpcs'], placeholder: 'grpcs://api.example.com:443' },
+};
+
+export const isProtocolMonitor = (monitorType?: MonitorType | null): monitorType is ProtocolMonitorType =>
+  !!monitorType && monitorType in PROTOCOL_MONITORS;
@@ -44,6 +44,8 @@ import {
   Speed as SpeedIcon,
   Psychology as AiIcon,
   Download as PdfIcon,
+  CallSplit as RedirectIcon,
+  DataObject as JsonIcon,
 } from '@mui/icons-material';
 import { alpha } from '@mui/material/styles';
 import type { RootState } from '../store';
@@ -51,11 +53,21 @@ import { fetchSiteStatus, fetchSiteStatusHistory } from '../store/slices/siteSta
 import SiteForm from '../components/sites/SiteForm';
 import WorkerResponseTimeChart from '../components/sites/WorkerResponseTimeChart';
 import AiAnalysisModal from '../components/sites/AiAnalysisModal';
-import { setSelectedSite, updateSite } from '../store/slices/siteSlice';
+import HeartbeatDetails from '../components/sites/HeartbeatDetails';
+import TransactionDetails from '../components/sites/TransactionDetails';
+import ProtocolDetails from '../components/sites/ProtocolDetails';
+import DnsResolverDetails from '../components/sites/DnsResolverDetails';
+import SecurityAuditDetails from '../components/sites/SecurityAuditDetails';
+import ContentChangeDetails from '../components/sites/ContentChangeDetails';
+import { isProtocolMonitor } from '../constants/protocol.constants';
+import { acceptContentBaseline, acceptDnsBaseline, setSelectedSite, updateSite } from '../store/slices/siteSlice';
 import type { CreateSiteData } from '../types/site.types';
 import type { AppDispatch } from '../store';
 import axios from '../lib/axios';
 
+// Name a TCP check after the service label configured on the site, if any
+const formatTcpService = (port: number, label?: string | null) => (label ? `${label} (${port})` : `Port ${port}`);
+
 export default function SiteDetails() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -80,6 +92,11 @@ export default function SiteDetails() {
   const [timeRange, setTimeRange] = useState(24); // Default to 24 hours
   const [pdfLoading, setPdfLoading] = useState(false);
   const [monthlyReportLoading, setMonthlyReportLoading] = useState(false);
+  const [dnsBaselineLoading, setDnsBaselineLoading] = useState(false);
+  const [contentBaselineLoading, setContentBaselineLoading] = useState(false);
+
+  // Heartbeat monitors are pinged by the job itself, so there are no worker checks to show
+  const isHeartbeat = site?.monitorType === 'HEARTBEAT';
 
   useEffect(() => {
     const loadSiteData = async () => {
@@ -124,6 +141,28 @@ export default function SiteDetails() {
     setIsFormOpen(false);
   }, [site, dispatch]);
 
+  const handleAcceptDnsBaseline = useCallback(async () => {
+    if (!site) return;
+    setDnsBaselineLoading(true);
+    try {
+      await dispatch(acceptDnsBaseline(site.id));
+      await dispatch(fetchSiteStatus(site.id));
+    } finally {
+      setDnsBaselineLoading(false);
+    }
+  }, [site, dispatch]);
+
+  const handleAcceptContentBaseline = useCallback(async () => {
+    if (!site) return;
+    setContentBaselineLoading(true);
+    try {
+      await dispatch(acceptContentBaseline(site.id));
+      await dispatch(fetchSiteStatus(site.id));
+    } finally {
+      setContentBaselineLoading(false);
+    }
+  }, [site, dispatch]);
+
   const handleFormClose = useCallback(() => {
     dispatch(setSelectedSite(null));
     setIsFormOpen(false);
@@ -192,11 +231,11 @@ export default function SiteDetails() {
 // Memoized status history to prevent unnecessary re-renders
 const memoizedStatusHistory = useMemo(() => statusHistory || [], [statusHistory]);
 
-// Memoized TCP ports calculation
-const tcpPorts = useMemo(() => {
-  if (!statusHistory || !statusHistory.length) return [];
+// Memoized TCP ports calculation, with their service labels
+const tcpPortLabels = useMemo(() => {
+  const portLabels = new Map<number, string | null>();
+  if (!statusHistory || !statusHistory.length) return portLabels;
 
-  const portsSet = new Set<number>();
   statusHistory.forEach(status => {
     if (status.tcpChecks) {
       const tcpChecksArray = Array.isArray(status.tcpChecks)
@@ -204,15 +243,17 @@ const tcpPorts = useMemo(() => {
         : Object.values(status.tcpChecks);
       tcpChecksArray.forEach((check: any) => {
         if (check?.port) {
-          portsSet.add(check.port);
+          portLabels.set(check.port, portLabels.get(check.port) || check.label || null);
         }
       });
     }
   });
 
-  return Array.from(portsSet).sort((a, b) => a - b);
+  return portLabels;
 }, [statusHistory]);
 
+const tcpPorts = useMemo(() => Array.from(tcpPortLabels.keys()).sort((a, b) => a - b), [tcpPortLabels]);
+
 // Memoize all chart components (Ping, HTTP, DNS, TCP)
 const chartComponents = useMemo(() => [
   <WorkerResponseTimeChart
@@ -230,6 +271,7 @@ const chartComponents = useMemo(() => [
     responseTimeField="httpResponseTime"
     icon={<HttpIcon color="info" />}
     height={300}
+    showTimingPhases
   />,
   <WorkerResponseTimeChart
     key="dns"
@@ -242,7 +284,7 @@ const chartComponents = useMemo(() => [
   ...tcpPorts.map((port: number) => (
     <WorkerResponseTimeChart
       key={`tcp-${port}`}
-      title={`TCP Port ${port} Response Times`}
+      title={`TCP ${formatTcpService(port, tcpPortLabels.get(port))} Response Times`}
       siteStatuses={memoizedStatusHistory}
       responseTimeField="pingResponseTime" // This will be overridden by tcpPort prop
       tcpPort={port}
@@ -250,7 +292,7 @@ const chartComponents = useMemo(() => [
       height={300}
     />
   ))
-], [memoizedStatusHistory, tcpPorts]);
+], [memoizedStatusHistory, tcpPorts, tcpPortLabels]);
 
 // Memoized helper function to get status color
 const getStatusColor = useCallback((isUp: boolean | undefined) => {
@@ -514,6 +556,11 @@ return (
                         >
                           {siteStatus?.isUp ? 'Site is Online' : 'Site is Offline'}
                         </Typography>
+                        {siteStatus?.isUp && siteStatus.isDegraded && (
+                          <MuiTooltip title={siteStatus.degradedReason || ''}>
+                            <Chip label="Degraded" size="small" color="warning" />
+                          </MuiTooltip>
+                        )}
                       </Stack>
 
                       <Typography
@@ -570,28 +617,30 @@ return (
                       </Button>
                     </MuiTooltip>
 
-                    <Button
-                      component="a"
-                      href={site.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      startIcon={<NetworkIcon />}
-                      variant="contained"
-                      sx={{
-                        whiteSpace: 'nowrap',
-                        textOverflow: 'ellipsis',
-                        overflow: 'hidden',
-                        minWidth: 0,
-                        maxWidth: '100%',
-                        borderRadius: 1,
-                        background: `linear-gradient(45deg, ${theme.palette.primary.main} 30%, ${theme.palette.secondary.main} 90%)`,
-                        '&:hover': {
-                          background: `linear-gradient(45deg, ${theme.palette.secondary.main} 30%, ${theme.palette.primary.main} 90%)`,
-                        },
-                      }}
-                    >
-                      Visit Site
-                    </Button>
+                    {!isHeartbeat && (
+                      <Button
+                        component="a"
+                        href={site.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        startIcon={<NetworkIcon />}
+                        variant="contained"
+                        sx={{
+                          whiteSpace: 'nowrap',
+                          textOverflow: 'ellipsis',
+                          overflow: 'hidden',
+                          minWidth: 0,
+                          maxWidth: '100%',
+                          borderRadius: 1,
+                          background: `linear-gradient(45deg, ${theme.palette.primary.main} 30%, ${theme.palette.secondary.main} 90%)`,
+                          '&:hover': {
+                            background: `linear-gradient(45deg, ${theme.palette.secondary.main} 30%, ${theme.palette.primary.main} 90%)`,
+                          },
+                        }}
+                      >
+                        Visit Site
+                      </Button>
+                    )}
                   </Stack>
                 </Stack>
 
@@ -601,140 +650,165 @@ return (
               <Divider />
 
               {/* Individual Status Indicators */}
-              <Stack spacing={2}>
-                <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                  <AssessmentIcon color="primary" />
-                  Service Status Overview
-                </Typography>
+              {isHeartbeat ? (
+                <HeartbeatDetails site={site} status={siteStatus} />
+              ) : (
+                <Stack spacing={2}>
+                  <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <AssessmentIcon color="primary" />
+                    Service Status Overview
+                  </Typography>
 
-                <Stack
-                  direction={{ xs: 'column', sm: 'row' }}
-                  spacing={2}
-                  sx={{ width: '100%' }}
-                >
-                  {/* Ping Status */}
-                  <Card
-                    sx={{
-                      flex: 1,
-                      p: 2,
-                      background: alpha(getStatusColor(siteStatus?.pingIsUp), 0.08),
-                      border: `1px solid ${alpha(getStatusColor(siteStatus?.pingIsUp), 0.2)}`,
-                      transition: 'all 0.3s ease',
-                      '&:hover': {
-                        transform: 'translateY(-1px)',
-                        boxShadow: theme.shadows[4],
-                      }
-                    }}
+                  <Stack
+                    direction={{ xs: 'column', sm: 'row' }}
+                    spacing={2}
+                    sx={{ width: '100%' }}
                   >
-                    <Stack spacing={1} alignItems="center">
-                      <Stack direction="row" spacing={1} alignItems="center">
-                        <PingIcon sx={{ color: getStatusColor(siteStatus?.pingIsUp) }} />
-                        {getStatusIcon(siteStatus?.pingIsUp, 16)}
+                    {/* Ping Status */}
+                    <Card
+                      sx={{
+                        flex: 1,
+                        p: 2,
+                        background: alpha(getStatusColor(siteStatus?.pingIsUp), 0.08),
+                        border: `1px solid ${alpha(getStatusColor(siteStatus?.pingIsUp), 0.2)}`,
+                        transition: 'all 0.3s ease',
+                        '&:hover': {
+                          transform: 'translateY(-1px)',
+                          boxShadow: theme.shadows[4],
+                        }
+                      }}
+                    >
+                      <Stack spacing={1} alignItems="center">
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <PingIcon sx={{ color: getStatusColor(siteStatus?.pingIsUp) }} />
+                          {getStatusIcon(siteStatus?.pingIsUp, 16)}
+                        </Stack>
+                        <Typography variant="subtitle2" color="text.secondary" align="center">
+                          Ping
+                        </Typography>
+                        <Typography variant="body2" fontWeight={600} color={getStatusColor(siteStatus?.pingIsUp)}>
+                          {siteStatus?.pingIsUp === undefined ? 'Unknown' : (siteStatus.pingIsUp ? 'Online' : 'Offline')}
+                        </Typography>
                       </Stack>
-                      <Typography variant="subtitle2" color="text.secondary" align="center">
-                        Ping
-                      </Typography>
-                      <Typography variant="body2" fontWeight={600} color={getStatusColor(siteStatus?.pingIsUp)}>
-                        {siteStatus?.pingIsUp === undefined ? 'Unknown' : (siteStatus.pingIsUp ? 'Online' : 'Offline')}
-                      </Typography>
-                    </Stack>
-                  </Card>
+                    </Card>
 
-                  {/* HTTP Status */}
-                  <Card
-                    sx={{
-                      flex: 1,
-                      p: 2,
-                      background: alpha(getStatusColor(siteStatus?.httpIsUp), 0.08),
-                      border: `1px solid ${alpha(getStatusColor(siteStatus?.httpIsUp), 0.2)}`,
-                      transition: 'all 0.3s ease',
-                      '&:hover': {
-                        transform: 'translateY(-1px)',
-                        boxShadow: theme.shadows[4],
-                      }
-                    }}
-                  >
-                    <Stack spacing={1} alignItems="center">
-                      <Stack direction="row" spacing={1} alignItems="center">
-                        <HttpIcon sx={{ color: getStatusColor(siteStatus?.httpIsUp) }} />
-                        {getStatusIcon(siteStatus?.httpIsUp, 16)}
+                    {/* HTTP Status */}
+                    <Card
+                      sx={{
+                        flex: 1,
+                        p: 2,
+                        background: alpha(getStatusColor(siteStatus?.httpIsUp), 0.08),
+                        border: `1px solid ${alpha(getStatusColor(siteStatus?.httpIsUp), 0.2)}`,
+                        transition: 'all 0.3s ease',
+                        '&:hover': {
+                          transform: 'translateY(-1px)',
+                          boxShadow: theme.shadows[4],
+                        }
+                      }}
+                    >
+                      <Stack spacing={1} alignItems="center">
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <HttpIcon sx={{ color: getStatusColor(siteStatus?.httpIsUp) }} />
+                          {getStatusIcon(siteStatus?.httpIsUp, 16)}
+                        </Stack>
+                        <Typography variant="subtitle2" color="text.secondary" align="center">
+                          HTTP
+                        </Typography>
+                        <Typography variant="body2" fontWeight={600} color={getStatusColor(siteStatus?.httpIsUp)}>
+                          {siteStatus?.httpIsUp === undefined ? 'Unknown' : (siteStatus.httpIsUp ? 'Online' : 'Offline')}
+                        </Typography>
+                        {siteStatus?.httpIsUp === false && siteStatus.httpError && (
+                          <Typography variant="caption" color="error" align="center" sx={{ wordBreak: 'break-word' }}>
+                            {siteStatus.httpError}
+                          </Typography>
+                        )}
                       </Stack>
-                      <Typography variant="subtitle2" color="text.secondary" align="center">
-                        HTTP
-                      </Typography>
-                      <Typography variant="body2" fontWeight={600} color={getStatusColor(siteStatus?.httpIsUp)}>
-                        {siteStatus?.httpIsUp === undefined ? 'Unknown' : (siteStatus.httpIsUp ? 'Online' : 'Offline')}
-                      </Typography>
-                    </Stack>
-                  </Card>
+                    </Card>
 
-                  {/* DNS Status */}
-                  <Card
-                    sx={{
-                      flex: 1,
-                      p: 2,
-                      background: alpha(getStatusColor(siteStatus?.dnsIsUp), 0.08),
-                      border: `1px solid ${alpha(getStatusColor(siteStatus?.dnsIsUp), 0.2)}`,
-                      transition: 'all 0.3s ease',
-                      '&:hover': {
-                        transform: 'translateY(-1px)',
-                        boxShadow: theme.shadows[4],
-                      }
-                    }}
-                  >
-                    <Stack spacing={1} alignItems="center">
-                      <Stack direction="row" spacing={1} alignItems="center">
-                        <DnsIcon sx={{ color: getStatusColor(siteStatus?.dnsIsUp) }} />
-                        {getStatusIcon(siteStatus?.dnsIsUp, 16)}
+                    {/* DNS Status */}
+                    <Card
+                      sx={{
+                        flex: 1,
+                        p: 2,
+                        background: alpha(getStatusColor(siteStatus?.dnsIsUp), 0.08),
+                        border: `1px solid ${alpha(getStatusColor(siteStatus?.dnsIsUp), 0.2)}`,
+                        transition: 'all 0.3s ease',
+                        '&:hover': {
+                          transform: 'translateY(-1px)',
+                          boxShadow: theme.shadows[4],
+                        }
+                      }}
+                    >
+                      <Stack spacing={1} alignItems="center">
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <DnsIcon sx={{ color: getStatusColor(siteStatus?.dnsIsUp) }} />
+                          {getStatusIcon(siteStatus?.dnsIsUp, 16)}
+                        </Stack>
+                        <Typography variant="subtitle2" color="text.secondary" align="center">
+                          DNS
+                        </Typography>
+                        <Typography variant="body2" fontWeight={600} color={getStatusColor(siteStatus?.dnsIsUp)}>
+                          {siteStatus?.dnsIsUp === undefined ? 'Unknown' : (siteStatus.dnsIsUp ? 'Online' : 'Offline')}
+                        </Typography>
                       </Stack>
-                      <Typography variant="subtitle2" color="text.secondary" align="center">
-                        DNS
-                      </Typography>
-                      <Typography variant="body2" fontWeight={600} color={getStatusColor(siteStatus?.dnsIsUp)}>
-                        {siteStatus?.dnsIsUp === undefined ? 'Unknown' : (siteStatus.dnsIsUp ? 'Online' : 'Offline')}
-                      </Typography>
-                    </Stack>
-                  </Card>
+                    </Card>
 
-                  {/* TCP Status Summary */}
-                  <Card
-                    sx={{
-                      flex: 1,
-                      p: 2,
-                      background: alpha(theme.palette.info.main, 0.08),
-                      border: `1px solid ${alpha(theme.palette.info.main, 0.2)}`,
-                      transition: 'all 0.3s ease',
-                      '&:hover': {
-                        transform: 'translateY(-1px)',
-                        boxShadow: theme.shadows[4],
-                      }
-                    }}
-                  >
-                    <Stack spacing={1} alignItems="center">
-                      <Stack direction="row" spacing={1} alignItems="center">
-                        <TcpIcon sx={{ color: theme.palette.info.main }} />
-                        <Badge
-                          badgeContent={siteStatus?.tcpChecks?.length || 0}
-                          color="info"
-                          sx={{ '& .MuiBadge-badge': { fontSize: '0.65rem' } }}
-                        >
-                          <InfoIcon sx={{ fontSize: 16, color: theme.palette.info.main }} />
-                        </Badge>
+                    {/* TCP Status Summary */}
+                    <Card
+                      sx={{
+                        flex: 1,
+                        p: 2,
+                        background: alpha(theme.palette.info.main, 0.08),
+                        border: `1px solid ${alpha(theme.palette.info.main, 0.2)}`,
+                        transition: 'all 0.3s ease',
+                        '&:hover': {
+                          transform: 'translateY(-1px)',
+                          boxShadow: theme.shadows[4],
+                        }
+                      }}
+                    >
+                      <Stack spacing={1} alignItems="center">
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <TcpIcon sx={{ color: theme.palette.info.main }} />
+                          <Badge
+                            badgeContent={siteStatus?.tcpChecks?.length || 0}
+                            color="info"
+                            sx={{ '& .MuiBadge-badge': { fontSize: '0.65rem' } }}
+                          >
+                            <InfoIcon sx={{ fontSize: 16, color: theme.palette.info.main }} />
+                          </Badge>
+                        </Stack>
+                        <Typography variant="subtitle2" color="text.secondary" align="center">
+                          TCP Ports
+                        </Typography>
+                        <Typography variant="body2" fontWeight={600} color="text.primary">
+                          {siteStatus?.tcpChecks?.filter(check => check.isUp).length || 0}/
+                          {siteStatus?.tcpChecks?.length || 0} Open
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {tcpPorts.map((port) => tcpPortLabels.get(port) || port).join(', ') || 'None'}
+                        </Typography>
                       </Stack>
-                      <Typography variant="subtitle2" color="text.secondary" align="center">
-                        TCP Ports
-                      </Typography>
-                      <Typography variant="body2" fontWeight={600} color="text.primary">
-                        {siteStatus?.tcpChecks?.filter(check => check.isUp).length || 0}/
-                        {siteStatus?.tcpChecks?.length || 0} Open
-                      </Typography>
-                      <Typography variant="caption" color="text.secondary">
-                        {tcpPorts.join(', ') || 'None'}
-                      </Typography>
-                    </Stack>
-                  </Card>
+                    </Card>
+                  </Stack>
                 </Stack>
-              </Stack>
+              )}
+
+              {/* Protocol Handshake */}
+              {isProtocolMonitor(site.monitorType) && (
+                <>
+                  <Divider />
+                  <ProtocolDetails monitorType={site.monitorType} status={siteStatus} />
+                </>
+              )}
+
+              {/* Transaction Steps */}
+              {site.monitorType === 'TRANSACTION' && (
+                <>
+                  <Divider />
+                  <TransactionDetails steps={site.transactionSteps || []} status={siteStatus} />
+                </>
+              )}
 
               <Divider />
 
@@ -858,7 +932,7 @@ return (
 
 
               {/* Advanced Details Toggle */}
-              <Stack direction="row" justifyContent="center">
+              <Stack direction="row" justifyContent="center" sx={{ display: isHeartbeat ? 'none' : 'flex' }}>
                 <Button
                   onClick={() => setShowAdvancedDetails(!showAdvancedDetails)}
                   startIcon={showAdvancedDetails ? <ExpandLessIcon /> : <ExpandMoreIcon />}
@@ -873,7 +947,7 @@ return (
               </Stack>
 
               {/* Advanced Details */}
-              <Collapse in={showAdvancedDetails}>
+              <Collapse in={showAdvancedDetails && !isHeartbeat}>
                 <Stack spacing={3}>
                   {/* DNS Information */}
                   {siteStatus?.dnsNameservers && siteStatus.dnsNameservers.length > 0 && (
@@ -912,7 +986,7 @@ return (
                           {siteStatus.dnsRecords?.addresses && (
                             <Stack spacing={1} sx={{ flex: 1 }}>
                               <Typography variant="subtitle2" color="text.secondary" gutterBottom>
-                                IP Addresses
+                                IPv4 Addresses
                               </Typography>
                               <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
                                 {siteStatus.dnsRecords.addresses.map((addr, index) => (
@@ -930,6 +1004,158 @@ return (
                             </Stack>
                           )}
                         </Stack>
+
+                        {siteStatus.dnsRecords?.resolvers && siteStatus.dnsRecords.resolvers.length > 0 && (
+                          <DnsResolverDetails
+                            resolvers={siteStatus.dnsRecords.resolvers}
+                            systemRecords={{
+                              ...siteStatus.dnsSnapshot,
+                              A: [...siteStatus.dnsRecords.addresses].sort(),
+                              AAAA: [...(siteStatus.dnsRecords.ipv6Addresses || [])].sort(),
+                            }}
+                          />
+                        )}
+                      </Stack>
+                    </>
+                  )}
+
+                  {/* DNS Record Monitoring */}
+                  {(siteStatus?.dnsSnapshot || (siteStatus?.dnsChanges && siteStatus.dnsChanges.length > 0)) && (
+                    <>
+                      <Divider />
+                      <Stack spacing={2}>
+                        <Stack direction="row" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={1}>
+                          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <DnsIcon color="secondary" />
+                            DNS Records
+                          </Typography>
+                          {siteStatus.dnsChanges && siteStatus.dnsChanges.length > 0 ? (
+                            <Chip label="Changed from baseline" size="small" color="error" />
+                          ) : (
+                            <Chip label="Matches baseline" size="small" color="success" variant="outlined" />
+                          )}
+                        </Stack>
+
+                        {siteStatus.dnsChanges && siteStatus.dnsChanges.length > 0 && (
+                          <Stack
+                            spacing={1}
+                            sx={{
+                              p: 2,
+                              borderRadius: 2,
+                              background: alpha(theme.palette.error.main, 0.06),
+                              border: `1px solid ${alpha(theme.palette.error.main, 0.2)}`,
+                            }}
+                          >
+                            {siteStatus.dnsChanges.map((change) => (
+                              <Box key={change.type} sx={{ fontFamily: 'monospace', fontSize: '0.85rem', wordBreak: 'break-all' }}>
+                                <Typography variant="subtitle2">{change.type}</Typography>
+                                {change.removed.map((value) => (
+                                  <Box key={`-${value}`} sx={{ color: theme.palette.error.main }}>- {value}</Box>
+                                ))}
+                                {change.added.map((value) => (
+                                  <Box key={`+${value}`} sx={{ color: theme.palette.success.main }}>+ {value}</Box>
+                                ))}
+                              </Box>
+                            ))}
+                            <Box>
+                              <Button
+                                size="small"
+                                variant="outlined"
+                                onClick={handleAcceptDnsBaseline}
+                                disabled={dnsBaselineLoading}
+                                startIcon={dnsBaselineLoading ? <CircularProgress size={16} color="inherit" /> : <CheckIcon />}
+                                sx={{ textTransform: 'none', mt: 1 }}
+                              >
+                                Accept current records as baseline
+                              </Button>
+                            </Box>
+                          </Stack>
+                        )}
+
+                        {siteStatus.dnsSnapshot && (
+                          <Stack spacing={1}>
+                            {Object.entries(siteStatus.dnsSnapshot).map(([type, values]) => (
+                              <Stack key={type} direction="row" spacing={1.5} alignItems="flex-start">
+                                <Chip label={type} size="small" sx={{ minWidth: 64 }} />
+                                <Typography variant="body2" sx={{ wordBreak: 'break-all', pt: 0.25 }}>
+                                  {values && values.length > 0 ? values.join(', ') : 'No records'}
+                                </Typography>
+                              </Stack>
+                            ))}
+                          </Stack>
+                        )}
+                      </Stack>
+                    </>
+                  )}
+
+                  {/* Address Families */}
+                  {(siteStatus?.ipv4HttpIsUp != null || siteStatus?.ipv6HttpIsUp != null) && (
+                    <>
+                      <Divider />
+                      <Stack spacing={2}>
+                        <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <NetworkIcon color="info" />
+                          IPv4 / IPv6
+                        </Typography>
+
+                        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ width: '100%' }}>
+                          {([
+                            {
+                              label: 'IPv4',
+                              isUp: siteStatus.ipv4HttpIsUp,
+                              error: siteStatus.ipv4HttpError,
+                              addresses: siteStatus.dnsRecords?.addresses,
+                              tcpChecks: siteStatus.ipv4TcpChecks,
+                            },
+                            {
+                              label: 'IPv6',
+                              isUp: siteStatus.ipv6HttpIsUp,
+                              error: siteStatus.ipv6HttpError,
+                              addresses: siteStatus.dnsRecords?.ipv6Addresses,
+                              tcpChecks: siteStatus.ipv6TcpChecks,
+                            },
+                          ]).map((family) => {
+                            const isUp = family.isUp ?? undefined;
+                            return (
+                              <Card
+                                key={family.label}
+                                sx={{
+                                  flex: 1,
+                                  p: 2,
+                                  background: alpha(getStatusColor(isUp), 0.08),
+                                  border: `1px solid ${alpha(getStatusColor(isUp), 0.2)}`,
+                                }}
+                              >
+                                <Stack spacing={1}>
+                                  <Stack direction="row" justifyContent="space-between" alignItems="center">
+                                    <Typography variant="subtitle2" fontWeight={600}>
+                                      {family.label}
+                                    </Typography>
+                                    {getStatusIcon(isUp, 18)}
+                                  </Stack>
+                                  <Typography variant="body2" color={getStatusColor(isUp)} fontWeight={600}>
+                                    {family.isUp == null ? 'No addresses' : family.isUp ? 'HTTP reachable' : 'HTTP unreachable'}
+                                  </Typography>
+                                  {family.tcpChecks && family.tcpChecks.length > 0 && (
+                                    <Typography variant="caption" color="text.secondary">
+                                      TCP: {family.tcpChecks.map((check) => `${check.label || check.port} ${check.isUp ? 'open' : 'closed'}`).join(', ')}
+                                    </Typography>
+                                  )}
+                                  {family.addresses && family.addresses.length > 0 && (
+                                    <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                                      {family.addresses.join(', ')}
+                                    </Typography>
+                                  )}
+                                  {family.error && (
+                                    <Typography variant="caption" color="error">
+                                      Error: {family.error}
+                                    </Typography>
+                                  )}
+                                </Stack>
+                              </Card>
+                            );
+                          })}
+                        </Stack>
                       </Stack>
                     </>
                   )}
@@ -965,7 +1191,7 @@ return (
                               <Stack spacing={1}>
                                 <Stack direction="row" justifyContent="space-between" alignItems="center">
                                   <Typography variant="subtitle2" fontWeight={600}>
-                                    Port {check.port}
+                                    {formatTcpService(check.port, check.label)}
                                   </Typography>
                                   {getStatusIcon(check.isUp, 18)}
                                 </Stack>
@@ -974,8 +1200,17 @@ return (
                                   color={getStatusColor(check.isUp)}
                                   fontWeight={600}
                                 >
-                                  {check.isUp ? 'Open' : 'Closed'}
+                                  {check.isUp ? 'Open' : check.isConnected ? 'Unexpected response' : 'Closed'}
                                 </Typography>
+                                {check.banner && (
+                                  <Typography
+                                    variant="caption"
+                                    color="text.secondary"
+                                    sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}
+                                  >
+                                    {check.banner}
+                                  </Typography>
+                                )}
                                 {check.error && (
                                   <Typography variant="caption" color="error">
                                     Error: {check.error}
@@ -989,6 +1224,119 @@ return (
                     </>
                   )}
 
+                  {/* JSON Assertions */}
+                  {siteStatus?.jsonAssertionResults && siteStatus.jsonAssertionResults.length > 0 && (
+                    <>
+                      <Divider />
+                      <Stack spacing={2}>
+                        <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <JsonIcon color="info" />
+                          JSON Assertions
+                        </Typography>
+
+                        <Stack spacing={1}>
+                          {siteStatus.jsonAssertionResults.map((assertion, index) => (
+                            <Stack
+                              key={index}
+                              direction="row"
+                              spacing={1.5}
+                              alignItems="center"
+                              sx={{
+                                p: 1.5,
+                                borderRadius: 2,
+                                background: alpha(getStatusColor(assertion.passed), 0.08),
+                                border: `1px solid ${alpha(getStatusColor(assertion.passed), 0.2)}`,
+                              }}
+                            >
+                              {getStatusIcon(assertion.passed, 18)}
+                              <Stack spacing={0.25} sx={{ flex: 1, minWidth: 0 }}>
+                                <Typography variant="body2" fontWeight={600} sx={{ wordBreak: 'break-all' }}>
+                                  {assertion.path} {assertion.operator}
+                                  {assertion.value !== undefined && assertion.value !== null ? ` ${JSON.stringify(assertion.value)}` : ''}
+                                </Typography>
+                                {!assertion.passed && assertion.error && (
+                                  <Typography variant="caption" color="error">
+                                    {assertion.error}
+                                  </Typography>
+                                )}
+                              </Stack>
+                            </Stack>
+                          ))}
+                        </Stack>
+                      </Stack>
+                    </>
+                  )}
+
+                  {/* Redirect Chain */}
+                  {(siteStatus?.redirectChain?.length || siteStatus?.httpsEnforced !== null && siteStatus?.httpsEnforced !== undefined) && (
+                    <>
+                      <Divider />
+                      <Stack spacing={2}>
+                        <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <RedirectIcon color="info" />
+                          Redirect Chain
+                        </Typography>
+
+                        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                          <Chip
+                            label={`${siteStatus.redirectCount ?? 0} redirect${siteStatus.redirectCount === 1 ? '' : 's'}`}
+                            size="small"
+                            sx={{
+                              backgroundColor: alpha(theme.palette.info.main, 0.1),
+                              color: theme.palette.info.main,
+                            }}
+                          />
+                          {siteStatus.httpsEnforced !== null && siteStatus.httpsEnforced !== undefined && (
+                            <Chip
+                              label={siteStatus.httpsEnforced ? 'HTTPS enforced' : 'HTTPS not enforced'}
+                              size="small"
+                              color={siteStatus.httpsEnforced ? 'success' : 'warning'}
+                              variant="outlined"
+                            />
+                          )}
+                          {siteStatus.httpsDowngrade && (
+                            <Chip label="Redirects to HTTP" size="small" color="error" variant="outlined" />
+                          )}
+                          {siteStatus.redirectLoop && (
+                            <Chip label="Redirect loop" size="small" color="error" variant="outlined" />
+                          )}
+                        </Stack>
+
+                        {siteStatus.redirectChain && siteStatus.redirectChain.length > 0 && (
+                          <Stack spacing={1}>
+                            {siteStatus.redirectChain.map((hop, index) => (
+                              <Stack key={index} direction="row" spacing={1.5} alignItems="center">
+                                <Chip
+                                  label={hop.status}
+                                  size="small"
+                                  color={hop.status >= 400 ? 'error' : hop.status >= 300 ? 'info' : 'success'}
+                                  sx={{ minWidth: 56 }}
+                                />
+                                <Typography variant="body2" sx={{ wordBreak: 'break-all', flex: 1 }}>
+                                  {hop.url}
+                                  {hop.location && (
+                                    <Typography component="span" variant="body2" color="text.secondary">
+                                      {' → '}{hop.location}
+                                    </Typography>
+                                  )}
+                                </Typography>
+                                <Typography variant="caption" color="text.secondary">
+                                  {hop.responseTime}ms
+                                </Typography>
+                              </Stack>
+                            ))}
+                          </Stack>
+                        )}
+
+                        {siteStatus.finalUrl && (
+                          <Typography variant="body2" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                            Final URL: {siteStatus.finalUrl}
+                          </Typography>
+                        )}
+                      </Stack>
+                    </>
+                  )}
+
                   {/* SSL Information */}
                   {siteStatus?.hasSsl && (
                     <>
@@ -1044,18 +1392,125 @@ return (
                             <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
                               {siteStatus?.sslIssuer || 'Unknown'}
                             </Typography>
-                            <Chip
-                              icon={<SecurityIcon />}
-                              label={(siteStatus?.sslDaysUntilExpiry || 0) > 30 ? "Certificate Valid" : "Certificate Expiring Soon"}
-                              color={(siteStatus?.sslDaysUntilExpiry || 0) > 30 ? "success" : "warning"}
-                              size="small"
-                              sx={{ borderRadius: 1, mt: 1 }}
-                            />
+                            {siteStatus?.sslTrusted === false ? (
+                              <Chip
+                                icon={<UnverifiedIcon />}
+                                label="Certificate Not Trusted"
+                                color="error"
+                                size="small"
+                                sx={{ borderRadius: 1, mt: 1 }}
+                              />
+                            ) : (
+                              <Chip
+                                icon={<SecurityIcon />}
+                                label={(siteStatus?.sslDaysUntilExpiry || 0) > 30 ? "Certificate Valid" : "Certificate Expiring Soon"}
+                                color={(siteStatus?.sslDaysUntilExpiry || 0) > 30 ? "success" : "warning"}
+                                size="small"
+                                sx={{ borderRadius: 1, mt: 1 }}
+                              />
+                            )}
                           </Stack>
                         </Stack>
+
+                        {siteStatus?.sslTrusted !== null && siteStatus?.sslTrusted !== undefined && (
+                          <Stack spacing={1.5}>
+                            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                              <Chip
+                                label={siteStatus.sslHostnameMatch ? 'Hostname matches' : 'Hostname mismatch'}
+                                size="small"
+                                color={siteStatus.sslHostnameMatch ? 'success' : 'error'}
+                                variant="outlined"
+                              />
+                              {siteStatus.sslProtocol && (
+                                <Chip
+                                  label={siteStatus.sslProtocol}
+                                  size="small"
+                                  color={['TLSv1', 'TLSv1.1', 'SSLv3'].includes(siteStatus.sslProtocol) ? 'warning' : 'default'}
+                                  variant="outlined"
+                                />
+                              )}
+                              {siteStatus.sslCipher && (
+                                <Chip label={siteStatus.sslCipher} size="small" variant="outlined" />
+                              )}
+                              <Chip
+                                label={siteStatus.sslOcspStapled ? 'OCSP stapled' : 'No OCSP stapling'}
+                                size="small"
+                                color={siteStatus.sslOcspStapled ? 'success' : 'default'}
+                                variant="outlined"
+                              />
+                            </Stack>
+
+                            {siteStatus.sslTrustError && (
+                              <Typography variant="caption" color="error">
+                                Trust: {siteStatus.sslTrustError}
+                              </Typography>
+                            )}
+                            {siteStatus.sslHostnameError && (
+                              <Typography variant="caption" color="error">
+                                Hostname: {siteStatus.sslHostnameError}
+                              </Typography>
+                            )}
+                            {siteStatus.sslSubjectAltNames && siteStatus.sslSubjectAltNames.length > 0 && (
+                              <Typography variant="body2" color="text.secondary" sx={{ wordBreak: 'break-word' }}>
+                                Covers: {siteStatus.sslSubjectAltNames.join(', ')}
+                              </Typography>
+                            )}
+
+                            {siteStatus.sslChain && siteStatus.sslChain.length > 0 && (
+                              <Stack spacing={1}>
+                                <Typography variant="subtitle2" color="text.secondary">
+                                  Certificate Chain
+                                </Typography>
+                                {siteStatus.sslChain.map((cert, index) => (
+                                  <Stack
+                                    key={cert.fingerprint256 || index}
+                                    direction="row"
+                                    spacing={1.5}
+                                    alignItems="center"
+                                    sx={{ pl: index * 2 }}
+                                  >
+                                    {getStatusIcon(!cert.isExpired, 18)}
+                                    <Typography variant="body2" sx={{ flex: 1, wordBreak: 'break-word' }}>
+                                      {cert.subject}
+                                      <Typography component="span" variant="body2" color="text.secondary">
+                                        {' '}issued by {cert.issuer}
+                                      </Typography>
+                                    </Typography>
+                                    <Typography
+                                      variant="caption"
+                                      color={cert.isExpired ? 'error' : cert.daysUntilExpiry < 30 ? 'warning.main' : 'text.secondary'}
+                                    >
+                                      {cert.isExpired ? 'Expired' : `${cert.daysUntilExpiry} days left`}
+                                    </Typography>
+                                  </Stack>
+                                ))}
+                              </Stack>
+                            )}
+                          </Stack>
+                        )}
                       </Stack>
                     </>
                   )}
+
+                  {/* Security Headers */}
+                  {siteStatus?.securityScore != null && (
+                    <>
+                      <Divider />
+                      <SecurityAuditDetails status={siteStatus} />
+                    </>
+                  )}
+
+                  {/* Page Content */}
+                  {siteStatus?.contentSimilarity != null && (
+                    <>
+                      <Divider />
+                      <ContentChangeDetails
+                        status={siteStatus}
+                        onAccept={handleAcceptContentBaseline}
+                        accepting={contentBaselineLoading}
+                      />
+                    </>
+                  )}
                 </Stack>
               </Collapse>
             </Stack>
@@ -1063,7 +1518,7 @@ return (
         </Card>
 
         {/* Worker Response Time Graphs */}
-        {memoizedStatusHistory.length > 0 && (
+        {!isHeartbeat && memoizedStatusHistory.length > 0 && (
           <Stack spacing={3}>
             <Stack direction="row" spacing={2} alignItems="center" sx={{ flexWrap: 'wrap' }}>
               <TimelineIcon
@@ -627,7 +627,9 @@ export default function Sites() {
                 <TableCell align="center">
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'center', color: theme.palette.text.secondary }}>
                     <SpeedIcon fontSize="small" color="inherit" />
-                    Every {site.checkInterval} minute{site.checkInterval > 1 ? 's' : ''}
+                    {site.checkInterval < 1
+                      ? `Every ${Math.round(site.checkInterval * 60)} seconds`
+                      : `Every ${site.checkInterval} minute${site.checkInterval > 1 ? 's' : ''}`}
                   </Box>
                 </TableCell>
                 <TableCell align="center">
@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
+import type { AxiosError } from 'axios';
 import type { Site, CreateSiteData, UpdateSiteData, SiteState } from '../../types/site.types';
 import axiosInstance from '../../lib/axios';
 import { showToast } from '../../utils/toast';
@@ -58,6 +59,51 @@ export const deleteSite = createAsyncThunk(
   }
 );
 
+export const acceptDnsBaseline = createAsyncThunk(
+  'sites/acceptDnsBaseline',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await axiosInstance.post(`/sites/${id}/dns-baseline`);
+      showToast.success('Current DNS records accepted as the new baseline');
+      return response.data;
+    } catch (error) {
+      const message = (error as AxiosError<{ message?: string }>).response?.data?.message || 'Failed to accept DNS records';
+      showToast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const acceptContentBaseline = createAsyncThunk(
+  'sites/acceptContentBaseline',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await axiosInstance.post(`/sites/${id}/content-baseline`);
+      showToast.success('Current content accepted as the new baseline');
+      return response.data;
+    } catch (error) {
+      const message = (error as AxiosError<{ message?: string }>).response?.data?.message || 'Failed to accept the content';
+      showToast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
+export const regenerateHeartbeatToken = createAsyncThunk(
+  'sites/regenerateHeartbeatToken',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await axiosInstance.post(`/sites/${id}/heartbeat-token`);
+      showToast.success('New ping URL generated, update your job to use it');
+      return response.data;
+    } catch (error) {
+      const message = (error as AxiosError<{ message?: string }>).response?.data?.message || 'Failed to regenerate the ping URL';
+      showToast.error(message);
+      return rejectWithValue(message);
+    }
+  }
+);
+
 const siteSlice = createSlice({
   name: 'sites',
   initialState,
@@ -95,6 +141,25 @@ const siteSlice = createSlice({
           state.sites[index] = action.payload;
         }
       })
+      // Accept DNS baseline
+      .addCase(acceptDnsBaseline.fulfilled, (state, action) => {
+        const index = state.sites.findIndex((site) => site.id === action.payload.id);
+        if (index !== -1) {
+          state.sites[index] = { ...state.sites[index], ...action.payload };
+        }
+      })
+      .addCase(acceptContentBaseline.fulfilled, (state, action) => {
+        const index = state.sites.findIndex((site) => site.id === action.payload.id);
+        if (index !== -1) {
+          state.sites[index] = { ...state.sites[index], ...action.payload };
+        }
+      })
+      .addCase(regenerateHeartbeatToken.fulfilled, (state, action) => {
+        const index = state.sites.findIndex((site) => site.id === action.payload.id);
+        if (index !== -1) {
+          state.sites[index] = { ...state.sites[index], ...action.payload };
+        }
+      })
       // Delete site
       .addCase(deleteSite.fulfilled, (state, action) => {
         state.sites = state.sites.filter((site) => site.id !== action.payload);
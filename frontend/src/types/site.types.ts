@@ -1,10 +1,208 @@
-export interface Site {
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+// How the HTTP check request is sent and which responses count as up
+export interface SiteHttpRequestSettings {
+  httpMethod: HttpMethod;
+  httpHeaders: Record<string, string> | null;
+  httpBody: string | null;
+  acceptedStatusCodes: string[]; // Codes ("204") or ranges ("200-299")
+  followRedirects: boolean;
+  maxRedirects: number;
+}
+
+// HTTP content assertions evaluated against the response body
+export interface SiteContentRules {
+  contentMustContain: string[];
+  contentMustNotContain: string[];
+  contentRegex: string | null;
+  contentMaxBytes: number | null;
+}
+
+// Message exchange of WebSocket monitors and the service checked by gRPC monitors
+export interface SiteProtocolRequestSettings {
+  websocketSend: string | null;
+  websocketExpect: string | null; // A reply must contain this
+  websocketTimeout: number | null; // ms to wait for the reply, the check timeout when null
+  grpcService: string | null; // The server as a whole when empty
+}
+
+// Proxy the HTTP and TLS checks go through, and nameservers compared with the worker's own resolver
+export interface SiteNetworkSettings {
+  proxyUrl: string | null; // http://, https:// or socks5://, credentials in the URL
+  dnsResolvers: string[]; // IPs, optionally with a port
+}
+
+// Opt-in comparison of the page to a baseline, to catch defacement or unexpected edits
+export interface SiteContentChangeSettings {
+  contentChangeEnabled: boolean;
+  contentIgnoreSelectors: string[]; // Dynamic regions left out, e.g. #clock, .ad or [data-timestamp]
+  contentIgnorePatterns: string[]; // Regular expressions removed from the HTML first
+  contentSimilarityThreshold: number; // % of lines shared with the baseline below which the page changed
+}
+
+export interface ContentDiffLine {
+  type: 'added' | 'removed' | 'context' | 'skipped'; // skipped: a run of unchanged lines left out
+  text: string;
+}
+
+export type JsonAssertionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'exists'
+  | 'notExists'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'lengthEquals'
+  | 'lengthGreaterThan'
+  | 'lengthLessThan';
+
+export interface JsonAssertion {
+  path: string; // JSONPath-style, e.g. $.checks[0].status
+  operator: JsonAssertionOperator;
+  value?: string | number | boolean | null;
+}
+
+export interface JsonAssertionResult extends JsonAssertion {
+  passed: boolean;
+  actual?: unknown;
+  error?: string;
+}
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SOA' | 'CAA';
+
+export type DnsSnapshot = Partial<Record<DnsRecordType, string[]>>;
+
+export interface DnsRecordChange {
+  type: DnsRecordType;
+  added: string[];
+  removed: string[];
+}
+
+// Mail, database and cache servers checked with their own protocol instead of HTTP
+export type ProtocolMonitorType = 'SMTP' | 'IMAP' | 'POP3' | 'POSTGRES' | 'MYSQL' | 'REDIS' | 'WEBSOCKET' | 'GRPC';
+
+export type MonitorType = 'HTTP' | 'HEARTBEAT' | 'TRANSACTION' | ProtocolMonitorType;
+
+export type SecuritySeverity = 'high' | 'medium' | 'low';
+
+export interface SecurityFinding {
+  id: string;
+  category: 'https' | 'hsts' | 'csp' | 'framing' | 'content-type' | 'referrer' | 'cookies' | 'disclosure';
+  severity: SecuritySeverity;
+  message: string;
+}
+
+export interface DnsResolverResult {
+  resolver: string;
+  records: Partial<Record<DnsRecordType, string[]>>; // A and AAAA plus the watched types, sorted
+  recordErrors: Partial<Record<DnsRecordType, string>>;
+  mismatches: DnsRecordType[]; // Types answered differently than by the worker's resolver
+  responseTime: number;
+}
+
+export interface ProtocolCheckResult {
+  protocol: 'smtp' | 'imap' | 'pop3' | 'postgres' | 'mysql' | 'redis' | 'websocket' | 'grpc';
+  isUp: boolean;
+  host: string;
+  port: number;
+  tls: boolean; // Implicit TLS, or upgraded with STARTTLS
+  responseTime: number; // ms, whole session
+  timings: {
+    connect: number;
+    tlsHandshake: number | null;
+    handshake: number;
+  } | null; // null when the connection failed
+  error?: string;
+  greeting?: string; // SMTP, IMAP and POP3
+  extensions?: string[]; // SMTP EHLO keywords
+  startTlsOffered?: boolean;
+  serverVersion?: string; // MySQL
+  authMethod?: string; // Postgres
+  authenticated?: boolean; // Redis
+  status?: number; // HTTP status of the WebSocket upgrade
+  reply?: string; // WebSocket messages received after sending, truncated
+  replyTime?: number; // ms until the expected WebSocket reply
+  expectMatched?: boolean;
+  service?: string; // gRPC health service, empty for the whole server
+  servingStatus?: 'UNKNOWN' | 'SERVING' | 'NOT_SERVING' | 'SERVICE_UNKNOWN';
+  grpcStatus?: number;
+}
+
+export type TransactionExtractionSource = 'header' | 'body' | 'json';
+
+export interface TransactionExtraction {
+  name: string; // Used as {{name}} in the URL, headers and body of later steps
+  source: TransactionExtractionSource;
+  header?: string | null;
+  expression?: string | null; // Regex for header/body (first capture group wins), JSONPath for json
+}
+
+export interface TransactionStep {
+  name: string;
+  url: string; // Absolute, or relative to the site URL
+  method: HttpMethod;
+  headers?: Record<string, string> | null;
+  body?: string | null;
+  acceptedStatusCodes?: string[];
+  followRedirects?: boolean;
+  contentRules?: {
+    mustContain?: string[];
+    mustNotContain?: string[];
+    regex?: string | null;
+    maxBytes?: number | null;
+  };
+  jsonAssertions?: JsonAssertion[];
+  extract?: TransactionExtraction[];
+}
+
+export interface TransactionStepResult {
+  name: string;
+  url: string;
+  method: HttpMethod;
+  passed: boolean;
+  status: number;
+  responseTime: number; // ms, including redirects
+  error?: string;
+  jsonAssertions?: JsonAssertionResult[];
+  extracted?: string[];
+}
+
+export type HeartbeatPingType = 'START' | 'SUCCESS' | 'FAIL';
+
+export interface HeartbeatPing {
+  id: string;
+  type: HeartbeatPingType;
+  receivedAt: string;
+  runtime?: number | null; // ms since the matching START ping
+  payload?: string | null;
+  sourceIp?: string | null;
+}
+
+export interface Site
+  extends SiteHttpRequestSettings, SiteContentRules, SiteProtocolRequestSettings, SiteNetworkSettings,
+    SiteContentChangeSettings {
   id: string;
   name: string;
   url: string;
   checkInterval: number;
+  confirmationRetries: number; // Re-checks of a failure before it is reported down
+  regions: string[]; // Worker regions that check the site, empty for every shared region
   isActive: boolean;
   monthlyReport: boolean;
+  monitorType: MonitorType;
+  heartbeatToken?: string | null;
+  heartbeatPeriod?: number | null; // seconds
+  heartbeatGrace: number; // seconds
+  heartbeatLastPingAt?: string | null;
+  jsonAssertions: JsonAssertion[];
+  dnsRecordTypes: DnsRecordType[];
+  dnsBaseline?: DnsSnapshot | null;
+  dnsBaselineUpdatedAt?: string | null;
+  contentBaselineUpdatedAt?: string | null;
+  tcpPorts: TcpPortDefinition[];
+  transactionSteps: TransactionStep[];
   createdAt: string;
   updatedAt: string;
   notificationSettings: NotificationSetting[];
@@ -109,11 +307,52 @@ export interface SiteStatus {
   httpIsUp: boolean;
   dnsIsUp: boolean;
   checkedAt: string;
+
+  // Up overall, but one address family is failing (e.g. IPv6 broken, IPv4 fine)
+  isDegraded?: boolean;
+  degradedReason?: string | null;
   
   // Response Times
   pingResponseTime?: number;
   httpResponseTime?: number;
   dnsResponseTime?: number;
+
+  // HTTP Timing Phases of the final request, in ms
+  httpDnsLookupTime?: number | null;
+  httpConnectTime?: number | null;
+  httpTlsHandshakeTime?: number | null;
+  httpTimeToFirstByte?: number | null;
+  httpContentTransferTime?: number | null;
+
+  // Why a heartbeat monitor is down (late or failed ping)
+  heartbeatError?: string | null;
+
+  // Transaction steps of a transaction monitor, the failed step is the last one that ran
+  transactionIsUp?: boolean | null;
+  transactionFailedStep?: number | null;
+  transactionError?: string | null;
+  transactionSteps?: TransactionStepResult[] | null;
+
+  // Handshake of a protocol monitor (mail, database, cache)
+  protocolIsUp?: boolean | null;
+  protocolError?: string | null;
+  protocolCheck?: ProtocolCheckResult | null;
+
+  // More than 1 attempt when a failure was re-checked before it was reported
+  attempts?: number | null;
+  attemptErrors?: string[];
+
+  // Why the HTTP check failed (connection error, content rule, ...)
+  httpError?: string | null;
+  jsonAssertionResults?: JsonAssertionResult[] | null;
+
+  // Redirect Information
+  redirectChain?: RedirectHop[];
+  redirectCount?: number | null;
+  finalUrl?: string | null;
+  redirectLoop?: boolean;
+  httpsDowngrade?: boolean;
+  httpsEnforced?: boolean | null;
   
   // Uptime percentages
   overallUptime?: number;
@@ -127,24 +366,89 @@ export interface SiteStatus {
   sslValidTo?: string;
   sslIssuer?: string;
   sslDaysUntilExpiry?: number;
+  sslTrusted?: boolean | null;
+  sslTrustError?: string | null;
+  sslHostnameMatch?: boolean | null;
+  sslHostnameError?: string | null;
+  sslSubjectAltNames?: string[];
+  sslChain?: SslChainCertificate[] | null;
+  sslProtocol?: string | null;
+  sslCipher?: string | null;
+  sslOcspStapled?: boolean | null;
+
+  // Security Headers Audit - null when no HTTP response was received
+  securityScore?: number | null; // 0-100
+  securityGrade?: string | null; // A to F
+  securityAudit?: {
+    findings: SecurityFinding[];
+    headers: Record<string, string | null>; // Audited headers as served, null when missing
+  } | null;
+
+  // Content Change - null when the page was not compared to its baseline
+  contentHash?: string | null;
+  contentSimilarity?: number | null; // % of lines shared with the baseline
+  contentChanged?: boolean | null;
+  contentDiff?: ContentDiffLine[] | null; // Only while the page differs from the baseline
   
   // DNS Information
   dnsNameservers: string[];
   dnsRecords?: {
     addresses: string[];
+    ipv6Addresses?: string[];
     error?: string;
+    recordErrors?: Partial<Record<DnsRecordType, string>> | null;
+    resolvers?: DnsResolverResult[] | null;
     responseTime?: number;
   };
+  dnsSnapshot?: DnsSnapshot | null;
+  dnsChanges?: DnsRecordChange[] | null;
   
   // TCP Check Information
   tcpChecks?: TcpCheckResult[];
+
+  // Address Family Information - null when the host has no address of that family
+  ipv4HttpIsUp?: boolean | null;
+  ipv4HttpResponseTime?: number | null;
+  ipv4HttpError?: string | null;
+  ipv4TcpChecks?: TcpCheckResult[] | null;
+  ipv6HttpIsUp?: boolean | null;
+  ipv6HttpResponseTime?: number | null;
+  ipv6HttpError?: string | null;
+  ipv6TcpChecks?: TcpCheckResult[] | null;
+}
+
+export interface SslChainCertificate {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  daysUntilExpiry: number;
+  isExpired: boolean;
+  fingerprint256: string;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location?: string | null;
+  responseTime: number;
+}
+
+export interface TcpPortDefinition {
+  port: number;
+  label?: string | null;
+  send?: string | null; // Written after connecting, \r \n and \t escapes are supported
+  expect?: string | null; // The response must contain this for the port to count as up
 }
 
 export interface TcpCheckResult {
   port: number;
+  label?: string | null;
   isConnected: boolean;
   isUp: boolean;
   responseTime?: number;
+  banner?: string | null;
+  expectMatched?: boolean | null;
   error?: string;
 }
 
@@ -167,10 +471,21 @@ export enum NotificationType {
   WEB_HOOK = 'WEB_HOOK'
 }
 
-export interface CreateSiteData {
+export interface CreateSiteData
+  extends Partial<SiteHttpRequestSettings>, Partial<SiteContentRules>, Partial<SiteProtocolRequestSettings>,
+    Partial<SiteNetworkSettings>, Partial<SiteContentChangeSettings> {
   name: string;
-  url: string;
+  url?: string; // Not used by heartbeat monitors
   checkInterval: number;
+  confirmationRetries?: number;
+  regions?: string[];
+  monitorType?: MonitorType;
+  heartbeatPeriod?: number | null;
+  heartbeatGrace?: number;
+  jsonAssertions?: JsonAssertion[];
+  dnsRecordTypes?: DnsRecordType[];
+  tcpPorts?: TcpPortDefinition[];
+  transactionSteps?: TransactionStep[];
   monthlyReport?: boolean;
   monthlyReportSendAt?: string; // ISO string or 'YYYY-MM-DDTHH:mm' from input
 }
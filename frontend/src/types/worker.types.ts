@@ -4,6 +4,11 @@ export interface Worker {
   startedAt: string;
   lastHeartbeat: string;
   activeSites: number;
+  queueLagMs: number; // How late the worker's checks started in its last heartbeat period
+  queuedChecks: number;
+  runningChecks: number;
+  configVersion: number | null; // Last site config version the worker applied
+  dedicated: boolean; // Only checks sites that list its region
 }
 
 export interface WorkersResponse {